@@ -0,0 +1,28 @@
+import { ConfigService } from '@nestjs/config';
+import { AirportDirectory } from './airport-directory.service';
+
+describe('AirportDirectory', () => {
+  const directory = new AirportDirectory({
+    get: () => undefined,
+  } as unknown as ConfigService);
+
+  it('resolves the bundled dataset by IATA and ICAO code', () => {
+    const dublin = directory.findByIata('dub');
+    expect(dublin).toMatchObject({
+      icao: 'EIDW',
+      city: 'Dublin',
+      country: 'Ireland',
+      tz: 'Europe/Dublin',
+    });
+    expect(dublin.lat).toBeCloseTo(53.42, 1);
+    expect(dublin.lon).toBeCloseTo(-6.27, 1);
+    expect(directory.findByIcao('KJFK')?.iata).toBe('JFK');
+  });
+
+  it('routes findByCode on code length and misses on unknown input', () => {
+    expect(directory.findByCode('LHR')?.city).toBe('London');
+    expect(directory.findByCode('LEBL')?.iata).toBe('BCN');
+    expect(directory.findByCode('Dublin International')).toBeNull();
+    expect(directory.findByIata(undefined)).toBeNull();
+  });
+});
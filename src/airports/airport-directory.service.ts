@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Airport } from './airport.types';
+
+const BUNDLED_DATA_FILE = join(__dirname, 'data', 'airports.json');
+
+/**
+ * In-memory lookup of airports by IATA or ICAO code, loaded once at startup
+ * from AIRPORTS_DATA_FILE (defaults to the bundled OpenFlights extract).
+ */
+@Injectable()
+export class AirportDirectory {
+  private readonly logger = new Logger(AirportDirectory.name);
+  private readonly byIata = new Map<string, Airport>();
+  private readonly byIcao = new Map<string, Airport>();
+
+  constructor(private readonly config: ConfigService) {
+    const file =
+      this.config.get<string>('AIRPORTS_DATA_FILE') ?? BUNDLED_DATA_FILE;
+    try {
+      const airports = JSON.parse(readFileSync(file, 'utf8')) as Airport[];
+      for (const airport of airports) {
+        this.byIata.set(airport.iata, airport);
+        if (airport.icao) this.byIcao.set(airport.icao, airport);
+      }
+      this.logger.log(`Loaded ${this.byIata.size} airports from ${file}`);
+    } catch (e) {
+      // Lookups just miss; callers fall back to geocoding.
+      this.logger.error(`Failed to load airports from ${file}`, e as Error);
+    }
+  }
+
+  findByIata(code: string | undefined): Airport | null {
+    return this.byIata.get(code?.trim().toUpperCase() ?? '') ?? null;
+  }
+
+  findByIcao(code: string | undefined): Airport | null {
+    return this.byIcao.get(code?.trim().toUpperCase() ?? '') ?? null;
+  }
+
+  /** Accepts either a 3-letter IATA or a 4-character ICAO code. */
+  findByCode(code: string | undefined): Airport | null {
+    const normalized = code?.trim().toUpperCase() ?? '';
+    if (/^[A-Z]{3}$/.test(normalized)) return this.findByIata(normalized);
+    if (/^[A-Z0-9]{4}$/.test(normalized)) return this.findByIcao(normalized);
+    return null;
+  }
+}
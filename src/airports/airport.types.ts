@@ -0,0 +1,12 @@
+/** One airport from the bundled reference dataset (data/airports.json). */
+export interface Airport {
+  iata: string;
+  icao: string | null;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lon: number;
+  /** IANA time zone, e.g. Europe/Dublin. */
+  tz: string;
+}
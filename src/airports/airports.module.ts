@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AirportDirectory } from './airport-directory.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [AirportDirectory],
+  exports: [AirportDirectory],
+})
+export class AirportsModule {}
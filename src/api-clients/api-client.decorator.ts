@@ -0,0 +1,9 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { RequestWithApiClient } from './api-key.guard';
+import type { ApiClientIdentity } from './api-client.types';
+
+/** The caller resolved by ApiKeyGuard; undefined on unguarded routes. */
+export const ApiClient = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiClientIdentity | undefined =>
+    context.switchToHttp().getRequest<RequestWithApiClient>().apiClient,
+);
@@ -0,0 +1,55 @@
+/** Token-bucket limits for one client; bursts default to the per-minute rate. */
+export interface RateLimitPolicy {
+  requestsPerMinute: number;
+  requestBurst: number;
+  toolCallsPerMinute: number;
+  toolCallBurst: number;
+}
+
+/** An API key as defined in API_KEYS or API_KEYS_FILE. */
+export interface ApiKeyRecord {
+  id: string;
+  key: string;
+  /** Origins allowed to use the key from a browser; empty allows any. */
+  allowedOrigins?: string[];
+  requestsPerMinute?: number;
+  requestBurst?: number;
+  toolCallsPerMinute?: number;
+  toolCallBurst?: number;
+  /** Tenant the key belongs to; unset gives the default tenant. */
+  tenantId?: string;
+  /** Tenants a key without tenantId may pick with x-tenant-id. */
+  allowedTenants?: string[];
+}
+
+/** Who is calling, attached to the request by ApiKeyGuard. */
+export interface ApiClientIdentity {
+  /** Key id, or "anonymous" for widget traffic without a key. */
+  id: string;
+  anonymous: boolean;
+  /** Rate-limit bucket key: the key id, or the caller's IP when anonymous. */
+  bucketKey: string;
+  allowedOrigins: string[];
+  limits: RateLimitPolicy;
+  /** From the key record; see TenantsService.resolve. */
+  tenantId?: string;
+  allowedTenants?: string[];
+}
+
+export type RateLimitKind = 'requests' | 'tool_calls';
+
+/**
+ * Reads API key records from parsed JSON, dropping entries without an id and
+ * key. Shared by the config and file key stores.
+ */
+export function parseApiKeyRecords(raw: unknown): ApiKeyRecord[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('API keys must be a JSON array.');
+  }
+  return raw.filter(
+    (entry): entry is ApiKeyRecord =>
+      typeof entry?.id === 'string' &&
+      typeof entry?.key === 'string' &&
+      entry.key.length > 0,
+  );
+}
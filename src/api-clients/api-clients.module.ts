@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ObservabilityModule } from '../observability/observability.module';
+import { ApiClientsService } from './api-clients.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { RateLimiterService } from './rate-limiter.service';
+import { IApiKeyStore } from './key-stores/api-key-store.interface';
+import { ConfigApiKeyStore } from './key-stores/config-api-key.store';
+import { FileApiKeyStore } from './key-stores/file-api-key.store';
+
+@Module({
+  imports: [ConfigModule, ObservabilityModule],
+  providers: [
+    ApiClientsService,
+    RateLimiterService,
+    ApiKeyGuard,
+    ConfigApiKeyStore,
+    FileApiKeyStore,
+    {
+      provide: 'IApiKeyStore',
+      useFactory: (
+        config: ConfigService,
+        configStore: ConfigApiKeyStore,
+        fileStore: FileApiKeyStore,
+      ): IApiKeyStore => {
+        const store = config.get<string>('API_KEY_STORE') ?? 'config';
+        if (store === 'file') {
+          return fileStore;
+        }
+        return configStore;
+      },
+      inject: [ConfigService, ConfigApiKeyStore, FileApiKeyStore],
+    },
+  ],
+  exports: [ApiClientsService, RateLimiterService, ApiKeyGuard],
+})
+export class ApiClientsModule {}
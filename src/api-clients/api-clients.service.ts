@@ -0,0 +1,142 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import {
+  ApiClientIdentity,
+  ApiKeyRecord,
+  RateLimitPolicy,
+} from './api-client.types';
+import { IApiKeyStore } from './key-stores/api-key-store.interface';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function originList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolves callers to an ApiClientIdentity: a configured API key, or the
+ * anonymous widget policy (stricter limits, bucketed per IP) when no key is
+ * sent and ANONYMOUS_ACCESS is not "false". Anonymous browser calls are only
+ * accepted from ANONYMOUS_ALLOWED_ORIGINS; with no list, none are.
+ */
+@Injectable()
+export class ApiClientsService {
+  private readonly logger = new Logger(ApiClientsService.name);
+  private readonly keyDefaults: RateLimitPolicy;
+  private readonly anonymousLimits: RateLimitPolicy;
+  private readonly anonymousOrigins: string[];
+  readonly anonymousAccess: boolean;
+
+  constructor(
+    private readonly config: ConfigService,
+    @Inject('IApiKeyStore') private readonly store: IApiKeyStore,
+  ) {
+    this.keyDefaults = this.policy('API_KEY', 60, 30);
+    this.anonymousLimits = this.policy('ANONYMOUS', 10, 5);
+    this.anonymousOrigins = originList(
+      this.config.get<string>('ANONYMOUS_ALLOWED_ORIGINS'),
+    );
+    this.anonymousAccess =
+      (this.config.get<string>('ANONYMOUS_ACCESS') ?? 'true') !== 'false';
+
+    if (this.anonymousAccess && this.anonymousOrigins.length === 0) {
+      this.logger.warn(
+        'ANONYMOUS_ALLOWED_ORIGINS is not set. Browser requests without an API key will be refused.',
+      );
+    }
+  }
+
+  /** The key's client, or null when the key is unknown. */
+  async findByKey(key: string): Promise<ApiClientIdentity | null> {
+    // Compare digests so the lookup time does not depend on the key's prefix.
+    const digest = sha256(key);
+    const records = await this.store.findAll();
+    const record = records.find((r) => sha256(r.key) === digest);
+    return record ? this.toIdentity(record) : null;
+  }
+
+  anonymous(ip: string): ApiClientIdentity {
+    return {
+      id: 'anonymous',
+      anonymous: true,
+      bucketKey: `anonymous:${ip}`,
+      allowedOrigins: this.anonymousOrigins,
+      limits: this.anonymousLimits,
+    };
+  }
+
+  /**
+   * A key with no allowedOrigins accepts any origin (server-side callers);
+   * anonymous access must list its origins.
+   */
+  isOriginAllowed(client: ApiClientIdentity, origin: string): boolean {
+    return (
+      (!client.anonymous && client.allowedOrigins.length === 0) ||
+      client.allowedOrigins.includes(origin)
+    );
+  }
+
+  /**
+   * CORS check, made before any key is seen: an origin passes if anonymous
+   * access or any key allows it. ApiKeyGuard then checks the actual caller.
+   */
+  async isCorsOriginAllowed(origin: string): Promise<boolean> {
+    if (
+      this.anonymousAccess &&
+      this.isOriginAllowed(this.anonymous(''), origin)
+    ) {
+      return true;
+    }
+    const records = await this.store.findAll();
+    return records.some((r) =>
+      this.isOriginAllowed(this.toIdentity(r), origin),
+    );
+  }
+
+  private toIdentity(record: ApiKeyRecord): ApiClientIdentity {
+    const requestsPerMinute =
+      record.requestsPerMinute ?? this.keyDefaults.requestsPerMinute;
+    const toolCallsPerMinute =
+      record.toolCallsPerMinute ?? this.keyDefaults.toolCallsPerMinute;
+    return {
+      id: record.id,
+      anonymous: false,
+      bucketKey: `key:${record.id}`,
+      allowedOrigins: record.allowedOrigins ?? [],
+      limits: {
+        requestsPerMinute,
+        requestBurst: record.requestBurst ?? requestsPerMinute,
+        toolCallsPerMinute,
+        toolCallBurst: record.toolCallBurst ?? toolCallsPerMinute,
+      },
+      ...(record.tenantId ? { tenantId: record.tenantId } : {}),
+      ...(record.allowedTenants
+        ? { allowedTenants: record.allowedTenants }
+        : {}),
+    };
+  }
+
+  /** Reads <PREFIX>_REQUESTS_PER_MINUTE, _REQUEST_BURST, _TOOL_CALLS_PER_MINUTE, _TOOL_CALL_BURST. */
+  private policy(
+    prefix: string,
+    requestsPerMinute: number,
+    toolCallsPerMinute: number,
+  ): RateLimitPolicy {
+    const read = (name: string, fallback: number) =>
+      Number(this.config.get<string>(`${prefix}_${name}`) ?? fallback);
+    const requests = read('REQUESTS_PER_MINUTE', requestsPerMinute);
+    const toolCalls = read('TOOL_CALLS_PER_MINUTE', toolCallsPerMinute);
+    return {
+      requestsPerMinute: requests,
+      requestBurst: read('REQUEST_BURST', requests),
+      toolCallsPerMinute: toolCalls,
+      toolCallBurst: read('TOOL_CALL_BURST', toolCalls),
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeyGuard, RequestWithApiClient } from './api-key.guard';
+import { ApiClientsService } from './api-clients.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { ApiKeyRecord } from './api-client.types';
+import { MetricsService } from '../observability/metrics.service';
+
+const KEYS: ApiKeyRecord[] = [
+  {
+    id: 'partner',
+    key: 'secret-key',
+    allowedOrigins: ['https://partner.example'],
+    requestsPerMinute: 2,
+  },
+];
+
+function createGuard(env: Record<string, string> = {}) {
+  const config = { get: (key: string) => env[key] } as ConfigService;
+  const clients = new ApiClientsService(config, {
+    findAll: async () => KEYS,
+  });
+  return new ApiKeyGuard(
+    clients,
+    new RateLimiterService(config, new MetricsService()),
+  );
+}
+
+function call(guard: ApiKeyGuard, headers: Record<string, string> = {}) {
+  const request = { headers, ip: '203.0.113.7' } as RequestWithApiClient;
+  const replyHeaders: Record<string, string> = {};
+  const reply = {
+    header: (name: string, value: string) => (replyHeaders[name] = value),
+  };
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => request,
+      getResponse: () => reply,
+    }),
+  } as unknown as ExecutionContext;
+  return {
+    result: guard.canActivate(context),
+    request,
+    replyHeaders,
+  };
+}
+
+async function statusOf(promise: Promise<unknown>): Promise<number> {
+  try {
+    await promise;
+    return 200;
+  } catch (e) {
+    return (e as HttpException).getStatus();
+  }
+}
+
+describe('ApiKeyGuard', () => {
+  it('resolves a valid key and rejects unknown keys and foreign origins', async () => {
+    const guard = createGuard();
+
+    const ok = call(guard, { 'x-api-key': 'secret-key' });
+    await ok.result;
+    expect(ok.request.apiClient).toMatchObject({
+      id: 'partner',
+      anonymous: false,
+    });
+
+    expect(
+      await statusOf(call(guard, { authorization: 'Bearer nope' }).result),
+    ).toBe(401);
+    expect(
+      await statusOf(
+        call(guard, {
+          'x-api-key': 'secret-key',
+          origin: 'https://evil.example',
+        }).result,
+      ),
+    ).toBe(403);
+  });
+
+  it('returns 429 with Retry-After once the request bucket is empty', async () => {
+    const guard = createGuard();
+    const headers = { 'x-api-key': 'secret-key' };
+
+    await call(guard, headers).result;
+    await call(guard, headers).result;
+    const limited = call(guard, headers);
+
+    expect(await statusOf(limited.result)).toBe(429);
+    expect(limited.replyHeaders['Retry-After']).toBe('30');
+  });
+
+  it('applies the stricter anonymous policy per IP, or refuses it when disabled', async () => {
+    const guard = createGuard({ ANONYMOUS_REQUESTS_PER_MINUTE: '1' });
+
+    const first = call(guard);
+    await first.result;
+    expect(first.request.apiClient).toMatchObject({
+      id: 'anonymous',
+      limits: { requestsPerMinute: 1, toolCallsPerMinute: 5 },
+    });
+    expect(await statusOf(call(guard).result)).toBe(429);
+
+    const closed = createGuard({ ANONYMOUS_ACCESS: 'false' });
+    expect(await statusOf(call(closed).result)).toBe(401);
+  });
+
+  it('refuses anonymous browser origins unless they are listed', async () => {
+    const origin = { origin: 'https://widget.example' };
+
+    expect(await statusOf(call(createGuard(), origin).result)).toBe(403);
+    expect(
+      await statusOf(
+        call(
+          createGuard({ ANONYMOUS_ALLOWED_ORIGINS: 'https://widget.example' }),
+          origin,
+        ).result,
+      ),
+    ).toBe(200);
+
+    const clients = new ApiClientsService(
+      { get: () => undefined } as unknown as ConfigService,
+      { findAll: async () => [] },
+    );
+    expect(await clients.isCorsOriginAllowed('https://evil.example')).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { ApiClientsService } from './api-clients.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { ApiClientIdentity } from './api-client.types';
+
+export type RequestWithApiClient = FastifyRequest & {
+  apiClient?: ApiClientIdentity;
+};
+
+function readKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+  const auth = request.headers.authorization;
+  return auth?.startsWith('Bearer ') ? auth.slice('Bearer '.length) : undefined;
+}
+
+/**
+ * Public chat API access: an x-api-key (or Bearer) key from the key store, or
+ * anonymous widget traffic. Checks the key's allowed origins and spends one
+ * request token; a caller whose tool-call bucket is empty is turned away too,
+ * since the turn could not look anything up. Rate-limited calls get a 429 with
+ * Retry-After.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly clients: ApiClientsService,
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<RequestWithApiClient>();
+    const reply = http.getResponse<FastifyReply>();
+
+    const key = readKey(request);
+    let client: ApiClientIdentity | null;
+    if (key) {
+      client = await this.clients.findByKey(key);
+      if (!client) throw new UnauthorizedException('Invalid API key.');
+    } else if (this.clients.anonymousAccess) {
+      client = this.clients.anonymous(request.ip);
+    } else {
+      throw new UnauthorizedException('An API key is required.');
+    }
+
+    const origin = request.headers.origin;
+    if (origin && !this.clients.isOriginAllowed(client, origin)) {
+      throw new ForbiddenException('Origin not allowed for this client.');
+    }
+
+    const tools = this.rateLimiter.check('tool_calls', client);
+    const requests = tools.allowed
+      ? this.rateLimiter.take('requests', client)
+      : tools;
+    if (!requests.allowed) {
+      reply.header('Retry-After', String(requests.retryAfterSeconds));
+      throw new HttpException(
+        `Too many requests. Retry after ${requests.retryAfterSeconds} seconds.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    request.apiClient = client;
+    return true;
+  }
+}
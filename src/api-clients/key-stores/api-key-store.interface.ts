@@ -0,0 +1,5 @@
+import { ApiKeyRecord } from '../api-client.types';
+
+export interface IApiKeyStore {
+  findAll(): Promise<ApiKeyRecord[]>;
+}
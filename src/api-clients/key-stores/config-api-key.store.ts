@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeyRecord, parseApiKeyRecords } from '../api-client.types';
+import { IApiKeyStore } from './api-key-store.interface';
+
+/** Keys from the API_KEYS environment variable (a JSON array). Default store. */
+@Injectable()
+export class ConfigApiKeyStore implements IApiKeyStore {
+  private readonly logger = new Logger(ConfigApiKeyStore.name);
+  private readonly records: ApiKeyRecord[];
+
+  constructor(private readonly config: ConfigService) {
+    const raw = this.config.get<string>('API_KEYS');
+    this.records = [];
+    if (!raw) return;
+    try {
+      this.records = parseApiKeyRecords(JSON.parse(raw));
+    } catch (e) {
+      this.logger.error(
+        `Ignoring API_KEYS: ${(e as Error).message} No API keys will be accepted.`,
+      );
+    }
+  }
+
+  async findAll(): Promise<ApiKeyRecord[]> {
+    return this.records;
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile, stat } from 'fs/promises';
+import { ApiKeyRecord, parseApiKeyRecords } from '../api-client.types';
+import { IApiKeyStore } from './api-key-store.interface';
+
+/**
+ * Keys from the JSON file at API_KEYS_FILE, re-read whenever the file changes
+ * so keys can be rotated without a restart. A broken edit keeps the last good
+ * set rather than locking every client out.
+ */
+@Injectable()
+export class FileApiKeyStore implements IApiKeyStore {
+  private readonly logger = new Logger(FileApiKeyStore.name);
+  private readonly path: string;
+  private records: ApiKeyRecord[] = [];
+  private loadedMtimeMs: number | null = null;
+
+  constructor(private readonly config: ConfigService) {
+    this.path =
+      this.config.get<string>('API_KEYS_FILE') ?? 'config/api-keys.json';
+  }
+
+  async findAll(): Promise<ApiKeyRecord[]> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(this.path)).mtimeMs;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+      if (this.loadedMtimeMs !== -1) {
+        this.logger.warn(`API key file ${this.path} not found.`);
+        this.loadedMtimeMs = -1;
+        this.records = [];
+      }
+      return this.records;
+    }
+
+    if (mtimeMs !== this.loadedMtimeMs) {
+      this.loadedMtimeMs = mtimeMs;
+      try {
+        const json = await readFile(this.path, 'utf8');
+        this.records = parseApiKeyRecords(JSON.parse(json));
+        this.logger.log(`Loaded ${this.records.length} API keys.`);
+      } catch (e) {
+        this.logger.error(
+          `Failed to load ${this.path}; keeping the previous keys.`,
+          e as Error,
+        );
+      }
+    }
+    return this.records;
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TokenBucket } from './token-bucket';
+import { ApiClientIdentity, RateLimitKind } from './api-client.types';
+import { MetricsService } from '../observability/metrics.service';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole seconds, as sent in Retry-After; 0 when allowed. */
+  retryAfterSeconds: number;
+}
+
+/**
+ * In-process token buckets per client and kind (requests, tool calls). With
+ * several app instances each enforces its own limits.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly maxBuckets: number;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
+    this.maxBuckets = Number(
+      this.config.get<string>('RATE_LIMIT_MAX_BUCKETS') ?? 10000,
+    );
+  }
+
+  /** Spends one token of the given kind, counting a rejection in metrics. */
+  take(kind: RateLimitKind, client: ApiClientIdentity): RateLimitDecision {
+    const decision = toDecision(this.bucketFor(kind, client).tryTake());
+    if (!decision.allowed) {
+      this.metrics.rateLimitRejections.inc({ kind, client: client.id });
+    }
+    return decision;
+  }
+
+  /** Whether a token is available, without spending it. */
+  check(kind: RateLimitKind, client: ApiClientIdentity): RateLimitDecision {
+    return toDecision(this.bucketFor(kind, client).peek());
+  }
+
+  private bucketFor(
+    kind: RateLimitKind,
+    client: ApiClientIdentity,
+  ): TokenBucket {
+    const key = `${kind}:${client.bucketKey}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      this.evictIfFull();
+      const { limits } = client;
+      bucket =
+        kind === 'requests'
+          ? new TokenBucket(limits.requestBurst, limits.requestsPerMinute)
+          : new TokenBucket(limits.toolCallBurst, limits.toolCallsPerMinute);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Anonymous buckets are per IP, so the map can grow without bound. Full
+   * buckets carry no state and are dropped first, then the oldest entries.
+   */
+  private evictIfFull(): void {
+    if (this.buckets.size < this.maxBuckets) return;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull()) this.buckets.delete(key);
+    }
+    const excess = this.buckets.size - this.maxBuckets + 1;
+    if (excess <= 0) return;
+    const oldest = [...this.buckets.keys()].slice(0, excess);
+    for (const key of oldest) this.buckets.delete(key);
+  }
+}
+
+function toDecision(result: {
+  allowed: boolean;
+  retryAfterMs: number;
+}): RateLimitDecision {
+  return {
+    allowed: result.allowed,
+    retryAfterSeconds: result.allowed
+      ? 0
+      : Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+  };
+}
@@ -0,0 +1,21 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  it('allows a burst, then refills at the per-minute rate', () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 6, () => now);
+
+    expect(bucket.tryTake().allowed).toBe(true);
+    expect(bucket.tryTake().allowed).toBe(true);
+    expect(bucket.tryTake()).toEqual({ allowed: false, retryAfterMs: 10000 });
+
+    now = 4000;
+    expect(bucket.peek()).toEqual({ allowed: false, retryAfterMs: 6000 });
+    now = 10000;
+    expect(bucket.tryTake().allowed).toBe(true);
+    expect(bucket.isFull()).toBe(false);
+
+    now = 60000;
+    expect(bucket.isFull()).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills
+ * continuously at `ratePerMinute`. Time is injectable for tests.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly ratePerMinute: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = this.now();
+  }
+
+  /** Takes one token; otherwise returns how long until one is available. */
+  tryTake(): { allowed: boolean; retryAfterMs: number } {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: this.msUntilToken() };
+  }
+
+  /** Like tryTake, without taking. */
+  peek(): { allowed: boolean; retryAfterMs: number } {
+    this.refill();
+    return this.tokens >= 1
+      ? { allowed: true, retryAfterMs: 0 }
+      : { allowed: false, retryAfterMs: this.msUntilToken() };
+  }
+
+  /** True once the bucket has refilled completely; such buckets can be dropped. */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.updatedAt;
+    this.updatedAt = now;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.ratePerMinute) / 60_000,
+    );
+  }
+
+  private msUntilToken(): number {
+    if (this.ratePerMinute <= 0) return Number.POSITIVE_INFINITY;
+    return Math.ceil(((1 - this.tokens) * 60_000) / this.ratePerMinute);
+  }
+}
@@ -1,9 +1,18 @@
 import { Module } from '@nestjs/common';
+import { APP_PIPE } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
 import { HttpModule } from '@nestjs/axios';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { ArticlesModule } from './articles/articles.module';
+import { EscalationsModule } from './escalations/escalations.module';
+import { FeedbackModule } from './feedback/feedback.module';
 import { ChatModule } from './chat/chat.module';
+import { ConversationsModule } from './conversations/conversations.module';
+import { HealthModule } from './health/health.module';
+import { ObservabilityModule } from './observability/observability.module';
+import { RedactionModule } from './redaction/redaction.module';
+import { createValidationPipe } from './common/validation.pipe';
 
 @Module({
   imports: [
@@ -12,8 +21,18 @@ import { ChatModule } from './chat/chat.module';
     }),
     HttpModule,
     ChatModule,
+    ConversationsModule,
+    HealthModule,
+    ArticlesModule,
+    EscalationsModule,
+    FeedbackModule,
+    ObservabilityModule,
+    RedactionModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,27 @@
+export const ARTICLE_STATUSES = ['draft', 'published'] as const;
+export type ArticleStatus = (typeof ARTICLE_STATUSES)[number];
+
+/** The editable fields of an article; every save snapshots them as a version. */
+export interface ArticleContent {
+  title: string;
+  /** Markdown; "## " sections become separate knowledge-base passages. */
+  body: string;
+  tags: string[];
+  locale: string;
+  status: ArticleStatus;
+}
+
+export interface ArticleVersion extends ArticleContent {
+  version: number;
+  savedAt: string;
+}
+
+export interface Article extends ArticleContent {
+  /** Slug, returned to chat clients as a source id. */
+  id: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Every saved version, oldest first; the last entry matches the article. */
+  history: ArticleVersion[];
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminKeyGuard } from '../common/admin-key.guard';
+import { ArticlesService } from './articles.service';
+import {
+  CreateArticleDto,
+  ImportArticlesDto,
+  ListArticlesQueryDto,
+  RollbackArticleDto,
+  UpdateArticleDto,
+} from './dto/article.dto';
+
+@Controller('api/admin/articles')
+@UseGuards(AdminKeyGuard)
+export class ArticlesController {
+  constructor(private readonly articles: ArticlesService) {}
+
+  @Get()
+  async list(@Query() query: ListArticlesQueryDto) {
+    return this.articles.list(query);
+  }
+
+  @Get('export')
+  async export() {
+    return this.articles.export();
+  }
+
+  @Post('import')
+  @HttpCode(200)
+  async import(@Body() body: ImportArticlesDto) {
+    return this.articles.import(body);
+  }
+
+  @Post()
+  async create(@Body() body: CreateArticleDto) {
+    return this.articles.create(body);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.articles.get(id);
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() body: UpdateArticleDto) {
+    return this.articles.update(id, body);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async delete(@Param('id') id: string) {
+    await this.articles.delete(id);
+  }
+
+  @Get(':id/versions')
+  async versions(@Param('id') id: string) {
+    return this.articles.versions(id);
+  }
+
+  @Post(':id/rollback')
+  @HttpCode(200)
+  async rollback(@Param('id') id: string, @Body() body: RollbackArticleDto) {
+    return this.articles.rollback(id, body.version);
+  }
+}
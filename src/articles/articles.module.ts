@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { KnowledgeBaseModule } from '../knowledge-base/knowledge-base.module';
+import { AdminKeyGuard } from '../common/admin-key.guard';
+import { ArticlesController } from './articles.controller';
+import { ArticlesService } from './articles.service';
+import { IArticleRepository } from './repositories/article-repository.interface';
+import { InMemoryArticleRepository } from './repositories/in-memory-article.repository';
+import { FileArticleRepository } from './repositories/file-article.repository';
+
+@Module({
+  imports: [ConfigModule, KnowledgeBaseModule],
+  controllers: [ArticlesController],
+  providers: [
+    ArticlesService,
+    AdminKeyGuard,
+    InMemoryArticleRepository,
+    FileArticleRepository,
+    {
+      provide: 'IArticleRepository',
+      useFactory: (
+        config: ConfigService,
+        memoryRepository: InMemoryArticleRepository,
+        fileRepository: FileArticleRepository,
+      ): IArticleRepository => {
+        const store = config.get<string>('ARTICLE_STORE') ?? 'memory';
+        if (store === 'file') {
+          return fileRepository;
+        }
+        return memoryRepository;
+      },
+      inject: [ConfigService, InMemoryArticleRepository, FileArticleRepository],
+    },
+  ],
+})
+export class ArticlesModule {}
@@ -0,0 +1,103 @@
+import { ConfigService } from '@nestjs/config';
+import { KnowledgeBaseService } from '../knowledge-base/knowledge-base.service';
+import { ArticlesService } from './articles.service';
+import { InMemoryArticleRepository } from './repositories/in-memory-article.repository';
+
+describe('ArticlesService', () => {
+  let articles: ArticlesService;
+  let knowledgeBase: KnowledgeBaseService;
+
+  beforeEach(async () => {
+    knowledgeBase = new KnowledgeBaseService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+    await knowledgeBase.onModuleInit();
+    articles = new ArticlesService(
+      new InMemoryArticleRepository(),
+      knowledgeBase,
+    );
+    await articles.onModuleInit();
+  });
+
+  const sourcesFor = (question: string) =>
+    knowledgeBase.search(question).map((r) => r.passage.documentId);
+
+  const pets = {
+    title: 'Travelling with pets',
+    body: 'Small pets may travel in the cabin in an approved carrier.',
+  };
+
+  it('indexes published articles immediately and ignores drafts', async () => {
+    const draft = await articles.create(pets);
+    expect(draft).toMatchObject({
+      id: 'travelling-with-pets',
+      status: 'draft',
+      version: 1,
+    });
+    expect(sourcesFor('can my pet come in the cabin')).not.toContain(draft.id);
+
+    await articles.update(draft.id, { status: 'published' });
+    expect(sourcesFor('can my pet come in the cabin')[0]).toBe(draft.id);
+
+    await articles.delete(draft.id);
+    expect(sourcesFor('can my pet come in the cabin')).not.toContain(draft.id);
+  });
+
+  it("indexes articles under their locale's language", async () => {
+    const { id } = await articles.create({
+      title: 'Viajar con mascotas',
+      body: 'Las mascotas pequeñas pueden viajar en cabina en un transportín.',
+      locale: 'es-ES',
+      status: 'published',
+    });
+
+    const spanish = knowledgeBase
+      .search('¿Puede mi mascota viajar en cabina?', 3, 'es')
+      .map((r) => r.passage.documentId);
+
+    expect(spanish).toEqual([id]);
+    expect(sourcesFor('can my pet travel in the cabin')).not.toContain(id);
+  });
+
+  it('keeps a version per change and rolls back as a new version', async () => {
+    const { id } = await articles.create({ ...pets, status: 'published' });
+    await articles.update(id, { body: 'Pets are not allowed in the cabin.' });
+    await articles.update(id, { body: 'Pets are not allowed in the cabin.' });
+
+    const restored = await articles.rollback(id, 1);
+
+    expect(restored).toMatchObject({ version: 3, body: pets.body });
+    expect((await articles.versions(id)).map((v) => v.version)).toEqual([
+      1, 2, 3,
+    ]);
+    await expect(articles.rollback(id, 9)).rejects.toThrow('no version 9');
+  });
+
+  it('round-trips export and import, deleting missing articles in replace mode', async () => {
+    await articles.create({ ...pets, id: 'pets' });
+    await articles.create({ title: 'Seats', body: 'Seat selection is paid.' });
+    const { articles: exported } = await articles.export();
+
+    const result = await articles.import({
+      mode: 'replace',
+      articles: [
+        { ...exported[0], body: 'Pets travel in the hold.' },
+        { id: 'wifi', title: 'Wi-Fi', body: 'Wi-Fi is free on long-haul.' },
+      ],
+    });
+
+    expect(result).toEqual({
+      created: 1,
+      updated: 1,
+      unchanged: 0,
+      deleted: 1,
+    });
+    expect((await articles.list()).map((a) => a.id)).toEqual(['pets', 'wifi']);
+    expect((await articles.get('pets')).version).toBe(2);
+  });
+
+  it('rejects a duplicate id', async () => {
+    await articles.create(pets);
+    await expect(articles.create(pets)).rejects.toThrow('already exists');
+  });
+});
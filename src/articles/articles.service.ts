@@ -0,0 +1,247 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { KnowledgeBaseService } from '../knowledge-base/knowledge-base.service';
+import { Article, ArticleContent, ArticleVersion } from './article.types';
+import {
+  CreateArticleDto,
+  ImportArticlesDto,
+  ListArticlesQueryDto,
+  UpdateArticleDto,
+} from './dto/article.dto';
+import { IArticleRepository } from './repositories/article-repository.interface';
+
+/** Knowledge-base source name for admin-managed articles. */
+const KB_SOURCE = 'articles';
+
+export type ArticleSummary = Omit<Article, 'history'>;
+export type ExportedArticle = ArticleContent & { id: string };
+
+function withoutHistory(article: Article): ArticleSummary {
+  const summary: Partial<Article> = { ...article };
+  delete summary.history;
+  return summary as ArticleSummary;
+}
+
+function contentOf(article: ArticleContent): ArticleContent {
+  const { title, body, tags, locale, status } = article;
+  return { title, body, tags, locale, status };
+}
+
+function sameContent(a: ArticleContent, b: ArticleContent): boolean {
+  return JSON.stringify(contentOf(a)) === JSON.stringify(contentOf(b));
+}
+
+/** "Refunds & vouchers" -> "refunds-vouchers". */
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+    .replace(/-+$/, '');
+  return slug || randomUUID();
+}
+
+/**
+ * Help-center articles managed through the admin API. Every save appends a
+ * version; published articles are pushed to the knowledge base on each change
+ * so the assistant answers from them immediately.
+ */
+@Injectable()
+export class ArticlesService implements OnModuleInit {
+  constructor(
+    @Inject('IArticleRepository')
+    private readonly repository: IArticleRepository,
+    private readonly knowledgeBase: KnowledgeBaseService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.syncKnowledgeBase();
+  }
+
+  async list(filter: ListArticlesQueryDto = {}): Promise<ArticleSummary[]> {
+    const articles = await this.repository.findAll();
+    return articles
+      .filter(
+        (a) =>
+          (!filter.status || a.status === filter.status) &&
+          (!filter.locale || a.locale === filter.locale) &&
+          (!filter.tag || a.tags.includes(filter.tag)),
+      )
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(withoutHistory);
+  }
+
+  async get(id: string): Promise<ArticleSummary> {
+    return withoutHistory(await this.find(id));
+  }
+
+  async versions(id: string): Promise<ArticleVersion[]> {
+    return (await this.find(id)).history;
+  }
+
+  async create(dto: CreateArticleDto): Promise<ArticleSummary> {
+    const id = dto.id ?? slugify(dto.title);
+    if (await this.repository.findById(id)) {
+      throw new ConflictException(`Article ${id} already exists.`);
+    }
+    const article = this.newArticle(id, {
+      title: dto.title,
+      body: dto.body,
+      tags: dto.tags ?? [],
+      locale: dto.locale ?? 'en',
+      status: dto.status ?? 'draft',
+    });
+    await this.repository.save(article);
+    await this.syncKnowledgeBase();
+    return withoutHistory(article);
+  }
+
+  /** Saves a new version with the given fields changed; no-op when nothing changes. */
+  async update(id: string, dto: UpdateArticleDto): Promise<ArticleSummary> {
+    const article = await this.find(id);
+    const content = { ...contentOf(article), ...dto };
+    if (!sameContent(article, content)) {
+      await this.saveVersion(article, content);
+    }
+    return withoutHistory(article);
+  }
+
+  /** Restores an earlier version's content as a new version (history is kept). */
+  async rollback(id: string, version: number): Promise<ArticleSummary> {
+    const article = await this.find(id);
+    const target = article.history.find((v) => v.version === version);
+    if (!target) {
+      throw new NotFoundException(`Article ${id} has no version ${version}.`);
+    }
+    if (!sameContent(article, target)) {
+      await this.saveVersion(article, contentOf(target));
+    }
+    return withoutHistory(article);
+  }
+
+  async delete(id: string): Promise<void> {
+    const deleted = await this.repository.delete(id);
+    if (!deleted) {
+      throw new NotFoundException(`Article ${id} not found.`);
+    }
+    await this.syncKnowledgeBase();
+  }
+
+  async export(): Promise<{
+    exportedAt: string;
+    articles: ExportedArticle[];
+  }> {
+    const articles = await this.repository.findAll();
+    return {
+      exportedAt: new Date().toISOString(),
+      articles: articles
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map((a) => ({ id: a.id, ...contentOf(a) })),
+    };
+  }
+
+  /**
+   * Upserts every article in the payload (changed ones get a new version). In
+   * "replace" mode, articles missing from the payload are deleted.
+   */
+  async import(dto: ImportArticlesDto): Promise<{
+    created: number;
+    updated: number;
+    unchanged: number;
+    deleted: number;
+  }> {
+    const counts = { created: 0, updated: 0, unchanged: 0, deleted: 0 };
+    const existing = new Map(
+      (await this.repository.findAll()).map((a) => [a.id, a]),
+    );
+
+    for (const item of dto.articles) {
+      const content: ArticleContent = {
+        title: item.title,
+        body: item.body,
+        tags: item.tags ?? [],
+        locale: item.locale ?? 'en',
+        status: item.status ?? 'draft',
+      };
+      const current = existing.get(item.id);
+      if (!current) {
+        await this.repository.save(this.newArticle(item.id, content));
+        counts.created++;
+      } else if (sameContent(current, content)) {
+        counts.unchanged++;
+      } else {
+        await this.saveVersion(current, content);
+        counts.updated++;
+      }
+    }
+
+    if (dto.mode === 'replace') {
+      const keep = new Set(dto.articles.map((a) => a.id));
+      for (const id of existing.keys()) {
+        if (!keep.has(id) && (await this.repository.delete(id))) {
+          counts.deleted++;
+        }
+      }
+    }
+
+    await this.syncKnowledgeBase();
+    return counts;
+  }
+
+  private async find(id: string): Promise<Article> {
+    const article = await this.repository.findById(id);
+    if (!article) {
+      throw new NotFoundException(`Article ${id} not found.`);
+    }
+    return article;
+  }
+
+  private newArticle(id: string, content: ArticleContent): Article {
+    const now = new Date().toISOString();
+    return {
+      id,
+      ...content,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      history: [{ ...content, version: 1, savedAt: now }],
+    };
+  }
+
+  /** Mutates article in place to the new version, persists it and re-syncs. */
+  private async saveVersion(
+    article: Article,
+    content: ArticleContent,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const version = article.version + 1;
+    Object.assign(article, content, { version, updatedAt: now });
+    article.history.push({ ...content, version, savedAt: now });
+    await this.repository.save(article);
+    await this.syncKnowledgeBase();
+  }
+
+  private async syncKnowledgeBase(): Promise<void> {
+    const articles = await this.repository.findAll();
+    this.knowledgeBase.setDocuments(
+      articles
+        .filter((a) => a.status === 'published')
+        .map((a) => ({
+          id: a.id,
+          title: a.title,
+          content: a.body,
+          locale: a.locale,
+        })),
+      KB_SOURCE,
+    );
+  }
+}
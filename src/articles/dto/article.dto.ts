@@ -0,0 +1,127 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ARTICLE_STATUSES, ArticleStatus } from '../article.types';
+
+export const ARTICLE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+export const MAX_ARTICLE_BODY_CHARS = 20000;
+export const MAX_IMPORT_ARTICLES = 500;
+
+const ID_MESSAGE = 'id must be a lowercase slug (letters, digits, dashes)';
+
+/**
+ * Fields optional in every article payload. Required fields are declared per
+ * subclass: class-validator applies an inherited @IsOptional to overrides too.
+ */
+class ArticleMetadataDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @Matches(/^[a-z]{2}(-[A-Z]{2})?$/, {
+    message: 'locale must look like "en" or "en-US"',
+  })
+  locale?: string;
+
+  @IsOptional()
+  @IsIn(ARTICLE_STATUSES, {
+    message: `status must be one of: ${ARTICLE_STATUSES.join(', ')}`,
+  })
+  status?: ArticleStatus;
+}
+
+export class CreateArticleDto extends ArticleMetadataDto {
+  // Slug; derived from the title when omitted
+  @IsOptional()
+  @Matches(ARTICLE_ID_PATTERN, { message: ID_MESSAGE })
+  id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARTICLE_BODY_CHARS)
+  body: string;
+}
+
+export class UpdateArticleDto extends ArticleMetadataDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARTICLE_BODY_CHARS)
+  body?: string;
+}
+
+/** An article as exported; the id is required so re-imports update in place. */
+export class ImportedArticleDto extends ArticleMetadataDto {
+  @Matches(ARTICLE_ID_PATTERN, { message: ID_MESSAGE })
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_ARTICLE_BODY_CHARS)
+  body: string;
+}
+
+export class ImportArticlesDto {
+  @IsArray()
+  @ArrayMaxSize(MAX_IMPORT_ARTICLES)
+  @ValidateNested({ each: true })
+  @Type(() => ImportedArticleDto)
+  articles: ImportedArticleDto[];
+
+  // "merge" upserts; "replace" also deletes articles missing from the import
+  @IsOptional()
+  @IsIn(['merge', 'replace'])
+  mode?: 'merge' | 'replace';
+}
+
+export class RollbackArticleDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  version: number;
+}
+
+export class ListArticlesQueryDto {
+  @IsOptional()
+  @IsIn(ARTICLE_STATUSES)
+  status?: ArticleStatus;
+
+  @IsOptional()
+  @IsString()
+  locale?: string;
+
+  @IsOptional()
+  @IsString()
+  tag?: string;
+}
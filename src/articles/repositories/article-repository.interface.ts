@@ -0,0 +1,10 @@
+import { Article } from '../article.types';
+
+export interface IArticleRepository {
+  findAll(): Promise<Article[]>;
+  findById(id: string): Promise<Article | null>;
+  /** Inserts or replaces the whole article, history included. */
+  save(article: Article): Promise<void>;
+  /** Returns false when there was nothing to delete. */
+  delete(id: string): Promise<boolean>;
+}
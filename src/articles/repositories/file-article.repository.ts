@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Article } from '../article.types';
+import { IArticleRepository } from './article-repository.interface';
+
+const SAFE_ID = /^[a-z0-9-]+$/;
+
+/**
+ * One JSON file per article (history included) under ARTICLE_STORE_DIR, written
+ * through a temp file and renamed into place like FileConversationRepository.
+ */
+@Injectable()
+export class FileArticleRepository implements IArticleRepository {
+  private readonly logger = new Logger(FileArticleRepository.name);
+  private readonly dir: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.dir = this.config.get<string>('ARTICLE_STORE_DIR') ?? 'data/articles';
+  }
+
+  async findAll(): Promise<Article[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+    const articles = await Promise.all(
+      files
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => this.findById(f.slice(0, -'.json'.length))),
+    );
+    return articles.filter((a): a is Article => a !== null);
+  }
+
+  async findById(id: string): Promise<Article | null> {
+    if (!SAFE_ID.test(id)) return null;
+    try {
+      const json = await readFile(this.pathFor(id), 'utf8');
+      return JSON.parse(json) as Article;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(`Failed to read article ${id}`, e as Error);
+      }
+      return null;
+    }
+  }
+
+  async save(article: Article): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = this.pathFor(article.id);
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(article, null, 2), 'utf8');
+    await rename(tmp, path);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!SAFE_ID.test(id)) return false;
+    try {
+      await rm(this.pathFor(id));
+      return true;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw e;
+    }
+  }
+
+  private pathFor(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { Article } from '../article.types';
+import { IArticleRepository } from './article-repository.interface';
+
+/** Process-local store; articles are lost on restart. Default for development. */
+@Injectable()
+export class InMemoryArticleRepository implements IArticleRepository {
+  private readonly articles = new Map<string, Article>();
+
+  async findAll(): Promise<Article[]> {
+    return [...this.articles.values()].map((a) => structuredClone(a));
+  }
+
+  async findById(id: string): Promise<Article | null> {
+    const article = this.articles.get(id);
+    return article ? structuredClone(article) : null;
+  }
+
+  async save(article: Article): Promise<void> {
+    this.articles.set(article.id, structuredClone(article));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.articles.delete(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Booking, BookingVerification } from './booking.types';
+
+/** Source of bookings for booking_lookup (fixture store today, an OTA API later). */
+export interface IBookingProvider {
+  /**
+   * Returns the booking only when the reference exists and the verification
+   * matches (a passenger surname or the booking email). A wrong surname and an
+   * unknown reference both return null so lookups cannot probe references.
+   */
+  findBooking(
+    reference: string,
+    verification: BookingVerification,
+  ): Promise<Booking | null>;
+}
@@ -0,0 +1,35 @@
+export type BookingStatus = 'confirmed' | 'ticketed' | 'cancelled' | 'pending';
+
+export interface BookingPassenger {
+  firstName: string;
+  lastName: string;
+}
+
+export interface BookingLeg {
+  /** IATA flight number, e.g. IB3166; usable with flight_status. */
+  flightNumber: string;
+  /** IATA airport codes. */
+  origin: string;
+  destination: string;
+  /** ISO datetimes with offset. */
+  departureTime: string;
+  arrivalTime: string;
+  cabin?: string;
+}
+
+export interface Booking {
+  /** Booking reference (PNR) as printed on the confirmation email. */
+  reference: string;
+  status: BookingStatus;
+  /** e.g. "Basic", "Standard", "Flex". */
+  fareType: string;
+  email: string;
+  passengers: BookingPassenger[];
+  legs: BookingLeg[];
+}
+
+/** What the customer must supply besides the reference: surname or email. */
+export interface BookingVerification {
+  surname?: string;
+  email?: string;
+}
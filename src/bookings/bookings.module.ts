@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { IBookingProvider } from './booking-provider.interface';
+import { FixtureBookingProvider } from './fixture-booking.provider';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    FixtureBookingProvider,
+    {
+      provide: 'IBookingProvider',
+      useFactory: (
+        config: ConfigService,
+        fixtureProvider: FixtureBookingProvider,
+      ): IBookingProvider => {
+        const provider = config.get<string>('BOOKING_PROVIDER') ?? 'fixture';
+        if (provider !== 'fixture') {
+          throw new Error(`Unknown BOOKING_PROVIDER "${provider}"`);
+        }
+        return fixtureProvider;
+      },
+      inject: [ConfigService, FixtureBookingProvider],
+    },
+  ],
+  exports: ['IBookingProvider'],
+})
+export class BookingsModule {}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { Booking, BookingVerification } from './booking.types';
+import { IBookingProvider } from './booking-provider.interface';
+
+/** "García" and "garcia" match. */
+function normalize(value: string | undefined): string {
+  return (value ?? '')
+    .trim()
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Bookings from a local JSON file (BOOKING_FIXTURES_FILE), for demos and tests.
+ * The file is read on first use and kept in memory.
+ */
+@Injectable()
+export class FixtureBookingProvider implements IBookingProvider {
+  private readonly logger = new Logger(FixtureBookingProvider.name);
+  private readonly file: string;
+  private bookings: Promise<Map<string, Booking>> | null = null;
+
+  constructor(private readonly config: ConfigService) {
+    this.file =
+      this.config.get<string>('BOOKING_FIXTURES_FILE') ??
+      'fixtures/bookings.json';
+  }
+
+  async findBooking(
+    reference: string,
+    verification: BookingVerification,
+  ): Promise<Booking | null> {
+    const bookings = await this.load();
+    const booking = bookings.get(reference.trim().toUpperCase());
+    if (!booking) return null;
+
+    const surname = normalize(verification.surname);
+    const email = normalize(verification.email);
+    const verified =
+      (surname !== '' &&
+        booking.passengers.some((p) => normalize(p.lastName) === surname)) ||
+      (email !== '' && normalize(booking.email) === email);
+    return verified ? structuredClone(booking) : null;
+  }
+
+  private load(): Promise<Map<string, Booking>> {
+    this.bookings ??= readFile(this.file, 'utf8')
+      .then((json) => {
+        const list = JSON.parse(json) as Booking[];
+        return new Map(list.map((b) => [b.reference.toUpperCase(), b]));
+      })
+      .catch((e) => {
+        this.logger.error(
+          `Failed to load bookings from ${this.file}`,
+          e as Error,
+        );
+        return new Map<string, Booking>();
+      });
+    return this.bookings;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Key/value store behind CacheService. The in-memory store is the default; a
+ * shared store (e.g. Redis) only needs to implement these three methods and be
+ * bound to the 'ICacheStore' token. Values must be JSON-serialisable.
+ */
+export interface ICacheStore {
+  /** Resolves undefined on a miss or an expired entry. */
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { ICacheStore } from './cache-store.interface';
+import { InMemoryCacheStore } from './in-memory-cache.store';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    CacheService,
+    InMemoryCacheStore,
+    {
+      provide: 'ICacheStore',
+      useFactory: (memoryStore: InMemoryCacheStore): ICacheStore => memoryStore,
+      inject: [InMemoryCacheStore],
+    },
+  ],
+  exports: [CacheService],
+})
+export class CacheModule {}
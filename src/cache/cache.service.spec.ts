@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { InMemoryCacheStore } from './in-memory-cache.store';
+
+function createCache(env: Record<string, string> = {}) {
+  const config = { get: (key: string) => env[key] } as ConfigService;
+  return new CacheService(new InMemoryCacheStore(config));
+}
+
+describe('CacheService', () => {
+  it('serves repeated lookups from the cache until the TTL expires', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const cache = createCache();
+    const loader = jest.fn().mockResolvedValue('sunny');
+
+    expect(await cache.wrap('k', 1000, loader)).toBe('sunny');
+    expect(await cache.wrap('k', 1000, loader)).toBe('sunny');
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(1001);
+    await cache.wrap('k', 1000, loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it('shares one in-flight call between concurrent identical requests', async () => {
+    const cache = createCache();
+    let resolve: (value: string) => void = () => undefined;
+    const result = new Promise<string>((r) => (resolve = r));
+    const loader = jest.fn(() => result);
+
+    const first = cache.wrap('flight:UA2402', 1000, loader);
+    const second = cache.wrap('flight:UA2402', 1000, loader);
+    resolve('on time');
+
+    expect(await Promise.all([first, second])).toEqual(['on time', 'on time']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failures or values rejected by shouldCache', async () => {
+    const cache = createCache();
+    const failing = jest.fn().mockRejectedValue(new Error('quota'));
+    await expect(cache.wrap('a', 1000, failing)).rejects.toThrow('quota');
+    await expect(cache.wrap('a', 1000, failing)).rejects.toThrow('quota');
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    const apiError = jest.fn().mockResolvedValue({ error: 'rate limited' });
+    const options = { shouldCache: (v: { error?: string }) => !v.error };
+    await cache.wrap('b', 1000, apiError, options);
+    await cache.wrap('b', 1000, apiError, options);
+    expect(apiError).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches null results such as unknown cities', async () => {
+    const cache = createCache();
+    const loader = jest.fn().mockResolvedValue(null);
+    await cache.wrap('geo:atlantis', 1000, loader);
+    expect(await cache.wrap('geo:atlantis', 1000, loader)).toBeNull();
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the oldest entry once CACHE_MAX_ENTRIES is reached', async () => {
+    const cache = createCache({ CACHE_MAX_ENTRIES: '2' });
+    const loader = jest.fn(async () => 'v');
+    await cache.wrap('1', 1000, loader);
+    await cache.wrap('2', 1000, loader);
+    await cache.wrap('3', 1000, loader);
+    await cache.wrap('1', 1000, loader);
+    expect(loader).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,74 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ICacheStore } from './cache-store.interface';
+
+export interface WrapOptions<T> {
+  /** Return false to skip caching a value (e.g. an API error payload). */
+  shouldCache?: (value: T) => boolean;
+}
+
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(@Inject('ICacheStore') private readonly store: ICacheStore) {}
+
+  /**
+   * Returns the cached value for key, or runs loader and caches its result for
+   * ttlMs. Concurrent calls for the same key share one loader call. Rejections
+   * are never cached, and a failing store degrades to calling loader directly.
+   */
+  async wrap<T>(
+    key: string,
+    ttlMs: number,
+    loader: () => Promise<T>,
+    options: WrapOptions<T> = {},
+  ): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const run = (async () => {
+      const cached = await this.store.get<T>(key).catch((e) => {
+        this.logger.warn(
+          `Cache read failed for ${key}: ${(e as Error).message}`,
+        );
+        return undefined;
+      });
+      if (cached !== undefined) return cached;
+
+      const value = await loader();
+      if (ttlMs > 0 && (options.shouldCache?.(value) ?? true)) {
+        await this.store.set(key, value, ttlMs).catch((e) => {
+          this.logger.warn(
+            `Cache write failed for ${key}: ${(e as Error).message}`,
+          );
+        });
+      }
+      return value;
+    })();
+
+    this.inFlight.set(key, run);
+    try {
+      return await run;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /** The cached value, or undefined on a miss or when the store fails. */
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.store.get<T>(key).catch((e) => {
+      this.logger.warn(`Cache read failed for ${key}: ${(e as Error).message}`);
+      return undefined;
+    });
+  }
+
+  /** Stores value for ttlMs; a failing store is logged, not thrown. */
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.store.set(key, value, ttlMs).catch((e) => {
+      this.logger.warn(
+        `Cache write failed for ${key}: ${(e as Error).message}`,
+      );
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ICacheStore } from './cache-store.interface';
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Process-local cache. Bounded by CACHE_MAX_ENTRIES; when full, the entry
+ * inserted longest ago is evicted (Map preserves insertion order).
+ */
+@Injectable()
+export class InMemoryCacheStore implements ICacheStore {
+  private readonly entries = new Map<string, Entry>();
+  private readonly maxEntries: number;
+
+  constructor(private readonly config: ConfigService) {
+    this.maxEntries = Number(
+      this.config.get<string>('CACHE_MAX_ENTRIES') ?? 5000,
+    );
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,24 @@
+import type { ToolCallRecord } from './tools/tool-action.types';
+import type { EscalationRef } from '../escalations/escalation.types';
+import type { ChatTurnMeta } from './chat-turn-meta';
+
+/** Events emitted by POST /api/chat/stream, one SSE event per item. */
+export type ChatStreamEvent =
+  | { type: 'status'; message: string }
+  | { type: 'token'; text: string }
+  /** The reply broke a guardrail after some tokens were streamed: show text instead of them. */
+  | { type: 'replace'; text: string }
+  | {
+      type: 'done';
+      reply: string;
+      /** Id to send with POST /api/chat/feedback. */
+      replyId: string;
+      /** Knowledge-base document ids used for the reply. */
+      sources?: string[];
+      /** Set when the turn was handed off to a human agent. */
+      escalation?: EscalationRef;
+      /** Provider, usage and latency of the turn's LLM calls. */
+      meta?: ChatTurnMeta;
+      debug?: { toolTrace: ToolCallRecord[] };
+    }
+  | { type: 'error'; message: string };
@@ -0,0 +1,58 @@
+import type { LlmCallMeta } from './llm/llm-client.interface';
+
+/**
+ * One LLM call of a turn: phase1 picks tools, phase2 writes the reply, and
+ * guardrail rewrites a reply that broke a guardrail.
+ */
+export interface LlmCallRecord extends LlmCallMeta {
+  phase: 'phase1' | 'phase2' | 'guardrail';
+}
+
+/** The `meta` block of a chat response, for cost tracking. */
+export interface ChatTurnMeta {
+  /** Summed over calls that reported usage; see usageComplete. */
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  /** False when a provider did not report usage for some call. */
+  usageComplete: boolean;
+  /** Time spent waiting on LLMs; tool time is not included. */
+  llmLatencyMs: number;
+  /** Provider that wrote the final reply. */
+  provider: string;
+  model: string;
+  finishReason?: string;
+  calls: LlmCallRecord[];
+}
+
+/** Aggregates a turn's LLM calls; undefined when the turn made none. */
+export function summarizeLlmCalls(
+  calls: LlmCallRecord[],
+): ChatTurnMeta | undefined {
+  const last = calls[calls.length - 1];
+  if (!last) return undefined;
+
+  const promptTokens = sum(calls.map((c) => c.usage?.promptTokens ?? 0));
+  const completionTokens = sum(
+    calls.map((c) => c.usage?.completionTokens ?? 0),
+  );
+  return {
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    },
+    usageComplete: calls.every((c) => c.usage !== undefined),
+    llmLatencyMs: sum(calls.map((c) => c.latencyMs)),
+    provider: last.provider,
+    model: last.model,
+    ...(last.finishReason ? { finishReason: last.finishReason } : {}),
+    calls,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
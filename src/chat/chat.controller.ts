@@ -1,14 +1,77 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Body, Controller, Logger, Post, Res, UseGuards } from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import type { OutgoingHttpHeaders } from 'http';
 import { ChatService } from './chat.service';
 import { ChatRequestDto } from './dto/chat-request.dto';
+import { ApiKeyGuard } from '../api-clients/api-key.guard';
+import { ApiClient } from '../api-clients/api-client.decorator';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import { TenantGuard } from '../tenants/tenant.guard';
+import { Tenant } from '../tenants/tenant.decorator';
+import type { TenantConfig } from '../tenants/tenant.types';
 
 @Controller('api/chat')
+@UseGuards(ApiKeyGuard, TenantGuard)
 export class ChatController {
+  private readonly logger = new Logger(ChatController.name);
+
   constructor(private readonly chatService: ChatService) {}
 
   @Post()
-  async chat(@Body() body: ChatRequestDto) {
-    return this.chatService.handleChat(body);
+  async chat(
+    @Body() body: ChatRequestDto,
+    @ApiClient() client: ApiClientIdentity,
+    @Tenant() tenant: TenantConfig,
+  ) {
+    return this.chatService.handleChat(body, { client, tenant });
   }
-}
 
+  /**
+   * Same conversation flow as POST /api/chat, streamed as Server-Sent Events:
+   * `status` while tools run, `token` for reply text, then a final `done` with
+   * the full reply (or `error`).
+   */
+  @Post('stream')
+  async stream(
+    @Body() body: ChatRequestDto,
+    @ApiClient() client: ApiClientIdentity,
+    @Tenant() tenant: TenantConfig,
+    @Res() res: FastifyReply,
+  ) {
+    // Headers set by Fastify hooks (e.g. CORS) live on the reply, not the raw
+    // response, so carry them over before taking the socket.
+    res.raw.writeHead(200, {
+      ...(res.getHeaders() as OutgoingHttpHeaders),
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    let closed = false;
+    res.raw.on('close', () => (closed = true));
+
+    try {
+      for await (const event of this.chatService.streamChat(body, {
+        client,
+        tenant,
+      })) {
+        if (closed) break;
+        res.raw.write(
+          `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Chat stream failed', error as Error);
+      if (!closed) {
+        res.raw.write(
+          `event: error\ndata: ${JSON.stringify({
+            type: 'error',
+            message: 'Failed to generate a reply.',
+          })}\n\n`,
+        );
+      }
+    }
+    res.raw.end();
+  }
+}
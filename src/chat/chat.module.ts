@@ -1,45 +1,70 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConfigModule } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { AirportsModule } from '../airports/airports.module';
+import { BookingsModule } from '../bookings/bookings.module';
+import { EscalationsModule } from '../escalations/escalations.module';
+import { FeedbackModule } from '../feedback/feedback.module';
+import { ObservabilityModule } from '../observability/observability.module';
+import { ApiClientsModule } from '../api-clients/api-clients.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { RedactionModule } from '../redaction/redaction.module';
+import { CacheModule } from '../cache/cache.module';
+import { KnowledgeBaseModule } from '../knowledge-base/knowledge-base.module';
 import { ChatController } from './chat.controller';
 import { ChatService } from './chat.service';
-import { ILlmClient } from './llm/llm-client.interface';
 import { GeminiLlmClient } from './llm/gemini-llm.client';
 import { OpenAiLlmClient } from './llm/openai-llm.client';
 import { MockLlmClient } from './llm/mock-llm.client';
 import { FreeflowLlmClient } from './llm/freeflow-llm.client';
 import { MultiLlmClient } from './llm/multi-llm.client';
+import { LlmClientFactory } from './llm/llm-client.factory';
 import { AviationstackService } from './integrations/aviationstack.service';
 import { OpenMeteoService } from './integrations/open-meteo.service';
+import { IntegrationHttpClient } from './integrations/integration-http.client';
+import { ReplyGuardrailsService } from './guardrails/reply-guardrails.service';
+import { ToolRegistry } from './tools/tool-registry.service';
+import { FlightStatusTool } from './tools/flight-status.tool';
+import { RouteWeatherTool } from './tools/route-weather.tool';
+import { WeatherAtFlightArrivalTool } from './tools/weather-at-flight-arrival.tool';
+import { BookingLookupTool } from './tools/booking-lookup.tool';
 
 @Module({
-  imports: [ConfigModule, HttpModule],
+  imports: [
+    ConfigModule,
+    HttpModule,
+    DiscoveryModule,
+    CacheModule,
+    AirportsModule,
+    KnowledgeBaseModule,
+    BookingsModule,
+    EscalationsModule,
+    FeedbackModule,
+    ObservabilityModule,
+    ApiClientsModule,
+    TenantsModule,
+    RedactionModule,
+  ],
   controllers: [ChatController],
   providers: [
     ChatService,
+    ReplyGuardrailsService,
+    IntegrationHttpClient,
     AviationstackService,
     OpenMeteoService,
+    ToolRegistry,
+    FlightStatusTool,
+    RouteWeatherTool,
+    WeatherAtFlightArrivalTool,
+    BookingLookupTool,
     GeminiLlmClient,
     OpenAiLlmClient,
     MockLlmClient,
     FreeflowLlmClient,
     MultiLlmClient,
-    {
-      provide: 'ILlmClient',
-      useFactory: (
-        config: ConfigService,
-        multiClient: MultiLlmClient,
-        mockClient: MockLlmClient,
-      ): ILlmClient => {
-        const provider = config.get<string>('LLM_PROVIDER') ?? 'gemini';
-        if (provider === 'mock') {
-          return mockClient;
-        }
-        return multiClient;
-      },
-      inject: [ConfigService, MultiLlmClient, MockLlmClient],
-    },
+    LlmClientFactory,
   ],
+  exports: [ChatService, MultiLlmClient],
 })
 export class ChatModule {}
-
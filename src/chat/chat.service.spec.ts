@@ -0,0 +1,524 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { ChatService } from './chat.service';
+import { LlmClientFactory } from './llm/llm-client.factory';
+import { ChatMessageDto, ClientChatMessageDto } from './dto/chat-request.dto';
+import {
+  ILlmClient,
+  LlmResult,
+  LlmToolCall,
+  LlmToolDefinition,
+  LlmToolReply,
+} from './llm/llm-client.interface';
+import { ChatTool } from './tools/chat-tool.interface';
+import { RegisterChatTool } from './tools/chat-tool.decorator';
+import { ToolRegistry } from './tools/tool-registry.service';
+import { KnowledgeBaseService } from '../knowledge-base/knowledge-base.service';
+import { EscalationsService } from '../escalations/escalations.service';
+import { InMemoryEscalationRepository } from '../escalations/repositories/in-memory-escalation.repository';
+import { MetricsService } from '../observability/metrics.service';
+import { TracingService } from '../observability/tracing.service';
+import { RateLimiterService } from '../api-clients/rate-limiter.service';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import { FeedbackService } from '../feedback/feedback.service';
+import { InMemoryFeedbackRepository } from '../feedback/repositories/in-memory-feedback.repository';
+import { CacheService } from '../cache/cache.service';
+import { InMemoryCacheStore } from '../cache/in-memory-cache.store';
+import { RedactionService } from '../redaction/redaction.service';
+import { ReplyGuardrailsService } from './guardrails/reply-guardrails.service';
+import type { ChatStreamEvent } from './chat-stream.types';
+
+@Injectable()
+@RegisterChatTool()
+class FakeFlightTool implements ChatTool<{ flight_number: string }> {
+  readonly name = 'flight_status';
+  readonly description = 'Flight status.';
+  readonly parameters = { type: 'object', properties: {} };
+  readonly started: string[] = [];
+
+  async execute(params: { flight_number: string }) {
+    this.started.push(params.flight_number);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return { summary: `${params.flight_number} is on time.` };
+  }
+}
+
+/** Prompt-based client that replays canned replies in order, 10 + 5 tokens each. */
+class ScriptedLlmClient implements ILlmClient {
+  readonly calls: ChatMessageDto[][] = [];
+
+  constructor(private readonly replies: string[]) {}
+
+  async generateReply(messages: ChatMessageDto[]): Promise<LlmResult> {
+    this.calls.push(messages);
+    return {
+      text: this.replies.shift() ?? 'No more replies.',
+      provider: 'scripted',
+      model: 'scripted-1',
+      usage: { promptTokens: 10, completionTokens: 5 },
+      finishReason: 'stop',
+      latencyMs: 2,
+    };
+  }
+}
+
+/** Native tool-calling client: scripted tool calls for phase 1, replies after. */
+class NativeToolsLlmClient extends ScriptedLlmClient {
+  readonly toolDefinitions: LlmToolDefinition[][] = [];
+
+  constructor(
+    private readonly toolReplies: LlmToolCall[][],
+    replies: string[],
+  ) {
+    super(replies);
+  }
+
+  async generateWithTools(
+    messages: ChatMessageDto[],
+    tools: LlmToolDefinition[],
+  ): Promise<LlmToolReply> {
+    this.calls.push(messages);
+    this.toolDefinitions.push(tools);
+    return {
+      text: '',
+      toolCalls: this.toolReplies.shift() ?? [],
+      provider: 'native',
+      model: 'native-1',
+      latencyMs: 1,
+    };
+  }
+}
+
+async function createService(
+  replies: string[],
+  env: Record<string, string> = {},
+  llm = new ScriptedLlmClient(replies),
+): Promise<{
+  service: ChatService;
+  llm: ScriptedLlmClient;
+  tool: FakeFlightTool;
+  knowledgeBase: KnowledgeBaseService;
+  escalations: EscalationsService;
+  metrics: MetricsService;
+}> {
+  const moduleRef = await Test.createTestingModule({
+    imports: [DiscoveryModule],
+    providers: [
+      ChatService,
+      ToolRegistry,
+      FakeFlightTool,
+      KnowledgeBaseService,
+      EscalationsService,
+      MetricsService,
+      TracingService,
+      RateLimiterService,
+      FeedbackService,
+      RedactionService,
+      ReplyGuardrailsService,
+      CacheService,
+      { provide: 'ICacheStore', useClass: InMemoryCacheStore },
+      {
+        provide: 'IFeedbackRepository',
+        useClass: InMemoryFeedbackRepository,
+      },
+      {
+        provide: 'IEscalationRepository',
+        useClass: InMemoryEscalationRepository,
+      },
+      { provide: 'IEscalationNotifier', useValue: { notify: async () => {} } },
+      { provide: LlmClientFactory, useValue: { forTenant: () => llm } },
+      { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+    ],
+  }).compile();
+  await moduleRef.init();
+  // Start from an empty corpus rather than the bundled articles.
+  moduleRef.get(KnowledgeBaseService).setDocuments([]);
+  return {
+    service: moduleRef.get(ChatService),
+    llm,
+    tool: moduleRef.get(FakeFlightTool),
+    knowledgeBase: moduleRef.get(KnowledgeBaseService),
+    escalations: moduleRef.get(EscalationsService),
+    metrics: moduleRef.get(MetricsService),
+  };
+}
+
+const user = (content: string): ClientChatMessageDto[] => [
+  { role: 'user', content },
+];
+
+describe('ChatService', () => {
+  it('returns the direct answer when no tool is needed', async () => {
+    const { service, llm } = await createService(['Refunds take 5–10 days.']);
+
+    const result = await service.handleChat({ messages: user('Refund time?') });
+
+    expect(result).toEqual({
+      reply: 'Refunds take 5–10 days.',
+      replyId: expect.any(String),
+      sources: [],
+      meta: expect.objectContaining({
+        provider: 'scripted',
+        model: 'scripted-1',
+      }),
+    });
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('grounds the reply in retrieved knowledge-base passages and returns their ids', async () => {
+    const { service, llm, knowledgeBase } = await createService([
+      'Card refunds take 5–10 business days.',
+    ]);
+    knowledgeBase.setDocuments([
+      {
+        id: 'refunds',
+        title: 'Refunds',
+        content: '## Timelines\nCard refunds take 5–10 business days.',
+      },
+      {
+        id: 'baggage',
+        title: 'Baggage',
+        content: 'Cabin bags can be added online.',
+      },
+    ]);
+
+    const result = await service.handleChat({
+      messages: user('How long does a card refund take?'),
+    });
+
+    expect(result.sources).toEqual(['refunds']);
+    const system = llm.calls[0][0].content;
+    expect(system).toContain('[refunds] Refunds');
+    expect(system).not.toContain('Cabin bags');
+  });
+
+  it('replies in the requested locale using its prompt template', async () => {
+    const { service, llm } = await createService([
+      '{"action":"flight_status","params":{"flight_number":"LH400"}}',
+      '{"action":"none"}',
+      'Der Flug ist pünktlich.',
+    ]);
+
+    await service.handleChat({
+      messages: user('Is LH400 on time?'),
+      context: { locale: 'de-DE' },
+    });
+
+    expect(llm.calls[0][0].content).toContain('Antworte immer auf Deutsch');
+    const phase2 = llm.calls[2];
+    expect(phase2[phase2.length - 1].content).toContain('auf Deutsch');
+  });
+
+  it('runs several tools from one step concurrently and returns the trace', async () => {
+    const { service, llm, tool } = await createService([
+      '[{"action":"flight_status","params":{"flight_number":"UA2402"}},{"action":"flight_status","params":{"flight_number":"BA123"}}]',
+      '{"action":"none"}',
+      'Both flights are on time.',
+    ]);
+
+    const result = await service.handleChat({
+      messages: user('Compare UA2402 and BA123'),
+      debug: true,
+    });
+
+    expect(result.reply).toBe('Both flights are on time.');
+    expect(tool.started).toEqual(['UA2402', 'BA123']);
+    expect(result.debug.toolTrace.map((c) => c.result)).toEqual([
+      'TOOL_RESULT flight_status: UA2402 is on time.',
+      'TOOL_RESULT flight_status: BA123 is on time.',
+    ]);
+    const phase2 = llm.calls[2];
+    expect(phase2[phase2.length - 2].content).toContain('BA123 is on time.');
+  });
+
+  it('uses native tool calls when the client supports them', async () => {
+    const llm = new NativeToolsLlmClient(
+      [
+        [
+          { name: 'flight_status', arguments: { flight_number: 'UA2402' } },
+          { name: 'hotel_search', arguments: { city: 'Rome' } },
+        ],
+        [],
+      ],
+      ['UA2402 is on time.'],
+    );
+    const { service, tool } = await createService([], {}, llm);
+
+    const { reply, toolCalls } = await service.runTurn(user('UA2402?'));
+
+    expect(reply).toBe('UA2402 is on time.');
+    expect(tool.started).toEqual(['UA2402']);
+    expect(toolCalls.map((c) => c.action)).toEqual(['flight_status']);
+    expect(llm.toolDefinitions[0].map((t) => t.name)).toEqual([
+      'flight_status',
+    ]);
+    const system = llm.calls[0][0].content;
+    expect(system).toContain('You have access to live data tools.');
+    expect(system).not.toContain('Reply with nothing but the JSON');
+  });
+
+  it('falls back to the JSON contract and counts tool JSON that does not parse', async () => {
+    const { service, llm, tool, metrics } = await createService([
+      '{"action":"flight_status","params":{"flight_number":',
+      'Which flight do you mean?',
+    ]);
+
+    const { reply, toolCalls } = await service.runTurn(user('My flight?'));
+
+    expect(llm.calls[0][0].content).toContain(
+      'Reply with nothing but the JSON',
+    );
+    expect(tool.started).toEqual([]);
+    expect(toolCalls).toEqual([]);
+    expect(reply).toBe('Which flight do you mean?');
+    expect(await metrics.render()).toContain(
+      'chat_tool_parse_failures_total{source="chat"} 1',
+    );
+  });
+
+  it('aggregates usage and latency across both phases into meta', async () => {
+    const { service } = await createService([
+      '{"action":"flight_status","params":{"flight_number":"UA2402"}}',
+      '{"action":"none"}',
+      'UA2402 is on time.',
+    ]);
+
+    const { meta } = await service.runTurn(user('UA2402?'));
+
+    expect(meta).toMatchObject({
+      usage: { promptTokens: 30, completionTokens: 15, totalTokens: 45 },
+      usageComplete: true,
+      llmLatencyMs: 6,
+      provider: 'scripted',
+      finishReason: 'stop',
+    });
+    expect(meta.calls.map((c) => c.phase)).toEqual([
+      'phase1',
+      'phase1',
+      'phase2',
+    ]);
+  });
+
+  it('feeds results back and stops at the iteration cap', async () => {
+    const { service, llm, tool } = await createService(
+      [
+        '{"action":"flight_status","params":{"flight_number":"UA1"}}',
+        '{"action":"flight_status","params":{"flight_number":"UA2"}}',
+        'UA1 and UA2 are on time.',
+      ],
+      { CHAT_MAX_TOOL_ITERATIONS: '2' },
+    );
+
+    const { reply, toolCalls } = await service.runTurn(user('UA1 then UA2?'));
+
+    expect(reply).toBe('UA1 and UA2 are on time.');
+    expect(tool.started).toEqual(['UA1', 'UA2']);
+    expect(toolCalls.map((c) => c.iteration)).toEqual([1, 2]);
+    expect(llm.calls[1].map((m) => m.content)).toContain(
+      'TOOL_RESULT flight_status: UA1 is on time.',
+    );
+  });
+
+  it('does not repeat a call whose result it already has', async () => {
+    const { service, tool } = await createService([
+      '{"action":"flight_status","params":{"flight_number":"UA1"}}',
+      '{"action":"flight_status","params":{"flight_number":"UA1"}}',
+      'UA1 is on time.',
+    ]);
+
+    await service.runTurn(user('UA1?'));
+
+    expect(tool.started).toEqual(['UA1']);
+  });
+
+  it('records a timeout when the time budget runs out', async () => {
+    const { service, metrics } = await createService(
+      [
+        '{"action":"flight_status","params":{"flight_number":"UA1"}}',
+        'Sorry, that took too long.',
+      ],
+      { CHAT_TOOL_TIME_BUDGET_MS: '5' },
+    );
+
+    const { reply, toolCalls } = await service.runTurn(user('UA1?'));
+
+    expect(toolCalls[0].error).toBe('timeout');
+    expect(reply).toBe('Sorry, that took too long.');
+    expect(await metrics.render()).toContain(
+      'chat_tool_invocations_total{tool="flight_status",outcome="timeout"} 1',
+    );
+  });
+
+  it('hands a request for a human to an agent without calling the model', async () => {
+    const { service, llm, escalations } = await createService([]);
+
+    const result = await service.handleChat({
+      messages: user('I want to talk to a human, please'),
+    });
+
+    expect(llm.calls).toHaveLength(0);
+    expect(result.escalation?.reason).toBe('human_requested');
+    expect(result.reply).toContain(result.escalation?.ticketId);
+    const [ticket] = await escalations.list();
+    expect(ticket.transcript[0].content).toBe(
+      'I want to talk to a human, please',
+    );
+  });
+
+  it('escalates a turn whose tool calls keep failing', async () => {
+    const { service } = await createService(
+      [
+        '[{"action":"flight_status","params":{"flight_number":"UA1"}},{"action":"flight_status","params":{"flight_number":"UA2"}}]',
+        'Sorry, I could not check those flights.',
+      ],
+      { CHAT_TOOL_TIME_BUDGET_MS: '5' },
+    );
+
+    const { reply, escalation } = await service.runTurn(user('UA1 and UA2?'));
+
+    expect(escalation?.reason).toBe('tool_failures');
+    expect(reply).toMatch(/^Sorry, I could not check those flights\.\n\n/);
+    expect(reply).toContain(escalation?.ticketId);
+  });
+
+  it("skips tool calls beyond the client's tool-call limit", async () => {
+    const { service, tool } = await createService([
+      '[{"action":"flight_status","params":{"flight_number":"UA1"}},{"action":"flight_status","params":{"flight_number":"UA2"}}]',
+      '{"action":"none"}',
+      'UA1 is on time; I could not check UA2.',
+    ]);
+    const client: ApiClientIdentity = {
+      id: 'partner',
+      anonymous: false,
+      bucketKey: 'key:partner',
+      allowedOrigins: [],
+      limits: {
+        requestsPerMinute: 10,
+        requestBurst: 10,
+        toolCallsPerMinute: 1,
+        toolCallBurst: 1,
+      },
+    };
+
+    const { toolCalls, escalation } = await service.runTurn(
+      user('UA1 and UA2?'),
+      undefined,
+      { client },
+    );
+
+    expect(tool.started).toEqual(['UA1']);
+    expect(toolCalls[1].error).toBe('rate_limited');
+    expect(escalation).toBeUndefined();
+  });
+
+  it("applies the tenant's brand, policies and enabled tools", async () => {
+    const { service, llm, tool } = await createService([
+      '{"action":"flight_status","params":{"flight_number":"UA1"}}',
+      'Flight status is not available here.',
+    ]);
+
+    const { reply, toolCalls } = await service.runTurn(
+      user('UA1?'),
+      undefined,
+      {
+        tenant: {
+          id: 'sunway',
+          brandName: 'Sunway Travel',
+          tone: 'Warm and upbeat.',
+          policyOverrides: [
+            'Changes are free up to 24 hours before departure.',
+          ],
+          enabledTools: ['booking_lookup'],
+        },
+      },
+    );
+
+    expect(reply).toBe('Flight status is not available here.');
+    expect(tool.started).toEqual([]);
+    expect(toolCalls).toEqual([]);
+    const system = llm.calls[0][0].content;
+    expect(system).toContain('virtual assistant of Sunway Travel');
+    expect(system).toContain('Tone for this brand: Warm and upbeat.');
+    expect(system).toContain(
+      '- Changes are free up to 24 hours before departure.',
+    );
+  });
+
+  it('sends placeholders to the model and restores references in the reply', async () => {
+    const { service, llm } = await createService([
+      'Booking [BOOKING_REF_1] for [EMAIL_1] is paid with card [CARD_1].',
+    ]);
+
+    const { reply } = await service.runTurn(
+      user('Is QX7K2M paid? I used 4111 1111 1111 1111, mail ana@example.com'),
+      { bookingRef: 'QX7K2M' },
+    );
+
+    expect(reply).toBe(
+      'Booking QX7K2M for ana@example.com is paid with card [CARD_1].',
+    );
+    const sent = JSON.stringify(llm.calls);
+    expect(sent).not.toMatch(/QX7K2M|4111|ana@example\.com/);
+    expect(llm.calls[0][1].content).toBe(
+      'Is [BOOKING_REF_1] paid? I used [CARD_1], mail [EMAIL_1]',
+    );
+  });
+
+  it('rewrites a reply that breaks a guardrail, else sends the fallback', async () => {
+    const { service, llm, metrics } = await createService([
+      "I've cancelled booking ZK81PQ for you.",
+      'To cancel, open My trips and choose Cancel booking.',
+      "I've cancelled it.",
+      'Your new reference is ZK81PQ.',
+    ]);
+
+    const rewritten = await service.runTurn(user('Cancel my trip'));
+    const fallback = await service.runTurn(user('Cancel my trip'));
+
+    expect(rewritten.reply).toBe(
+      'To cancel, open My trips and choose Cancel booking.',
+    );
+    expect(rewritten.meta.calls.map((c) => c.phase)).toEqual([
+      'phase1',
+      'guardrail',
+    ]);
+    expect(llm.calls[1].at(-1).content).toContain('claims you performed');
+    expect(fallback.reply).toContain("I'm sorry, I can't help with that here.");
+    const violations = await metrics.guardrailViolations.get();
+    expect(violations.values).toEqual(
+      expect.arrayContaining([
+        {
+          labels: { rule: 'claimed_action', action: 'regenerated' },
+          value: 1,
+        },
+        { labels: { rule: 'claimed_action', action: 'fallback' }, value: 1 },
+      ]),
+    );
+  });
+
+  it('streams only the sentences that pass the guardrails, then replaces the reply', async () => {
+    const { service } = await createService([
+      '{"action":"flight_status","params":{"flight_number":"UA2402"}}',
+      '{"action":"none"}',
+      "UA2402 is on time. I've cancelled booking ZK81PQ for you.",
+      'UA2402 is on time. To cancel, open My trips.',
+    ]);
+
+    const events: ChatStreamEvent[] = [];
+    for await (const event of service.streamChat({
+      messages: user('Is UA2402 on time? Cancel my trip.'),
+    })) {
+      events.push(event);
+    }
+
+    const streamed = events
+      .map((e) => (e.type === 'token' ? e.text : ''))
+      .join('');
+    const rewrite = 'UA2402 is on time. To cancel, open My trips.';
+    expect(streamed).toBe('UA2402 is on time. ');
+    expect(events).toContainEqual({ type: 'replace', text: rewrite });
+    expect(events.at(-1)).toMatchObject({ type: 'done', reply: rewrite });
+  });
+});
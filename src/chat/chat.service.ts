@@ -1,142 +1,966 @@
-import { Inject, Injectable, Logger } from '@nestjs/common';
-import { ChatRequestDto, ChatMessageDto } from './dto/chat-request.dto';
-import { ILlmClient } from './llm/llm-client.interface';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ChatContextDto,
+  ChatRequestDto,
+  ChatMessageDto,
+} from './dto/chat-request.dto';
+import { ILlmClient, LlmResult, LlmStream } from './llm/llm-client.interface';
+import { callMeta } from './llm/llm-result';
+import { LlmClientFactory } from './llm/llm-client.factory';
+import { RedactingLlmClient } from './llm/redacting-llm.client';
+import { ReplyGuardrailsService } from './guardrails/reply-guardrails.service';
+import type {
+  GuardrailEvidence,
+  GuardrailViolation,
+} from './guardrails/reply-guardrails';
+import { GuardedStream } from './guardrails/guarded-stream';
+import {
+  ChatTurnMeta,
+  LlmCallRecord,
+  summarizeLlmCalls,
+} from './chat-turn-meta';
 import {
   OTA_SYSTEM_PROMPT,
-  OTA_SYSTEM_PROMPT_WITH_TOOLS,
+  OTA_SYSTEM_PROMPT_WITH_NATIVE_TOOLS,
+  buildKnowledgeContext,
 } from './ota-system-prompt';
-import { parseToolAction, stripToolJsonFromReply } from './tools/tool-action.types';
+import { NO_TOOL_ACTION } from './tools/tool-action.types';
+import type { ToolAction, ToolCallRecord } from './tools/tool-action.types';
+import { ToolRegistry } from './tools/tool-registry.service';
+import type { ChatToolContext } from './tools/chat-tool.interface';
+import { ToolJsonStreamFilter } from './tools/tool-json-stream-filter';
+import type { ChatStreamEvent } from './chat-stream.types';
+import { KnowledgeBaseService } from '../knowledge-base/knowledge-base.service';
+import { ChatLocale, resolveLocale } from './locale/chat-locale';
+import { PromptTemplate, getPromptTemplate } from './prompts/prompt-template';
+import { EscalationsService } from '../escalations/escalations.service';
+import { MetricsService } from '../observability/metrics.service';
+import { Span, TracingService } from '../observability/tracing.service';
+import { RateLimiterService } from '../api-clients/rate-limiter.service';
+import { FeedbackService } from '../feedback/feedback.service';
+import { RedactionService } from '../redaction/redaction.service';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import type { TenantConfig } from '../tenants/tenant.types';
 import type {
-  FlightStatusParams,
-  RouteWeatherParams,
-  WeatherAtFlightArrivalParams,
-} from './tools/tool-action.types';
-import { AviationstackService } from './integrations/aviationstack.service';
-import { OpenMeteoService } from './integrations/open-meteo.service';
+  EscalationReason,
+  EscalationRef,
+} from '../escalations/escalation.types';
 
 const MAX_MESSAGES = 12;
 const LLM_OPTS = { temperature: 0.3, maxTokens: 600 };
 
+export interface ChatTurnResult {
+  reply: string;
+  /** Id of the reply's snapshot; clients send it with feedback. */
+  replyId: string;
+  toolCalls: ToolCallRecord[];
+  /** Ids of the knowledge-base documents given to the model for this turn. */
+  sources: string[];
+  /** Set when the turn was handed off to a human agent. */
+  escalation?: EscalationRef;
+  /** Provider, usage and latency of the turn's LLM calls; absent if none ran. */
+  meta?: ChatTurnMeta;
+}
+
+/** A finished turn before its reply is snapshotted for feedback. */
+type TurnOutcome = Omit<ChatTurnResult, 'replyId'>;
+
+/** Per-call inputs that do not come from the chat request body. */
+export interface TurnOptions {
+  /** Set by ConversationsService so repeat escalations reuse one ticket. */
+  conversationId?: string;
+  /** Caller resolved by ApiKeyGuard; its tool-call bucket limits lookups. */
+  client?: ApiClientIdentity;
+  /** Brand resolved by TenantGuard; absent uses the global prompt and providers. */
+  tenant?: TenantConfig;
+}
+
+/** Resolved once per turn and shared by every LLM call and tool in it. */
+interface TurnContext {
+  locale: ChatLocale;
+  prompts: PromptTemplate;
+  /** Retrieved help-center passages, formatted for the system prompt. */
+  knowledge: string;
+  sources: string[];
+  /** From context.bookingRef; booking_lookup falls back to it. */
+  bookingRef?: string;
+  conversationId?: string;
+  client?: ApiClientIdentity;
+  tenant?: TenantConfig;
+  /** The tenant's client (see LlmClientFactory), behind the turn's PII redaction. */
+  llmClient: ILlmClient;
+  /** Every LLM call made for the turn, in order; summarized into the response meta. */
+  llmCalls: LlmCallRecord[];
+}
+
+/** The tenant's brand name, tone and policy overrides for the system prompt. */
+function buildBrandContext(tenant?: TenantConfig): string {
+  if (!tenant) return '';
+  const lines: string[] = [];
+  if (tenant.brandName) {
+    lines.push(
+      `You are the virtual assistant of ${tenant.brandName}; refer to the company by that name.`,
+    );
+  }
+  if (tenant.tone) lines.push(`Tone for this brand: ${tenant.tone}`);
+  if (tenant.policyOverrides?.length) {
+    lines.push(
+      'Brand policies (these take precedence over any help-center article or general policy):',
+      ...tenant.policyOverrides.map((p) => `- ${p}`),
+    );
+  }
+  return lines.length > 0 ? `\n\n${lines.join('\n')}` : '';
+}
+
+/**
+ * Base prompt plus the tenant's brand rules, the turn's help-center passages,
+ * booking and reply-language rule.
+ */
+function withTurnContext(basePrompt: string, turn: TurnContext): string {
+  const bookingLookup =
+    turn.tenant?.enabledTools?.includes('booking_lookup') ?? true;
+  const booking =
+    turn.bookingRef && bookingLookup
+      ? `\nThe customer is signed in with booking reference ${turn.bookingRef}; use it for booking_lookup (surname or email is still required).`
+      : '';
+  return `${basePrompt}${buildBrandContext(turn.tenant)}${turn.knowledge}${booking}\n${turn.prompts.replyLanguage}`;
+}
+
+interface ToolLoopResult {
+  toolCalls: ToolCallRecord[];
+  /** The model's own answer when it needed no tools on the first step. */
+  directReply: string | null;
+}
+
+class ToolTimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ToolTimeoutError('Tool timed out')),
+      ms,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Runs a generator to completion, discarding its events, and returns its result. */
+async function drain<T>(generator: AsyncGenerator<unknown, T>): Promise<T> {
+  for (;;) {
+    const next = await generator.next();
+    if (next.done) return next.value;
+  }
+}
+
+async function* singleChunk(reply: Promise<LlmResult>): LlmStream {
+  const result = await reply;
+  yield result.text;
+  return callMeta(result);
+}
+
+/**
+ * Runs task and yields its status messages as they happen, so the stream shows
+ * progress while integrations are still running. Returns the task's result.
+ */
+async function* withStatusEvents<T>(
+  task: (onStatus: (message: string) => void) => Promise<T>,
+): AsyncGenerator<ChatStreamEvent, T> {
+  const pending: ChatStreamEvent[] = [];
+  let wake: () => void = () => undefined;
+  let settled = false;
+
+  const run = task((message) => {
+    pending.push({ type: 'status', message });
+    wake();
+  });
+  const onSettled = () => {
+    settled = true;
+    wake();
+  };
+  run.then(onSettled, onSettled);
+
+  for (;;) {
+    while (pending.length > 0) yield pending.shift();
+    if (settled) break;
+    await new Promise<void>((resolve) => (wake = resolve));
+  }
+  return run;
+}
+
 function looksLikeJson(text: string): boolean {
   const t = text.trim();
   return t.startsWith('{') && t.includes('action');
 }
 
+function buildNaturalLanguageMessages(
+  userMessages: ChatMessageDto[],
+  maxMessages: number,
+  turn: TurnContext,
+): ChatMessageDto[] {
+  const systemPrompt =
+    withTurnContext(OTA_SYSTEM_PROMPT, turn) +
+    '\n\n' +
+    turn.prompts.naturalLanguageOnly;
+  const messages: ChatMessageDto[] = [
+    { role: 'system', content: systemPrompt },
+    ...userMessages,
+  ];
+  return [messages[0], ...messages.slice(-maxMessages)];
+}
+
 async function requestNaturalLanguageReply(
   llmClient: ILlmClient,
   userMessages: ChatMessageDto[],
   opts: { temperature?: number; maxTokens?: number },
   maxMessages: number,
-): Promise<string> {
-  const systemPrompt =
-    OTA_SYSTEM_PROMPT +
-    '\n\nIMPORTANT: Always reply in natural, friendly language. Never output JSON, code blocks, or raw data structures.';
-  const messages: ChatMessageDto[] = [{ role: 'system', content: systemPrompt }, ...userMessages];
-  const trimmed = [messages[0], ...messages.slice(-maxMessages)];
-  return llmClient.generateReply(trimmed, opts);
+  turn: TurnContext,
+): Promise<LlmResult> {
+  return llmClient.generateReply(
+    buildNaturalLanguageMessages(userMessages, maxMessages, turn),
+    opts,
+  );
+}
+
+function buildPhase2Messages(
+  userMessages: ChatMessageDto[],
+  toolCalls: ToolCallRecord[],
+  maxMessages: number,
+  turn: TurnContext,
+): ChatMessageDto[] {
+  const messagesPhase2: ChatMessageDto[] = [
+    { role: 'system', content: withTurnContext(OTA_SYSTEM_PROMPT, turn) },
+    ...userMessages,
+    { role: 'assistant', content: toolCalls.map((c) => c.result).join('\n') },
+    { role: 'user', content: turn.prompts.phase2Instruction },
+  ];
+  return [messagesPhase2[0], ...messagesPhase2.slice(-maxMessages)];
+}
+
+/**
+ * Everything a reply may legitimately quote (the conversation, tool results,
+ * passages, the signed-in booking), and the tool results on their own.
+ */
+function guardrailEvidence(
+  userMessages: ChatMessageDto[],
+  toolCalls: ToolCallRecord[],
+  turn: TurnContext,
+): GuardrailEvidence {
+  const toolResults = toolCalls.map((c) => c.result);
+  return {
+    evidence: [
+      ...userMessages.map((m) => m.content),
+      ...toolResults,
+      turn.knowledge,
+      turn.bookingRef ?? '',
+    ],
+    toolResults,
+  };
 }
 
 @Injectable()
 export class ChatService {
   private readonly logger = new Logger(ChatService.name);
+  private readonly maxToolIterations: number;
+  private readonly toolTimeBudgetMs: number;
+  private readonly knowledgeTopK: number;
 
   constructor(
-    @Inject('ILlmClient') private readonly llmClient: ILlmClient,
-    private readonly aviationstack: AviationstackService,
-    private readonly openMeteo: OpenMeteoService,
-  ) {}
+    private readonly llmClients: LlmClientFactory,
+    private readonly tools: ToolRegistry,
+    private readonly config: ConfigService,
+    private readonly knowledgeBase: KnowledgeBaseService,
+    private readonly escalations: EscalationsService,
+    private readonly metrics: MetricsService,
+    private readonly tracing: TracingService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly feedback: FeedbackService,
+    private readonly redaction: RedactionService,
+    private readonly guardrails: ReplyGuardrailsService,
+  ) {
+    this.maxToolIterations = Number(
+      this.config.get<string>('CHAT_MAX_TOOL_ITERATIONS') ?? 3,
+    );
+    this.toolTimeBudgetMs = Number(
+      this.config.get<string>('CHAT_TOOL_TIME_BUDGET_MS') ?? 20000,
+    );
+    this.knowledgeTopK = Number(
+      this.config.get<string>('KNOWLEDGE_BASE_TOP_K') ?? 3,
+    );
+  }
 
-  async handleChat(body: ChatRequestDto) {
-    const userMessages = body.messages ?? [];
+  /**
+   * Resolves the turn's locale (context.locale, else detected from the
+   * messages) and LLM client, and retrieves help-center passages in that
+   * language for the latest user question. The signed-in booking reference is redacted like
+   * any reference the customer types.
+   */
+  private prepareTurn(
+    userMessages: ChatMessageDto[],
+    context?: ChatContextDto,
+    options: TurnOptions = {},
+  ): TurnContext {
+    const locale = resolveLocale(context?.locale, userMessages);
+    const question = [...userMessages]
+      .reverse()
+      .find((m) => m.role === 'user')?.content;
+    const passages = question
+      ? this.knowledgeBase
+          .search(question, this.knowledgeTopK, locale.language)
+          .map((r) => r.passage)
+      : [];
+    const redaction = this.redaction.createSession();
+    redaction.register('booking_ref', context?.bookingRef);
+    return {
+      locale,
+      prompts: getPromptTemplate(locale.language),
+      knowledge: buildKnowledgeContext(passages),
+      sources: [...new Set(passages.map((p) => p.documentId))],
+      bookingRef: context?.bookingRef,
+      conversationId: options.conversationId,
+      client: options.client,
+      tenant: options.tenant,
+      llmClient: new RedactingLlmClient(
+        this.llmClients.forTenant(options.tenant),
+        redaction,
+      ),
+      llmCalls: [],
+    };
+  }
 
-    const messagesPhase1: ChatMessageDto[] = [
-      { role: 'system', content: OTA_SYSTEM_PROMPT_WITH_TOOLS },
-      ...userMessages,
-    ];
-    const trimmedPhase1 = [
-      messagesPhase1[0],
-      ...messagesPhase1.slice(-MAX_MESSAGES),
-    ];
-
-    const firstReply = await this.llmClient.generateReply(trimmedPhase1, LLM_OPTS);
-    this.logger.log(`[DEBUG] LLM first reply (first 400 chars): ${String(firstReply).slice(0, 400)}`);
-    const toolAction = parseToolAction(firstReply);
-    this.logger.log(`[DEBUG] parseToolAction result: ${toolAction ? JSON.stringify(toolAction) : 'null'}`);
-
-    if (toolAction === null) {
-      this.logger.warn(`[DEBUG] LLM did NOT return valid tool JSON - parseToolAction=null. Services will NOT be called.`);
-      const reply = looksLikeJson(firstReply)
-        ? await requestNaturalLanguageReply(this.llmClient, userMessages, LLM_OPTS, MAX_MESSAGES)
-        : firstReply;
-      return { reply: stripToolJsonFromReply(reply) };
-    }
-    if (toolAction.action === 'none') {
-      const reply = await requestNaturalLanguageReply(
-        this.llmClient,
-        userMessages,
+  /**
+   * Opens (or refreshes) an escalation ticket with the transcript so far and
+   * returns the reference sent back to the client.
+   */
+  private async escalate(
+    reason: EscalationReason,
+    transcript: ChatMessageDto[],
+    toolCalls: ToolCallRecord[],
+    turn: TurnContext,
+  ): Promise<EscalationRef> {
+    const ticket = await this.escalations.escalate(reason, {
+      messages: transcript,
+      toolCalls,
+      conversationId: turn.conversationId,
+      bookingRef: turn.bookingRef,
+      locale: turn.locale.tag,
+      tenantId: turn.tenant?.id,
+    });
+    this.logger.log(`Turn escalated to ${ticket.id} (${reason})`);
+    return { ticketId: ticket.id, reason };
+  }
+
+  /**
+   * One phase-1 step: let the model pick tools. Uses native tool calling when the
+   * active client supports it, otherwise the prompt-based JSON contract.
+   * toolActions is null when the model answered directly; text then holds that answer.
+   */
+  private async selectToolActions(
+    messages: ChatMessageDto[],
+    nativeTools: boolean,
+    iteration: number,
+    turn: TurnContext,
+  ): Promise<{ toolActions: ToolAction[] | null; text: string }> {
+    return this.tracing.trace(
+      'chat.phase1',
+      { iteration, nativeTools },
+      async (span) => {
+        const selection = await this.requestToolActions(
+          messages,
+          nativeTools,
+          turn,
+        );
+        const actions = selection.toolActions?.filter(
+          (a) => a.action !== NO_TOOL_ACTION,
+        );
+        span.set('toolActions', actions?.map((a) => a.action).join(',') ?? '');
+        span.set('directReply', selection.toolActions === null);
+        return selection;
+      },
+    );
+  }
+
+  private async requestToolActions(
+    messages: ChatMessageDto[],
+    nativeTools: boolean,
+    turn: TurnContext,
+  ): Promise<{ toolActions: ToolAction[] | null; text: string }> {
+    const enabled = turn.tenant?.enabledTools;
+    if (nativeTools) {
+      const result = await turn.llmClient.generateWithTools(
+        messages,
+        this.tools.definitions(enabled),
         LLM_OPTS,
-        MAX_MESSAGES,
       );
-      return { reply: stripToolJsonFromReply(reply) };
+      turn.llmCalls.push({ phase: 'phase1', ...callMeta(result) });
+      if (result.toolCalls.length > 0) {
+        const toolActions = result.toolCalls
+          .map((call) => this.tools.toolActionFromCall(call, enabled))
+          .filter((a): a is ToolAction => a !== null);
+        return {
+          toolActions:
+            toolActions.length > 0 ? toolActions : [{ action: NO_TOOL_ACTION }],
+          text: result.text,
+        };
+      }
+      return result.text
+        ? { toolActions: null, text: result.text }
+        : { toolActions: [{ action: NO_TOOL_ACTION }], text: '' };
     }
 
-    let toolResultSummary: string;
-    if (toolAction.action === 'flight_status') {
-      this.logger.log(`[DEBUG] Calling AviationstackService.getFlightStatus with params: ${JSON.stringify(toolAction.params)}`);
-      const result = await this.aviationstack.getFlightStatus(
-        (toolAction.params ?? {}) as FlightStatusParams,
+    const result = await turn.llmClient.generateReply(messages, LLM_OPTS);
+    turn.llmCalls.push({ phase: 'phase1', ...callMeta(result) });
+    const { text } = result;
+    const toolActions = this.tools.parseToolActions(text, enabled);
+    if (toolActions === null && looksLikeJson(text)) {
+      this.metrics.toolParseFailures.inc({ source: 'chat' });
+      this.logger.warn(
+        'Model returned tool JSON that does not parse; no tools will run.',
       );
-      this.logger.log(`[DEBUG] Aviationstack result summary: ${result.summary.slice(0, 100)}...`);
-      toolResultSummary = `TOOL_RESULT flight_status: ${result.summary}`;
-    } else if (toolAction.action === 'route_weather') {
-      this.logger.log(`[DEBUG] Calling OpenMeteoService.getRouteWeather with params: ${JSON.stringify(toolAction.params)}`);
-      const result = await this.openMeteo.getRouteWeather(
-        (toolAction.params ?? {}) as RouteWeatherParams,
-      );
-      this.logger.log(`[DEBUG] OpenMeteo route_weather result: ${result.summary.slice(0, 100)}...`);
-      toolResultSummary = `TOOL_RESULT route_weather: ${result.summary}`;
-    } else if (toolAction.action === 'weather_at_flight_arrival') {
-      this.logger.log(`[DEBUG] Calling AviationstackService + OpenMeteoService for weather_at_flight_arrival`);
-      const flightResult = await this.aviationstack.getFlightStatus(
-        (toolAction.params ?? {}) as WeatherAtFlightArrivalParams,
+    }
+    return { toolActions, text };
+  }
+
+  /**
+   * Agent loop: the model may request several tools per step; independent calls
+   * run concurrently and their TOOL_RESULTs are fed back before it decides on more.
+   * Stops when the model needs no further tools, after CHAT_MAX_TOOL_ITERATIONS
+   * steps, or once CHAT_TOOL_TIME_BUDGET_MS is spent. Yields status events for
+   * the streaming endpoint.
+   */
+  private async *runToolLoop(
+    userMessages: ChatMessageDto[],
+    turn: TurnContext,
+  ): AsyncGenerator<ChatStreamEvent, ToolLoopResult> {
+    const nativeTools = typeof turn.llmClient.generateWithTools === 'function';
+    const systemMessage: ChatMessageDto = {
+      role: 'system',
+      content:
+        withTurnContext(
+          nativeTools
+            ? OTA_SYSTEM_PROMPT_WITH_NATIVE_TOOLS
+            : OTA_SYSTEM_PROMPT +
+                '\n' +
+                this.tools.promptInstructions(turn.tenant?.enabledTools),
+          turn,
+        ) +
+        // Lets the model resolve "today"/"tomorrow at 9am" into tool dates and times.
+        `\nCurrent date and time (UTC): ${new Date().toISOString().slice(0, 16)}Z`,
+    };
+    const deadline = Date.now() + this.toolTimeBudgetMs;
+    const toolCalls: ToolCallRecord[] = [];
+    const toolNotes: ChatMessageDto[] = [];
+    const seen = new Set<string>();
+
+    for (let iteration = 1; iteration <= this.maxToolIterations; iteration++) {
+      if (iteration > 1 && Date.now() >= deadline) break;
+      const messages = [systemMessage, ...userMessages, ...toolNotes];
+      const { toolActions, text } = await this.selectToolActions(
+        [messages[0], ...messages.slice(1).slice(-MAX_MESSAGES)],
+        nativeTools,
+        iteration,
+        turn,
       );
-      let summary: string;
-      if (!flightResult.arrivalAirport) {
-        summary = flightResult.summary;
-      } else {
-        const weatherResult = await this.openMeteo.getWeatherForPlace(
-          flightResult.arrivalAirport,
-        );
-        summary = `${flightResult.summary} Weather at arrival (${flightResult.arrivalAirport}): ${weatherResult.summary}`;
+
+      if (toolActions === null) {
+        const directReply =
+          iteration === 1 && !looksLikeJson(text) ? text : null;
+        return { toolCalls, directReply };
       }
-      toolResultSummary = `TOOL_RESULT weather_at_flight_arrival: ${summary}`;
-    } else {
-      const reply = await requestNaturalLanguageReply(
-        this.llmClient,
+
+      const pending = toolActions.filter((a) => {
+        const key = JSON.stringify([a.action, a.params ?? {}]);
+        if (a.action === NO_TOOL_ACTION || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      const remainingMs = deadline - Date.now();
+      if (pending.length === 0 || remainingMs <= 0) break;
+
+      const records = yield* withStatusEvents((onStatus) =>
+        Promise.all(
+          pending.map((a) =>
+            this.executeTool(
+              a,
+              iteration,
+              remainingMs,
+              {
+                onStatus,
+                locale: turn.locale,
+                bookingRef: turn.bookingRef,
+                integrations: turn.tenant?.integrations,
+              },
+              turn,
+            ),
+          ),
+        ),
+      );
+      toolCalls.push(...records);
+      toolNotes.push({
+        role: 'assistant',
+        content: records.map((r) => r.result).join('\n'),
+      });
+    }
+
+    return { toolCalls, directReply: null };
+  }
+
+  async handleChat(body: ChatRequestDto, options: TurnOptions = {}) {
+    const { reply, replyId, toolCalls, sources, escalation, meta } =
+      await this.runTurn(body.messages ?? [], body.context, options);
+    return {
+      reply,
+      replyId,
+      sources,
+      ...(escalation ? { escalation } : {}),
+      ...(meta ? { meta } : {}),
+      ...(body.debug ? { debug: { toolTrace: toolCalls } } : {}),
+    };
+  }
+
+  /**
+   * One assistant turn over the given history: the tool loop followed by the
+   * final natural-language reply. Also returns the executed tool calls so callers
+   * holding the conversation (see ConversationsService) can persist them.
+   * A request for a human (or a frustrated or repeated question) skips the
+   * model and answers with the handoff message and ticket id.
+   */
+  async runTurn(
+    userMessages: ChatMessageDto[],
+    context?: ChatContextDto,
+    options: TurnOptions = {},
+  ): Promise<ChatTurnResult> {
+    const turn = this.prepareTurn(userMessages, context, options);
+    const outcome = await this.completeTurn(userMessages, turn);
+    const replyId = await this.recordReply(userMessages, outcome, turn);
+    return { ...outcome, replyId };
+  }
+
+  private async completeTurn(
+    userMessages: ChatMessageDto[],
+    turn: TurnContext,
+  ): Promise<TurnOutcome> {
+    const { sources } = turn;
+
+    const handoffReason = this.escalations.detectFromMessages(userMessages);
+    if (handoffReason) {
+      const escalation = await this.escalate(
+        handoffReason,
         userMessages,
-        LLM_OPTS,
-        MAX_MESSAGES,
+        [],
+        turn,
+      );
+      const reply = turn.prompts.handoff(escalation.ticketId);
+      return { reply, toolCalls: [], sources: [], escalation };
+    }
+
+    const { toolCalls, directReply } = await drain(
+      this.runToolLoop(userMessages, turn),
+    );
+
+    if (toolCalls.length === 0) {
+      const reply =
+        directReply ??
+        (await this.tracing.trace(
+          'chat.phase2',
+          { mode: 'natural_language' },
+          () =>
+            requestNaturalLanguageReply(
+              turn.llmClient,
+              userMessages,
+              LLM_OPTS,
+              MAX_MESSAGES,
+              turn,
+            ).then((result) => this.recordPhase2(turn, result)),
+        ));
+      const checked = await this.applyGuardrails(
+        this.tools.stripToolJson(reply),
+        userMessages,
+        toolCalls,
+        turn,
       );
-      return { reply: stripToolJsonFromReply(reply) };
+      return {
+        reply: checked,
+        toolCalls,
+        sources,
+        meta: summarizeLlmCalls(turn.llmCalls),
+      };
     }
 
-    const messagesPhase2: ChatMessageDto[] = [
-      { role: 'system', content: OTA_SYSTEM_PROMPT },
-      ...userMessages,
-      { role: 'assistant', content: toolResultSummary },
-      {
-        role: 'user',
-        content:
-          'Using the data above, reply to the customer in natural language (short, clear, friendly). Do not repeat raw JSON or technical labels.',
+    const finalReply = await this.tracing.trace(
+      'chat.phase2',
+      { mode: 'tool_results', toolCalls: toolCalls.length },
+      () =>
+        turn.llmClient
+          .generateReply(
+            buildPhase2Messages(userMessages, toolCalls, MAX_MESSAGES, turn),
+            LLM_OPTS,
+          )
+          .then((result) => this.recordPhase2(turn, result)),
+    );
+    const reply = await this.applyGuardrails(
+      this.tools.stripToolJson(finalReply),
+      userMessages,
+      toolCalls,
+      turn,
+    );
+    const meta = summarizeLlmCalls(turn.llmCalls);
+
+    const failureReason = this.escalations.detectFromToolCalls(toolCalls);
+    if (failureReason) {
+      const escalation = await this.escalate(
+        failureReason,
+        [...userMessages, { role: 'assistant', content: reply }],
+        toolCalls,
+        turn,
+      );
+      return {
+        reply: `${reply}\n\n${turn.prompts.handoff(escalation.ticketId)}`,
+        toolCalls,
+        sources,
+        escalation,
+        meta,
+      };
+    }
+    return { reply, toolCalls, sources, meta };
+  }
+
+  /**
+   * Checks the model's reply against the output guardrails. A violating reply
+   * is rewritten once from the same messages plus a corrective instruction;
+   * if the rewrite fails or still violates, the locale's fallback is sent.
+   */
+  private async applyGuardrails(
+    draft: string,
+    userMessages: ChatMessageDto[],
+    toolCalls: ToolCallRecord[],
+    turn: TurnContext,
+  ): Promise<string> {
+    const evidence = guardrailEvidence(userMessages, toolCalls, turn);
+    const violations = this.guardrails.check(draft, evidence, turn.tenant);
+    if (violations.length === 0) return draft;
+    const context = {
+      tenantId: turn.tenant?.id,
+      conversationId: turn.conversationId,
+    };
+
+    if (this.guardrails.regenerate) {
+      const rewrite = await this.rewriteReply(
+        draft,
+        violations,
+        userMessages,
+        toolCalls,
+        turn,
+      ).catch((e) => {
+        this.logger.warn(`Guardrail rewrite failed: ${(e as Error).message}`);
+        return null;
+      });
+      if (
+        rewrite &&
+        this.guardrails.check(rewrite, evidence, turn.tenant).length === 0
+      ) {
+        this.guardrails.report(violations, 'regenerated', context);
+        return rewrite;
+      }
+    }
+    this.guardrails.report(violations, 'fallback', context);
+    return turn.prompts.guardrailFallback;
+  }
+
+  private rewriteReply(
+    draft: string,
+    violations: GuardrailViolation[],
+    userMessages: ChatMessageDto[],
+    toolCalls: ToolCallRecord[],
+    turn: TurnContext,
+  ): Promise<string> {
+    const messages =
+      toolCalls.length === 0
+        ? buildNaturalLanguageMessages(userMessages, MAX_MESSAGES, turn)
+        : buildPhase2Messages(userMessages, toolCalls, MAX_MESSAGES, turn);
+    return this.tracing.trace(
+      'chat.guardrail',
+      { violations: violations.map((v) => v.rule).join(',') },
+      async () => {
+        const result = await turn.llmClient.generateReply(
+          [
+            ...messages,
+            { role: 'assistant', content: draft },
+            { role: 'user', content: this.guardrails.correction(violations) },
+          ],
+          LLM_OPTS,
+        );
+        turn.llmCalls.push({ phase: 'guardrail', ...callMeta(result) });
+        return this.tools.stripToolJson(result.text);
       },
-    ];
-    const trimmedPhase2 = [
-      messagesPhase2[0],
-      ...messagesPhase2.slice(-MAX_MESSAGES),
-    ];
+    );
+  }
 
-    const finalReply = await this.llmClient.generateReply(trimmedPhase2, LLM_OPTS);
-    return { reply: stripToolJsonFromReply(finalReply) };
+  /** Records a phase-2 call on the turn and returns its text. */
+  private recordPhase2(turn: TurnContext, result: LlmResult): string {
+    turn.llmCalls.push({ phase: 'phase2', ...callMeta(result) });
+    return result.text;
   }
-}
 
+  /** Snapshots the finished reply for feedback and returns its replyId. */
+  private recordReply(
+    userMessages: ChatMessageDto[],
+    outcome: TurnOutcome,
+    turn: TurnContext,
+  ): Promise<string> {
+    return this.feedback.recordReply({
+      messages: [
+        ...userMessages,
+        { role: 'assistant', content: outcome.reply },
+      ],
+      toolCalls: outcome.toolCalls,
+      sources: outcome.sources,
+      escalation: outcome.escalation,
+      meta: outcome.meta,
+      conversationId: turn.conversationId,
+      tenantId: turn.tenant?.id,
+      clientId: turn.client?.id,
+      ownerKey: turn.client?.bucketKey,
+      locale: turn.locale.tag,
+    });
+  }
+
+  /**
+   * Streaming variant of handleChat. The tool loop is always buffered (it may be
+   * tool JSON); only natural-language output is streamed, and it still goes
+   * through ToolJsonStreamFilter so a stray tool object never reaches the client.
+   * With guardrails on, the reply is streamed a sentence at a time and only
+   * while it passes them (see GuardedStream).
+   */
+  async *streamChat(
+    body: ChatRequestDto,
+    options: TurnOptions = {},
+  ): AsyncGenerator<ChatStreamEvent> {
+    const userMessages = body.messages ?? [];
+    const turn = this.prepareTurn(userMessages, body.context, options);
+    const outcome = yield* this.streamTurn(userMessages, turn);
+    const replyId = await this.recordReply(userMessages, outcome, turn);
+    const { reply, toolCalls, sources, escalation, meta } = outcome;
+    yield {
+      type: 'done',
+      reply,
+      replyId,
+      sources,
+      ...(escalation ? { escalation } : {}),
+      ...(meta ? { meta } : {}),
+      ...(body.debug ? { debug: { toolTrace: toolCalls } } : {}),
+    };
+  }
+
+  /** completeTurn for streamChat: yields status and token events as they come. */
+  private async *streamTurn(
+    userMessages: ChatMessageDto[],
+    turn: TurnContext,
+  ): AsyncGenerator<ChatStreamEvent, TurnOutcome> {
+    const { sources } = turn;
+
+    const handoffReason = this.escalations.detectFromMessages(userMessages);
+    if (handoffReason) {
+      const escalation = await this.escalate(
+        handoffReason,
+        userMessages,
+        [],
+        turn,
+      );
+      const reply = turn.prompts.handoff(escalation.ticketId);
+      yield { type: 'token', text: reply };
+      return { reply, toolCalls: [], sources: [], escalation };
+    }
+
+    const { toolCalls, directReply } = yield* this.runToolLoop(
+      userMessages,
+      turn,
+    );
+
+    if (toolCalls.length === 0 && directReply !== null) {
+      const reply = await this.applyGuardrails(
+        this.tools.stripToolJson(directReply),
+        userMessages,
+        toolCalls,
+        turn,
+      );
+      yield { type: 'token', text: reply };
+      return {
+        reply,
+        toolCalls,
+        sources,
+        meta: summarizeLlmCalls(turn.llmCalls),
+      };
+    }
+
+    const messages =
+      toolCalls.length === 0
+        ? buildNaturalLanguageMessages(userMessages, MAX_MESSAGES, turn)
+        : buildPhase2Messages(userMessages, toolCalls, MAX_MESSAGES, turn);
+
+    const failureReason = this.escalations.detectFromToolCalls(toolCalls);
+    const span = this.tracing.start('chat.phase2', {
+      mode: toolCalls.length === 0 ? 'natural_language' : 'tool_results',
+      toolCalls: toolCalls.length,
+      streamed: true,
+    });
+    const evidence = guardrailEvidence(userMessages, toolCalls, turn);
+    const streamed = yield* this.streamReply(
+      messages,
+      span,
+      turn,
+      this.guardrails.enabled
+        ? new GuardedStream(
+            (text) =>
+              this.guardrails.check(text, evidence, turn.tenant).length === 0,
+          )
+        : undefined,
+    );
+    const reply = await this.applyGuardrails(
+      streamed,
+      userMessages,
+      toolCalls,
+      turn,
+    );
+    if (reply !== streamed) yield { type: 'replace', text: reply };
+    const meta = summarizeLlmCalls(turn.llmCalls);
+    if (!failureReason) return { reply, toolCalls, sources, meta };
+
+    const escalation = await this.escalate(
+      failureReason,
+      [...userMessages, { role: 'assistant', content: reply }],
+      toolCalls,
+      turn,
+    );
+    const handoff = `\n\n${turn.prompts.handoff(escalation.ticketId)}`;
+    yield { type: 'token', text: handoff };
+    return {
+      reply: `${reply}${handoff}`,
+      toolCalls,
+      sources,
+      escalation,
+      meta,
+    };
+  }
+
+  /**
+   * Streams the final reply and returns it with any tool JSON stripped; span
+   * ends when the model's stream does. With a guard, tokens are only sent once
+   * it releases them; the rest of a blocked reply is still read so it can be
+   * rewritten. The stream's call meta is recorded on the turn as the phase-2
+   * call.
+   */
+  private async *streamReply(
+    messages: ChatMessageDto[],
+    span: Span,
+    turn: TurnContext,
+    guard?: GuardedStream,
+  ): AsyncGenerator<ChatStreamEvent, string> {
+    const filter = new ToolJsonStreamFilter();
+    const pass = (text: string) => (guard ? guard.push(text) : text);
+    let raw = '';
+
+    const { llmClient } = turn;
+    const chunks = llmClient.streamReply
+      ? llmClient.streamReply(messages, LLM_OPTS)
+      : singleChunk(llmClient.generateReply(messages, LLM_OPTS));
+
+    try {
+      // Iterated by hand: for-await drops the generator's return value (the meta).
+      let next = await chunks.next();
+      while (next.done !== true) {
+        raw += next.value;
+        const text = pass(filter.push(next.value));
+        if (text) yield { type: 'token', text };
+        next = await chunks.next();
+      }
+      if (next.value) turn.llmCalls.push({ phase: 'phase2', ...next.value });
+    } catch (error) {
+      span.end(error);
+      throw error;
+    } finally {
+      // Also reached when the client disconnects mid-stream.
+      span.end();
+      await chunks.return(undefined);
+    }
+    const rest = pass(filter.flush()) + (guard?.flush() ?? '');
+    if (rest) yield { type: 'token', text: rest };
+
+    return this.tools.stripToolJson(raw);
+  }
+
+  /**
+   * Runs one tool call through the registry, bounded by the remaining time
+   * budget and the client's tool-call rate limit. Tools the tenant has not
+   * enabled count as unknown. Failures, timeouts and rate-limited calls become
+   * a TOOL_RESULT the model can explain rather than failing the whole turn.
+   */
+  private async executeTool(
+    toolAction: ToolAction,
+    iteration: number,
+    timeoutMs: number,
+    context: ChatToolContext,
+    turn: TurnContext,
+  ): Promise<ToolCallRecord> {
+    const params = toolAction.params ?? {};
+    const startedAt = Date.now();
+    const record = (result: string, error?: string): ToolCallRecord => ({
+      action: toolAction.action,
+      params,
+      result: `TOOL_RESULT ${toolAction.action}: ${result}`,
+      iteration,
+      durationMs: Date.now() - startedAt,
+      ...(error ? { error } : {}),
+    });
+
+    const tool = this.tools.get(toolAction.action, turn.tenant?.enabledTools);
+    if (!tool) {
+      this.metrics.toolInvocations.inc({
+        tool: 'unknown',
+        outcome: 'unknown_tool',
+      });
+      return record('Unknown tool.', 'unknown_tool');
+    }
+
+    const { client } = turn;
+    const limit = client ? this.rateLimiter.take('tool_calls', client) : null;
+    if (limit && !limit.allowed) {
+      this.metrics.toolInvocations.inc({
+        tool: tool.name,
+        outcome: 'rate_limited',
+      });
+      return record(
+        `Skipped: the lookup limit was reached. It resets in about ${limit.retryAfterSeconds} seconds.`,
+        'rate_limited',
+      );
+    }
+
+    // Params stay out of the span: they can hold surnames and emails.
+    const span = this.tracing.start('chat.tool', {
+      tool: tool.name,
+      iteration,
+    });
+    const finish = (outcome: 'ok' | 'error' | 'timeout', error?: unknown) => {
+      this.metrics.toolInvocations.inc({ tool: tool.name, outcome });
+      span.set('toolOutcome', outcome);
+      span.end(error);
+    };
+    try {
+      const result = await withTimeout(
+        tool.execute(params, context),
+        timeoutMs,
+      );
+      finish('ok');
+      return record(result.summary);
+    } catch (e) {
+      this.logger.error(`Tool ${tool.name} failed`, e as Error);
+      if (e instanceof ToolTimeoutError) {
+        finish('timeout', e);
+        return record('The lookup took too long and was skipped.', 'timeout');
+      }
+      finish('error', e);
+      return record('The lookup failed. Please try again later.', String(e));
+    }
+  }
+}
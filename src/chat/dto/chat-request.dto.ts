@@ -1,13 +1,82 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { MaxTotalContentLength } from './total-content-length.validator';
+
 export type ChatRole = 'user' | 'assistant' | 'system';
 
+/** Roles clients may send. System prompts are server-owned and never accepted from clients. */
+export const CLIENT_CHAT_ROLES = ['user', 'assistant'] as const;
+export type ClientChatRole = (typeof CLIENT_CHAT_ROLES)[number];
+
+export const MAX_MESSAGE_CHARS = 4000;
+export const MAX_TOTAL_CHARS = 16000;
+export const MAX_REQUEST_MESSAGES = 50;
+
+/** Message as sent to the LLM clients (includes our own system prompts). */
 export interface ChatMessageDto {
   role: ChatRole;
   content: string;
 }
 
-export class ChatRequestDto {
-  messages: ChatMessageDto[];
-  // Optional extra info for future use (e.g., booking references)
-  context?: Record<string, unknown>;
+/** Message as accepted from API clients. */
+export class ClientChatMessageDto implements ChatMessageDto {
+  @IsIn(CLIENT_CHAT_ROLES, {
+    message: `role must be one of: ${CLIENT_CHAT_ROLES.join(', ')}`,
+  })
+  role: ClientChatRole;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_MESSAGE_CHARS)
+  content: string;
 }
 
+export class ChatContextDto {
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z0-9]{5,10}$/, {
+    message: 'bookingRef must be 5-10 letters or digits',
+  })
+  bookingRef?: string;
+
+  // BCP 47 tag such as "es", "fr-FR" or "en-US"; detected from the messages when omitted
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z]{2,3}(-[A-Z]{2})?$/, {
+    message: 'locale must look like "es" or "en-US"',
+  })
+  locale?: string;
+}
+
+export class ChatRequestDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_REQUEST_MESSAGES)
+  @MaxTotalContentLength(MAX_TOTAL_CHARS)
+  @ValidateNested({ each: true })
+  @Type(() => ClientChatMessageDto)
+  messages: ClientChatMessageDto[];
+
+  // Optional extra info (e.g., booking references); unknown keys are rejected
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChatContextDto)
+  context?: ChatContextDto;
+
+  // When true, the response includes the agent loop's tool trace under `debug`
+  @IsOptional()
+  @IsBoolean()
+  debug?: boolean;
+}
@@ -0,0 +1,35 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+
+/** Caps the combined `content` length of a message array. */
+export function MaxTotalContentLength(
+  max: number,
+  validationOptions?: ValidationOptions,
+) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'maxTotalContentLength',
+      target: object.constructor,
+      propertyName,
+      constraints: [max],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          if (!Array.isArray(value)) return true;
+          const total = value.reduce(
+            (sum: number, m: { content?: unknown }) =>
+              sum + (typeof m?.content === 'string' ? m.content.length : 0),
+            0,
+          );
+          return total <= max;
+        },
+        defaultMessage(args: ValidationArguments) {
+          return `${args.property} must not exceed ${args.constraints[0]} characters in total`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,43 @@
+/** End of the last complete sentence or line in text, or 0 when there is none. */
+function lastSentenceEnd(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(/[.!?…]+["'”’)\]]*\s+|\n+/g)) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Holds streamed reply text back until the reply guardrails pass on it.
+ * Complete sentences are released once everything released so far, plus
+ * them, is clean; from the first failure on nothing more is released, and the
+ * caller replaces the streamed text with the checked reply.
+ */
+export class GuardedStream {
+  private held = '';
+  private released = '';
+  private failed = false;
+
+  constructor(private readonly isClean: (text: string) => boolean) {}
+
+  push(chunk: string): string {
+    this.held += chunk;
+    return this.release(lastSentenceEnd(this.held));
+  }
+
+  flush(): string {
+    return this.release(this.held.length);
+  }
+
+  private release(end: number): string {
+    if (this.failed || end === 0) return '';
+    const next = this.held.slice(0, end);
+    if (!this.isClean(this.released + next)) {
+      this.failed = true;
+      return '';
+    }
+    this.released += next;
+    this.held = this.held.slice(end);
+    return next;
+  }
+}
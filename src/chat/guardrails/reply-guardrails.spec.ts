@@ -0,0 +1,95 @@
+import { OTA_SYSTEM_PROMPT } from '../ota-system-prompt';
+import { GuardrailInput, checkReply } from './reply-guardrails';
+
+const input = (overrides: Partial<GuardrailInput> = {}): GuardrailInput => ({
+  evidence: ['Can you check booking qx7k2m? Flight UA2402 tomorrow.'],
+  toolResults: [],
+  competitors: ['SkyCheap'],
+  offTopicTerms: ['bitcoin'],
+  ...overrides,
+});
+
+describe('checkReply', () => {
+  it('accepts references and flight numbers from the conversation', () => {
+    expect(
+      checkReply(
+        'Booking QX7K2M is confirmed and UA2402 departs at 09:15.',
+        input(),
+      ),
+    ).toEqual([]);
+  });
+
+  it('flags invented references and ticket numbers', () => {
+    expect(
+      checkReply(
+        'Your new booking is ZK81PQ, e-ticket 075-2345678901.',
+        input(),
+      ),
+    ).toEqual([
+      { rule: 'fabricated_reference', detail: 'ZK81PQ' },
+      { rule: 'fabricated_reference', detail: '075-2345678901' },
+    ]);
+  });
+
+  it('does not take aircraft types for references', () => {
+    expect(
+      checkReply(
+        'UA2402 is operated by a 737MAX today, and tomorrow by an A321LR.',
+        input(),
+      ),
+    ).toEqual([]);
+    expect(checkReply('Your reference is 737MXQ.', input())).toEqual([
+      { rule: 'fabricated_reference', detail: '737MXQ' },
+    ]);
+  });
+
+  it('flags claimed actions, competitors and off-topic subjects', () => {
+    const rules = (reply: string) =>
+      checkReply(reply, input()).map((v) => v.rule);
+
+    expect(rules("I've cancelled your booking.")).toEqual(['claimed_action']);
+    expect(rules('Hemos reembolsado el importe.')).toEqual(['claimed_action']);
+    expect(rules('Your refund has been processed.')).toEqual([
+      'claimed_action',
+    ]);
+    expect(rules('Your flight has been cancelled by the airline.')).toEqual([]);
+    expect(rules('SkyCheap has lower fares.')).toEqual(['off_topic']);
+    expect(rules('You could pay with Bitcoin.')).toEqual(['off_topic']);
+  });
+
+  it('accepts actions that the tool results report', () => {
+    const toolResults = [
+      'Booking QX7K2M: status cancelled, refund processed on 2026-05-02.',
+    ];
+    const rules = (reply: string) =>
+      checkReply(reply, input({ toolResults })).map((v) => v.rule);
+
+    expect(rules('Your refund was processed on 2 May.')).toEqual([]);
+    expect(rules('Hemos cancelado la reserva QX7K2M.')).toEqual([]);
+    expect(rules('Your refund was processed and I rebooked you.')).toEqual([
+      'claimed_action',
+    ]);
+    expect(rules('Your name change was approved.')).toEqual(['claimed_action']);
+    expect(
+      checkReply('Your refund was processed.', {
+        ...input(),
+        evidence: [...toolResults],
+      }),
+    ).toEqual([
+      { rule: 'claimed_action', detail: 'Your refund was processed' },
+    ]);
+  });
+
+  it('flags leaked instructions and tool messages', () => {
+    const sentence = OTA_SYSTEM_PROMPT.split('\n').find((l) =>
+      l.includes('Never invent'),
+    );
+
+    expect(checkReply(`My rules say: ${sentence}`, input())).toEqual([
+      { rule: 'prompt_leak', detail: expect.stringContaining('never invent') },
+    ]);
+    expect(
+      checkReply('TOOL_RESULT flight_status: on time', input())[0].rule,
+    ).toBe('prompt_leak');
+  });
+});
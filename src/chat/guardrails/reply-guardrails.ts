@@ -0,0 +1,163 @@
+import {
+  NATIVE_TOOL_INSTRUCTIONS,
+  OTA_SYSTEM_PROMPT,
+} from '../ota-system-prompt';
+import {
+  escapeRegExp,
+  looksLikeBookingReference,
+  wordPattern,
+} from '../../common/text-patterns';
+
+export type GuardrailRule =
+  | 'fabricated_reference'
+  | 'claimed_action'
+  | 'off_topic'
+  | 'prompt_leak';
+
+export interface GuardrailViolation {
+  rule: GuardrailRule;
+  /** The offending text, for the review log. */
+  detail: string;
+}
+
+export interface GuardrailInput {
+  /** Everything the reply may legitimately quote: the conversation, tool results, the signed-in booking. */
+  evidence: string[];
+  /** The turn's tool results; the only thing that can back a claimed action. */
+  toolResults: string[];
+  /** Competitor brands the reply must not mention or recommend. */
+  competitors: string[];
+  /** Subjects outside the travel help center. */
+  offTopicTerms: string[];
+}
+
+/** What a turn gives the checks to compare a reply against. */
+export type GuardrailEvidence = Pick<
+  GuardrailInput,
+  'evidence' | 'toolResults'
+>;
+
+/**
+ * Booking references (QX7K2M), e-ticket numbers (075-2345678901) and support
+ * tickets. Flight numbers and aircraft types (UA2402, 737MAX) are not
+ * references.
+ */
+const REFERENCE_PATTERNS: Array<[RegExp, (value: string) => boolean]> = [
+  [/\b[A-Z0-9]{6}\b/g, looksLikeBookingReference],
+  [/\b\d{3}-?\d{10}\b/g, () => true],
+  [/\bESC-[0-9A-F]{8}\b/gi, () => true],
+];
+
+/**
+ * "I've cancelled your booking": the assistant cannot perform account actions.
+ * The captured words (the action, and what it was done to) are what a tool
+ * result must mention for the claim to be a report rather than an invention.
+ */
+const CLAIMED_ACTION = [
+  wordPattern(
+    [
+      "(?:i|we)(?: have|'ve)?(?: now| just| already| successfully| gone ahead and)? (cancell?ed|refunded|rebooked|changed|modified|upgraded|booked|issued|reissued|processed)",
+      '(?:your|the) (refund|cancellation|rebooking|booking change|name change) (?:has been|was|is now) (processed|issued|completed|confirmed|approved)',
+    ],
+    'giu',
+  ),
+  wordPattern(
+    [
+      '(?:he|hemos|ya he|ya hemos) (cancelado|reembolsado|cambiado|modificado|reservado|emitido|procesado)',
+      "(?:j'ai|nous avons) (?:bien )?(annulé|remboursé|modifié|changé|réservé|émis|traité)",
+      '(?:ich habe|wir haben) (?:[\\p{L}]+ ){0,4}(storniert|erstattet|umgebucht|geändert|gebucht)',
+    ],
+    'giu',
+  ),
+];
+
+/** Lowercase without accents, so "Cancelado" and "cancelled" share a stem. */
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * True when a tool result mentions every captured word of the claim (by its
+ * first five letters, so "refunded" matches "refund" and "cancelado" matches
+ * "cancelled"): the reply is passing on what the tool reported.
+ */
+function supportedByTools(
+  claim: RegExpMatchArray,
+  toolResults: string,
+): boolean {
+  return claim
+    .slice(1)
+    .filter((word): word is string => Boolean(word))
+    .map((word) => fold(word).split(' ')[0].slice(0, 5))
+    .every((stem) =>
+      new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(stem)}`, 'u').test(
+        toolResults,
+      ),
+    );
+}
+
+/** Markers of the tool contract that must never reach the customer. */
+const PROMPT_MARKERS = ['TOOL_RESULT', 'You have access to live data tools'];
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** Instruction sentences long enough that quoting one verbatim means the prompt leaked. */
+const PROMPT_SENTENCES = [OTA_SYSTEM_PROMPT, NATIVE_TOOL_INSTRUCTIONS]
+  .flatMap((prompt) => prompt.split(/\n|(?<=\.)\s+/))
+  .map((line) => normalize(line.replace(/^-\s*/, '')))
+  .filter((line) => line.length >= 40);
+
+function fabricatedReferences(reply: string, evidence: string): string[] {
+  const found = new Set<string>();
+  for (const [pattern, accept] of REFERENCE_PATTERNS) {
+    for (const [match] of reply.matchAll(pattern)) {
+      const bare = match.replace(/-/g, '').toUpperCase();
+      if (accept(match) && !evidence.includes(bare)) found.add(match);
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Checks a draft reply against the rules the system prompt states but cannot
+ * enforce. Returns every violation found; an empty list means the reply can
+ * be sent.
+ */
+export function checkReply(
+  reply: string,
+  input: GuardrailInput,
+): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+  // Compared without dashes and case so "075-2345678901" matches "0752345678901".
+  const evidence = input.evidence.join('\n').replace(/-/g, '').toUpperCase();
+
+  for (const reference of fabricatedReferences(reply, evidence)) {
+    violations.push({ rule: 'fabricated_reference', detail: reference });
+  }
+
+  const toolResults = fold(input.toolResults.join('\n'));
+  for (const pattern of CLAIMED_ACTION) {
+    const claim = [...reply.matchAll(pattern)].find(
+      (match) => !supportedByTools(match, toolResults),
+    );
+    if (claim) violations.push({ rule: 'claimed_action', detail: claim[0] });
+  }
+
+  const offTopic = [...input.competitors, ...input.offTopicTerms]
+    .map((term) => term.trim())
+    .filter(Boolean);
+  if (offTopic.length > 0) {
+    const term = reply.match(wordPattern(offTopic.map(escapeRegExp)))?.[0];
+    if (term) violations.push({ rule: 'off_topic', detail: term });
+  }
+
+  const normalized = normalize(reply);
+  const leaked =
+    PROMPT_MARKERS.find((marker) => reply.includes(marker)) ??
+    PROMPT_SENTENCES.find((sentence) => normalized.includes(sentence));
+  if (leaked) violations.push({ rule: 'prompt_leak', detail: leaked });
+
+  return violations;
+}
@@ -1,77 +1,145 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
-import { firstValueFrom } from 'rxjs';
+import { CacheService } from '../../cache/cache.service';
+import { AirportDirectory } from '../../airports/airport-directory.service';
+import {
+  ChatLocale,
+  DEFAULT_LOCALE,
+  formatDateTime,
+} from '../locale/chat-locale';
 import type { FlightStatusParams } from '../tools/tool-action.types';
+import { IntegrationHttpClient } from './integration-http.client';
+
+interface AviationstackAirportLeg {
+  airport?: string;
+  iata?: string;
+  icao?: string;
+  scheduled?: string;
+}
+
+interface AviationstackFlightsResponse {
+  data?: Array<{
+    flight_status?: string;
+    departure?: AviationstackAirportLeg;
+    arrival?: AviationstackAirportLeg;
+    airline?: { name?: string };
+  }>;
+  error?: { message?: string };
+}
+
+/**
+ * 'YYYY-MM-DDTHH:mm' of a scheduled time. Aviationstack reports the airport's
+ * local wall-clock time but labels it +00:00, so the offset is dropped.
+ */
+function wallClockOf(value: string | undefined): string | undefined {
+  return value?.match(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/)?.[0];
+}
+
+/**
+ * Scheduled time in the customer's date/time format. The wall-clock time is
+ * kept exactly as Aviationstack reports it (no time-zone conversion).
+ */
+function formatScheduled(
+  value: string | undefined,
+  locale: ChatLocale,
+): string {
+  const wallClock = wallClockOf(value);
+  if (!wallClock) return value ?? '';
+  return formatDateTime(new Date(`${wallClock}:00Z`), locale, 'UTC');
+}
 
 @Injectable()
 export class AviationstackService {
   private readonly logger = new Logger(AviationstackService.name);
   private readonly aviationKey: string;
   private readonly aviationBaseUrl: string;
+  private readonly flightStatusTtlMs: number;
 
   constructor(
-    private readonly http: HttpService,
+    private readonly http: IntegrationHttpClient,
     private readonly config: ConfigService,
+    private readonly cache: CacheService,
+    private readonly airports: AirportDirectory,
   ) {
     this.aviationKey = this.config.get<string>('AVIATIONSTACK_API_KEY') ?? '';
     this.aviationBaseUrl =
       this.config.get<string>('AVIATIONSTACK_API_BASE_URL') ??
       'https://api.aviationstack.com/v1';
+    // Short-lived: statuses change, but repeat questions about one flight are common.
+    this.flightStatusTtlMs = Number(
+      this.config.get<string>('CACHE_TTL_FLIGHT_STATUS_MS') ?? 2 * 60 * 1000,
+    );
   }
 
   /**
    * Fetch flight status from aviationstack. flight_number should be IATA (e.g. UA2402).
-   * When flight data is found, arrivalAirport is set for use by weather_at_flight_arrival.
+   * When flight data is found, arrivalAirport, arrivalIata and arrivalScheduled (local
+   * time at the arrival airport, without offset) are set for use by
+   * weather_at_flight_arrival (which forecasts for the scheduled arrival time).
+   * Scheduled times in the summary are formatted for the customer's locale.
+   * apiKey overrides AVIATIONSTACK_API_KEY for tenants with their own account;
+   * replayed fixtures are keyed without it, so replay mode needs none.
    */
-  async getFlightStatus(params: FlightStatusParams): Promise<{
+  async getFlightStatus(
+    params: FlightStatusParams,
+    locale: ChatLocale = DEFAULT_LOCALE,
+    apiKey: string = this.aviationKey,
+  ): Promise<{
     summary: string;
     raw?: unknown;
     arrivalAirport?: string;
+    arrivalIata?: string;
+    arrivalScheduled?: string;
   }> {
     const { flight_number, date } = params;
     if (!flight_number?.trim()) {
       return { summary: 'No flight number provided.' };
     }
-    if (!this.aviationKey) {
+    if (!apiKey && !this.http.replaying) {
       this.logger.warn('AVIATIONSTACK_API_KEY not set');
-      return { summary: 'Flight data is not configured. Please try again later.' };
+      return {
+        summary: 'Flight data is not configured. Please try again later.',
+      };
     }
 
     const flightIata = flight_number.trim().toUpperCase();
-    const url = `${this.aviationBaseUrl}/flights`;
     const searchParams = new URLSearchParams({
-      access_key: this.aviationKey,
+      access_key: apiKey,
       flight_iata: flightIata,
     });
     // Free tier does NOT support flight_date - it returns 403. Only add date on paid plans.
-    const skipDate = this.config.get<string>('AVIATIONSTACK_SKIP_DATE') !== 'false';
+    const skipDate =
+      this.config.get<string>('AVIATIONSTACK_SKIP_DATE') !== 'false';
     if (date && !skipDate) searchParams.set('flight_date', date);
 
     try {
-      const res = await firstValueFrom(
-        this.http.get<{
-          data?: Array<{
-            flight_status?: string;
-            departure?: { airport?: string; iata?: string; scheduled?: string };
-            arrival?: { airport?: string; iata?: string; scheduled?: string };
-            airline?: { name?: string };
-          }>;
-          error?: { message?: string };
-        }>(`${url}?${searchParams.toString()}`),
+      // Keyed without the access key; the date only matters when it is sent.
+      const cacheKey = `aviationstack:flights:${flightIata}:${searchParams.get('flight_date') ?? ''}`;
+      const body = await this.cache.wrap(
+        cacheKey,
+        this.flightStatusTtlMs,
+        () =>
+          this.http.get<AviationstackFlightsResponse>(
+            'aviationstack',
+            this.aviationBaseUrl,
+            '/flights',
+            searchParams,
+          ),
+        // Never cache quota/auth errors: the next request should retry.
+        { shouldCache: (data) => !data?.error },
       );
 
-      const err = res.data?.error;
+      const err = body?.error;
       if (err?.message) {
         this.logger.warn('Aviationstack API error', err.message);
-        return { summary: `Flight API error: ${err.message}`, raw: res.data };
+        return { summary: `Flight API error: ${err.message}`, raw: body };
       }
 
-      const data = res.data?.data;
+      const data = body?.data;
       if (!Array.isArray(data) || data.length === 0) {
         return {
           summary: `No flight data found for ${flightIata}${date ? ` on ${date}` : ''}.`,
-          raw: res.data,
+          raw: body,
         };
       }
 
@@ -80,20 +148,28 @@ export class AviationstackService {
       const dep = first.departure;
       const arr = first.arrival;
       const airline = first.airline?.name ?? 'Unknown airline';
-      const arrivalAirport = arr?.airport?.trim() || undefined;
+      const arrivalInfo = this.findAirport(arr);
+      const arrivalAirport =
+        arr?.airport?.trim() || arrivalInfo?.name || undefined;
       const summary = [
         `Flight ${flightIata} (${airline}): ${status}.`,
         dep?.airport
-          ? `Departure: ${dep.airport} (${dep.iata ?? ''}) ${dep.scheduled ?? ''}.`
+          ? `Departure: ${this.describeLeg(dep)} ${formatScheduled(dep.scheduled, locale)}.`
           : '',
         arr?.airport
-          ? `Arrival: ${arr.airport} (${arr.iata ?? ''}) ${arr.scheduled ?? ''}.`
+          ? `Arrival: ${this.describeLeg(arr)} ${formatScheduled(arr.scheduled, locale)}.`
           : '',
       ]
         .filter(Boolean)
         .join(' ');
 
-      return { summary, raw: first, arrivalAirport };
+      return {
+        summary,
+        raw: first,
+        arrivalAirport,
+        arrivalIata: arrivalInfo?.iata ?? (arr?.iata || undefined),
+        arrivalScheduled: wallClockOf(arr?.scheduled),
+      };
     } catch (e) {
       this.logger.error('getFlightStatus failed', e as Error);
       return {
@@ -102,5 +178,17 @@ export class AviationstackService {
       };
     }
   }
-}
 
+  private findAirport(leg: AviationstackAirportLeg | undefined) {
+    return (
+      this.airports.findByIata(leg?.iata) ?? this.airports.findByIcao(leg?.icao)
+    );
+  }
+
+  /** "Dublin (DUB, Dublin, Ireland)": city and country come from the airport dataset. */
+  private describeLeg(leg: AviationstackAirportLeg): string {
+    const airport = this.findAirport(leg);
+    const place = airport ? `, ${airport.city}, ${airport.country}` : '';
+    return `${leg.airport} (${leg.iata ?? ''}${place})`;
+  }
+}
@@ -0,0 +1,79 @@
+import { createServer } from 'http';
+import { parseArgs } from 'util';
+import {
+  DEFAULT_INTEGRATION_FIXTURES_DIR,
+  INTEGRATION_SERVICES,
+  IntegrationService,
+  fixtureKey,
+  readFixture,
+} from './integration-fixtures';
+
+const USAGE = `Usage: pnpm fixtures:serve [options]
+  --port <port>  Port to listen on (default 4010)
+  --dir <path>   Recorded fixtures (default INTEGRATION_FIXTURES_DIR or ${DEFAULT_INTEGRATION_FIXTURES_DIR})
+
+Point the integrations at it:
+  AVIATIONSTACK_API_BASE_URL=http://localhost:4010/aviationstack
+  OPEN_METEO_BASE_URL=http://localhost:4010/open-meteo
+  OPEN_METEO_GEOCODING_BASE_URL=http://localhost:4010/geocoding`;
+
+/**
+ * Local stand-in for Aviationstack and Open-Meteo: serves the responses saved
+ * by INTEGRATION_FIXTURES_MODE=record under /<service>/<path>, looked up by the
+ * same normalised key as replay mode. Unknown requests get a 404.
+ */
+function main(): void {
+  const { values: args } = parseArgs({
+    options: {
+      port: { type: 'string', default: '4010' },
+      dir: {
+        type: 'string',
+        default:
+          process.env.INTEGRATION_FIXTURES_DIR ??
+          DEFAULT_INTEGRATION_FIXTURES_DIR,
+      },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [service, ...path] = url.pathname.split('/').filter(Boolean);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (
+      req.method !== 'GET' ||
+      !INTEGRATION_SERVICES.includes(service as IntegrationService)
+    ) {
+      send(404, { error: { message: `Unknown route ${url.pathname}` } });
+      return;
+    }
+    const key = fixtureKey(
+      service as IntegrationService,
+      path.join('/'),
+      url.searchParams,
+    );
+    readFixture(args.dir, key).then(
+      (fixture) => {
+        console.log(`${fixture ? 200 : 404} ${key}`);
+        if (fixture) send(200, fixture.response);
+        else
+          send(404, { error: { message: `No recorded response for ${key}` } });
+      },
+      (e) => send(500, { error: { message: (e as Error).message } }),
+    );
+  });
+
+  server.listen(Number(args.port), () =>
+    console.log(`Serving ${args.dir} on http://localhost:${args.port}`),
+  );
+}
+
+main();
@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/** External APIs that can be recorded and replayed; also the stub server's path prefixes. */
+export const INTEGRATION_SERVICES = [
+  'aviationstack',
+  'open-meteo',
+  'geocoding',
+] as const;
+export type IntegrationService = (typeof INTEGRATION_SERVICES)[number];
+
+/** off: call the API; record: call it and save responses; replay: serve saved responses only. */
+export const INTEGRATION_FIXTURE_MODES = ['off', 'record', 'replay'] as const;
+export type IntegrationFixtureMode = (typeof INTEGRATION_FIXTURE_MODES)[number];
+
+export const DEFAULT_INTEGRATION_FIXTURES_DIR = 'fixtures/integrations';
+
+/** Query parameters that carry credentials; never part of a key or a recording. */
+const SECRET_PARAMS = new Set(['access_key', 'apikey', 'api_key']);
+
+export interface IntegrationFixture {
+  key: string;
+  recordedAt: string;
+  response: unknown;
+}
+
+/**
+ * Request key independent of host, credentials and parameter order, so a
+ * recording made against the real API replays behind any base URL:
+ * "aviationstack /flights?flight_iata=UA2402".
+ */
+export function fixtureKey(
+  service: IntegrationService,
+  path: string,
+  params: URLSearchParams,
+): string {
+  const query = [...params.entries()]
+    .filter(([name]) => !SECRET_PARAMS.has(name.toLowerCase()))
+    .map(([name, value]) => [name, value.trim()])
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv))
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join('&');
+  const normalizedPath = `/${path.split('/').filter(Boolean).join('/')}`;
+  return `${service} ${normalizedPath}${query ? `?${query}` : ''}`;
+}
+
+/** <dir>/<service>/<endpoint>-<hash>.json; the endpoint keeps the folder browsable. */
+export function fixturePath(dir: string, key: string): string {
+  const [service, request] = key.split(' ');
+  const endpoint = request.split('?')[0].split('/').filter(Boolean).join('-');
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return join(dir, service, `${endpoint || 'root'}-${hash}.json`);
+}
+
+/** The recorded fixture for key, or null when none was recorded. */
+export async function readFixture(
+  dir: string,
+  key: string,
+): Promise<IntegrationFixture | null> {
+  try {
+    return JSON.parse(
+      await readFile(fixturePath(dir, key), 'utf8'),
+    ) as IntegrationFixture;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+export async function writeFixture(
+  dir: string,
+  key: string,
+  response: unknown,
+): Promise<void> {
+  const path = fixturePath(dir, key);
+  await mkdir(join(dir, key.split(' ')[0]), { recursive: true });
+  const fixture: IntegrationFixture = {
+    key,
+    recordedAt: new Date().toISOString(),
+    response,
+  };
+  await writeFile(path, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+}
@@ -0,0 +1,126 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { of } from 'rxjs';
+import { AirportDirectory } from '../../airports/airport-directory.service';
+import { CacheService } from '../../cache/cache.service';
+import { InMemoryCacheStore } from '../../cache/in-memory-cache.store';
+import { resolveLocale } from '../locale/chat-locale';
+import { AviationstackService } from './aviationstack.service';
+import { fixtureKey, readFixture } from './integration-fixtures';
+import { IntegrationHttpClient } from './integration-http.client';
+import { OpenMeteoService } from './open-meteo.service';
+
+const configOf = (env: Record<string, string>) =>
+  ({ get: (key: string) => env[key] }) as ConfigService;
+
+describe('IntegrationHttpClient', () => {
+  it('keys requests without credentials, host or parameter order', () => {
+    const a = fixtureKey(
+      'aviationstack',
+      '/flights',
+      new URLSearchParams({ access_key: 'secret', flight_iata: 'UA2402' }),
+    );
+    const b = fixtureKey(
+      'aviationstack',
+      'flights/',
+      new URLSearchParams({ flight_iata: ' UA2402 ', access_key: 'other' }),
+    );
+
+    expect(a).toBe('aviationstack /flights?flight_iata=UA2402');
+    expect(b).toBe(a);
+  });
+
+  it('records responses and replays them without the network', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'integration-fixtures-'));
+    const http = { get: jest.fn(() => of({ data: { data: [] } })) };
+    const params = new URLSearchParams({ access_key: 'k', flight_iata: 'X1' });
+    try {
+      const recorder = new IntegrationHttpClient(
+        http as unknown as HttpService,
+        configOf({
+          INTEGRATION_FIXTURES_MODE: 'record',
+          INTEGRATION_FIXTURES_DIR: dir,
+        }),
+      );
+      await recorder.get('aviationstack', 'http://api', '/flights', params);
+
+      const replayer = new IntegrationHttpClient(
+        http as unknown as HttpService,
+        configOf({
+          INTEGRATION_FIXTURES_MODE: 'replay',
+          INTEGRATION_FIXTURES_DIR: dir,
+        }),
+      );
+      const replayed = await replayer.get(
+        'aviationstack',
+        'http://elsewhere',
+        '/flights',
+        params,
+      );
+
+      expect(http.get).toHaveBeenCalledTimes(1);
+      expect(http.get).toHaveBeenCalledWith(
+        'http://api/flights?access_key=k&flight_iata=X1',
+      );
+      expect(replayed).toEqual({ data: [] });
+      const saved = await readFixture(
+        dir,
+        'aviationstack /flights?flight_iata=X1',
+      );
+      expect(JSON.stringify(saved)).not.toContain('access_key');
+      await expect(
+        replayer.get(
+          'aviationstack',
+          'http://api',
+          '/flights',
+          new URLSearchParams(),
+        ),
+      ).rejects.toThrow('No recorded response for aviationstack /flights');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('replaying fixtures/integrations', () => {
+    // No AVIATIONSTACK_API_KEY: recordings are keyed without it.
+    const config = configOf({ INTEGRATION_FIXTURES_MODE: 'replay' });
+    const http = new IntegrationHttpClient({} as HttpService, config);
+    const cache = new CacheService(new InMemoryCacheStore(config));
+    const airports = new AirportDirectory(config);
+    const locale = resolveLocale('en-GB');
+
+    it('serves Aviationstack flight status', async () => {
+      const aviationstack = new AviationstackService(
+        http,
+        config,
+        cache,
+        airports,
+      );
+
+      const { summary, arrivalIata } = await aviationstack.getFlightStatus(
+        { flight_number: 'ua2402' },
+        locale,
+      );
+
+      expect(summary).toContain('Flight UA2402 (United Airlines): scheduled.');
+      expect(arrivalIata).toBe('EWR');
+    });
+
+    it('serves Open-Meteo geocoding and current weather', async () => {
+      const openMeteo = new OpenMeteoService(http, config, cache, airports);
+
+      const { summary } = await openMeteo.getWeatherForPlace(
+        'Barcelona',
+        undefined,
+        locale,
+      );
+
+      expect(summary).toBe(
+        'current conditions: 22.4°C, mainly clear, 61% humidity, wind 9.8 km/h',
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import {
+  DEFAULT_INTEGRATION_FIXTURES_DIR,
+  INTEGRATION_FIXTURE_MODES,
+  IntegrationFixtureMode,
+  IntegrationService,
+  fixtureKey,
+  readFixture,
+  writeFixture,
+} from './integration-fixtures';
+
+/**
+ * GETs for the Aviationstack and Open-Meteo integrations, with the fixture
+ * mode from INTEGRATION_FIXTURES_MODE: "record" saves every response under
+ * INTEGRATION_FIXTURES_DIR, "replay" answers from those files without any
+ * network access (a missing recording fails like a network error would).
+ */
+@Injectable()
+export class IntegrationHttpClient {
+  private readonly logger = new Logger(IntegrationHttpClient.name);
+  private readonly mode: IntegrationFixtureMode;
+  private readonly dir: string;
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly config: ConfigService,
+  ) {
+    const mode = (this.config.get<string>('INTEGRATION_FIXTURES_MODE') ??
+      'off') as IntegrationFixtureMode;
+    if (!INTEGRATION_FIXTURE_MODES.includes(mode)) {
+      throw new Error(
+        `INTEGRATION_FIXTURES_MODE must be one of ${INTEGRATION_FIXTURE_MODES.join(', ')}.`,
+      );
+    }
+    this.mode = mode;
+    this.dir =
+      this.config.get<string>('INTEGRATION_FIXTURES_DIR') ??
+      DEFAULT_INTEGRATION_FIXTURES_DIR;
+  }
+
+  /** True in replay mode, where no request leaves the process (no API key needed). */
+  get replaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  async get<T>(
+    service: IntegrationService,
+    baseUrl: string,
+    path: string,
+    params: URLSearchParams,
+  ): Promise<T> {
+    const key = fixtureKey(service, path, params);
+    if (this.mode === 'replay') {
+      const fixture = await readFixture(this.dir, key);
+      if (!fixture) throw new Error(`No recorded response for ${key}`);
+      return fixture.response as T;
+    }
+
+    const res = await firstValueFrom(
+      this.http.get<T>(`${baseUrl}${path}?${params.toString()}`),
+    );
+    if (this.mode === 'record') {
+      await writeFixture(this.dir, key, res.data).catch((e) =>
+        this.logger.warn(`Failed to record ${key}: ${(e as Error).message}`),
+      );
+    }
+    return res.data;
+  }
+}
@@ -0,0 +1,154 @@
+import { ConfigService } from '@nestjs/config';
+import { AirportDirectory } from '../../airports/airport-directory.service';
+import { CacheService } from '../../cache/cache.service';
+import { InMemoryCacheStore } from '../../cache/in-memory-cache.store';
+import { resolveLocale } from '../locale/chat-locale';
+import { IntegrationHttpClient } from './integration-http.client';
+import { OpenMeteoService } from './open-meteo.service';
+
+const HOURLY = {
+  hourly: {
+    time: ['2026-01-11T09:00'],
+    temperature_2m: [11.2],
+    precipitation_probability: [40],
+    weather_code: [61],
+    wind_speed_10m: [14.5],
+  },
+};
+
+const CURRENT = {
+  current: {
+    temperature_2m: 9.1,
+    relative_humidity_2m: 80,
+    weather_code: 3,
+    wind_speed_10m: 12,
+  },
+};
+
+/** Replies like Open-Meteo; forecast requests are kept for inspection. */
+function createService() {
+  const forecasts: Record<string, string>[] = [];
+  const http = {
+    get: jest.fn(
+      async (service: string, _baseUrl: string, _path: string, params) => {
+        const query = Object.fromEntries(params as URLSearchParams);
+        if (service === 'geocoding') {
+          return {
+            results: [
+              {
+                latitude: 41.38879,
+                longitude: 2.15899,
+                // Only Barcelona comes with its zone.
+                ...(query.name === 'Barcelona'
+                  ? { timezone: 'Europe/Madrid' }
+                  : {}),
+              },
+            ],
+          };
+        }
+        if (query.hourly) {
+          forecasts.push(query);
+          return HOURLY;
+        }
+        return CURRENT;
+      },
+    ),
+  };
+  const config = { get: () => undefined } as unknown as ConfigService;
+  const service = new OpenMeteoService(
+    http as unknown as IntegrationHttpClient,
+    config,
+    new CacheService(new InMemoryCacheStore(config)),
+    new AirportDirectory(config),
+  );
+  return { service, forecasts };
+}
+
+const locale = resolveLocale('en-GB');
+
+describe('OpenMeteoService', () => {
+  beforeEach(() => {
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(new Date('2026-01-10T12:00:00Z').getTime());
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("forecasts an Aviationstack arrival time on the airport's clock", async () => {
+    const { service, forecasts } = createService();
+
+    const { summary } = await service.getWeatherForAirport(
+      { iata: 'EWR', name: 'Newark Liberty International' },
+      '2026-01-11T09:15',
+      locale,
+    );
+
+    expect(forecasts).toEqual([
+      expect.objectContaining({
+        timezone: 'America/New_York',
+        start_hour: '2026-01-11T09:00',
+        end_hour: '2026-01-11T09:00',
+      }),
+    ]);
+    expect(summary).toBe(
+      'forecast for 11 Jan 2026, 09:00 local time (not current conditions): 11.2°C, slight rain, 40% chance of precipitation, wind 14.5 km/h',
+    );
+  });
+
+  it('reads a departure time as local at the origin and converts it for the destination', async () => {
+    const { service, forecasts } = createService();
+
+    await service.getRouteWeather(
+      {
+        origin_city: 'Barcelona',
+        destination_city: 'JFK',
+        departure_time: '2026-01-11T09:00',
+      },
+      locale,
+    );
+
+    expect(
+      forecasts.map(({ timezone, start_hour }) => ({ timezone, start_hour })),
+    ).toEqual([
+      { timezone: 'Europe/Madrid', start_hour: '2026-01-11T09:00' },
+      { timezone: 'America/New_York', start_hour: '2026-01-11T03:00' },
+    ]);
+  });
+
+  it('converts times with an offset to the place, or asks in UTC when its zone is unknown', async () => {
+    const { service, forecasts } = createService();
+
+    await service.getWeatherForPlace('Barcelona', '2026-01-11T08:00Z', locale);
+    const { summary } = await service.getWeatherForPlace(
+      'Vila Nova',
+      '2026-01-11T08:00:00+00:00',
+      locale,
+    );
+    await service.getWeatherForPlace('Vila Nova', '2026-01-11T10:30', locale);
+
+    expect(
+      forecasts.map(({ timezone, start_hour }) => ({ timezone, start_hour })),
+    ).toEqual([
+      { timezone: 'Europe/Madrid', start_hour: '2026-01-11T09:00' },
+      { timezone: 'UTC', start_hour: '2026-01-11T08:00' },
+      { timezone: 'auto', start_hour: '2026-01-11T10:00' },
+    ]);
+    expect(summary).toContain('forecast for 11 Jan 2026, 08:00 UTC');
+  });
+
+  it('falls back to current conditions outside the forecast window', async () => {
+    const { service, forecasts } = createService();
+
+    const { summary } = await service.getWeatherForAirport(
+      { iata: 'DUB' },
+      '2026-03-01T10:00',
+      locale,
+    );
+
+    expect(forecasts).toEqual([]);
+    expect(summary).toBe(
+      'no forecast available for 1 Mar 2026, 10:00 local time; current conditions: 9.1°C, overcast, 80% humidity, wind 12 km/h',
+    );
+  });
+});
@@ -1,43 +1,203 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
-import { firstValueFrom } from 'rxjs';
 import type { RouteWeatherParams } from '../tools/tool-action.types';
+import { CacheService } from '../../cache/cache.service';
+import { AirportDirectory } from '../../airports/airport-directory.service';
+import { describeWeatherCode } from './weather-codes';
+import {
+  ChatLocale,
+  DEFAULT_LOCALE,
+  formatDateTime,
+} from '../locale/chat-locale';
+import { IntegrationHttpClient } from './integration-http.client';
+import type { IntegrationService } from './integration-fixtures';
 
-const OPEN_METEO_GEOCODING_BASE = 'https://geocoding-api.open-meteo.com/v1';
+/** Open-Meteo serves hourly forecasts up to 16 days ahead. */
+const FORECAST_HORIZON_MS = 16 * 24 * 60 * 60 * 1000;
+
+/** Coordinates plus the IANA time zone, when the airport dataset or geocoding knows it. */
+interface Place {
+  lat: number;
+  lon: number;
+  tz?: string;
+}
+
+/**
+ * A requested time: a wall-clock time at the place ("tomorrow at 9am", or an
+ * Aviationstack schedule) or, when the string has an offset, an instant.
+ */
+type RequestedTime = { wallClock: string } | { instant: Date };
+
+/** The hour Open-Meteo is asked for: start_hour/end_hour in `timezone`. */
+interface ForecastHour {
+  hour: string;
+  timezone: string;
+  /** Approximate instant, for the forecast window check. */
+  instant: Date;
+  /** "15 Mar 2026, 09:00 local time" style label. */
+  label: string;
+}
+
+/**
+ * Parses an ISO date or datetime from the model or Aviationstack. Without an
+ * offset it is the local time at the place; a bare date means its midnight.
+ */
+function parseDateTime(value: string | undefined): RequestedTime | null {
+  const text = value?.trim();
+  if (!text) return null;
+  if (/(?:Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const instant = new Date(text);
+    return Number.isNaN(instant.getTime()) ? null : { instant };
+  }
+  const match = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}))?/);
+  const wallClock = match ? `${match[1]}T${match[2] ?? '00:00'}` : '';
+  return wallClock && !Number.isNaN(new Date(`${wallClock}:00Z`).getTime())
+    ? { wallClock }
+    : null;
+}
+
+/** 'YYYY-MM-DDTHH:mm' as shown by a clock in timeZone at the given instant. */
+function wallClockIn(date: Date, timeZone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value]),
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+/** The instant a clock in timeZone shows wallClock. */
+function instantOf(wallClock: string, timeZone: string): Date {
+  const asUtc = new Date(`${wallClock}:00Z`);
+  const offsetMs =
+    new Date(`${wallClockIn(asUtc, timeZone)}:00Z`).getTime() - asUtc.getTime();
+  return new Date(asUtc.getTime() - offsetMs);
+}
+
+/**
+ * Resolves the requested time to an hour at the place. Wall-clock times are
+ * asked for in the place's zone (Open-Meteo's timezone=auto when unknown);
+ * instants in the place's zone too, or in UTC when the zone is unknown.
+ */
+function forecastHour(
+  at: RequestedTime,
+  place: Place,
+  locale: ChatLocale,
+): ForecastHour {
+  let wallClock: string;
+  let instant: Date;
+  if ('wallClock' in at) {
+    wallClock = at.wallClock;
+    // Off by the UTC offset when the zone is unknown; fine for the window check.
+    instant = instantOf(wallClock, place.tz ?? 'UTC');
+  } else {
+    wallClock = wallClockIn(at.instant, place.tz ?? 'UTC');
+    instant = at.instant;
+  }
+  const hour = `${wallClock.slice(0, 13)}:00`;
+  const zoned = Boolean(place.tz) || 'wallClock' in at;
+  return {
+    hour,
+    timezone: place.tz ?? (zoned ? 'auto' : 'UTC'),
+    instant,
+    // The wall clock is formatted as is, like Aviationstack schedules.
+    label: `${formatDateTime(new Date(`${hour}Z`), locale)} ${zoned ? 'local time' : 'UTC'}`,
+  };
+}
+
+/** Open-Meteo unit parameters; the API converts, so no client-side maths. */
+function unitParams(locale: ChatLocale): Record<string, string> {
+  return locale.imperial
+    ? { temperature_unit: 'fahrenheit', wind_speed_unit: 'mph' }
+    : {};
+}
+
+function formatUnits(
+  locale: ChatLocale,
+  temp: number,
+  wind: number,
+): { temp: string; wind: string } {
+  return locale.imperial
+    ? { temp: `${temp}°F`, wind: `${wind} mph` }
+    : { temp: `${temp}°C`, wind: `${wind} km/h` };
+}
 
 @Injectable()
 export class OpenMeteoService {
   private readonly logger = new Logger(OpenMeteoService.name);
   private readonly openMeteoBaseUrl: string;
+  private readonly geocodingBaseUrl: string;
+  private readonly geocodingTtlMs: number;
+  private readonly weatherTtlMs: number;
 
   constructor(
-    private readonly http: HttpService,
+    private readonly http: IntegrationHttpClient,
     private readonly config: ConfigService,
+    private readonly cache: CacheService,
+    private readonly airports: AirportDirectory,
   ) {
     this.openMeteoBaseUrl =
       this.config.get<string>('OPEN_METEO_BASE_URL') ??
       'https://api.open-meteo.com/v1';
+    this.geocodingBaseUrl =
+      this.config.get<string>('OPEN_METEO_GEOCODING_BASE_URL') ??
+      'https://geocoding-api.open-meteo.com/v1';
+    // City coordinates do not move: cache geocoding essentially forever.
+    this.geocodingTtlMs = Number(
+      this.config.get<string>('CACHE_TTL_GEOCODING_MS') ??
+        30 * 24 * 60 * 60 * 1000,
+    );
+    this.weatherTtlMs = Number(
+      this.config.get<string>('CACHE_TTL_WEATHER_MS') ?? 15 * 60 * 1000,
+    );
+  }
+
+  /** GET through the cache, keyed by the full request URL (no API key involved). */
+  private getCached<T>(
+    service: IntegrationService,
+    path: string,
+    params: URLSearchParams,
+    ttlMs: number,
+  ): Promise<T> {
+    const baseUrl =
+      service === 'geocoding' ? this.geocodingBaseUrl : this.openMeteoBaseUrl;
+    return this.cache.wrap(
+      `open-meteo:${baseUrl}${path}?${params.toString()}`,
+      ttlMs,
+      () => this.http.get<T>(service, baseUrl, path, params),
+    );
   }
 
   /**
    * Resolve city name to [lat, lon] using Open-Meteo geocoding API.
    */
-  private async geocodeCity(cityName: string): Promise<[number, number] | null> {
+  private async geocodeCity(cityName: string): Promise<Place | null> {
     const name = cityName?.trim();
     if (!name) return null;
-    const url = `${OPEN_METEO_GEOCODING_BASE}/search?name=${encodeURIComponent(
-      name,
-    )}&count=1`;
+    const params = new URLSearchParams({ name, count: '1' });
     try {
-      const res = await firstValueFrom(
-        this.http.get<{
-          results?: Array<{ latitude?: number; longitude?: number }>;
-        }>(url),
-      );
-      const first = res.data?.results?.[0];
+      const data = await this.getCached<{
+        results?: Array<{
+          latitude?: number;
+          longitude?: number;
+          timezone?: string;
+        }>;
+      }>('geocoding', '/search', params, this.geocodingTtlMs);
+      const first = data?.results?.[0];
       if (first?.latitude != null && first?.longitude != null) {
-        return [first.latitude, first.longitude];
+        return {
+          lat: first.latitude,
+          lon: first.longitude,
+          tz: first.timezone || undefined,
+        };
       }
       return null;
     } catch (e) {
@@ -46,40 +206,124 @@ export class OpenMeteoService {
     }
   }
 
-  private async fetchOpenMeteoCurrent(lat: number, lon: number): Promise<string> {
-    const url = `${this.openMeteoBaseUrl}/forecast`;
+  /**
+   * Coordinates for a city name, or for an airport when given an IATA/ICAO code
+   * ("JFK", "EIDW") that is in the bundled airport dataset.
+   */
+  private async resolvePlace(place: string): Promise<Place | null> {
+    const airport = /^[A-Z0-9]{3,4}$/.test(place.trim())
+      ? this.airports.findByCode(place)
+      : null;
+    if (airport) return { lat: airport.lat, lon: airport.lon, tz: airport.tz };
+    return this.geocodeCity(place);
+  }
+
+  private async fetchOpenMeteoCurrent(
+    place: Place,
+    locale: ChatLocale,
+  ): Promise<string> {
     const params = new URLSearchParams({
-      latitude: String(lat),
-      longitude: String(lon),
-      current: 'temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m',
+      latitude: String(place.lat),
+      longitude: String(place.lon),
+      current:
+        'temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m',
+      ...unitParams(locale),
     });
 
-    const res = await firstValueFrom(
-      this.http.get<{
-        current?: {
-          temperature_2m?: number;
-          relative_humidity_2m?: number;
-          wind_speed_10m?: number;
-          weather_code?: number;
-        };
-      }>(`${url}?${params.toString()}`),
-    );
+    const data = await this.getCached<{
+      current?: {
+        temperature_2m?: number;
+        relative_humidity_2m?: number;
+        wind_speed_10m?: number;
+        weather_code?: number;
+      };
+    }>('open-meteo', '/forecast', params, this.weatherTtlMs);
 
-    const c = res.data?.current;
+    const c = data?.current;
     if (!c) return 'No current weather data';
-    const temp = c.temperature_2m ?? 0;
+    const { temp, wind } = formatUnits(
+      locale,
+      c.temperature_2m ?? 0,
+      c.wind_speed_10m ?? 0,
+    );
     const humidity = c.relative_humidity_2m ?? 0;
-    const wind = c.wind_speed_10m ?? 0;
-    return `${temp}°C, ${humidity}% humidity, wind ${wind} km/h`;
+    return `current conditions: ${temp}, ${describeWeatherCode(c.weather_code)}, ${humidity}% humidity, wind ${wind}`;
+  }
+
+  /**
+   * Hourly forecast for the given hour. Returns null when Open-Meteo has no
+   * data for that hour.
+   */
+  private async fetchOpenMeteoForecast(
+    place: Place,
+    at: ForecastHour,
+    locale: ChatLocale,
+  ): Promise<string | null> {
+    const params = new URLSearchParams({
+      latitude: String(place.lat),
+      longitude: String(place.lon),
+      hourly:
+        'temperature_2m,precipitation_probability,weather_code,wind_speed_10m',
+      timezone: at.timezone,
+      start_hour: at.hour,
+      end_hour: at.hour,
+      ...unitParams(locale),
+    });
+
+    const data = await this.getCached<{
+      hourly?: {
+        time?: string[];
+        temperature_2m?: number[];
+        precipitation_probability?: number[];
+        weather_code?: number[];
+        wind_speed_10m?: number[];
+      };
+    }>('open-meteo', '/forecast', params, this.weatherTtlMs);
+
+    const h = data?.hourly;
+    if (!h?.time?.length) return null;
+    const { temp, wind } = formatUnits(
+      locale,
+      h.temperature_2m?.[0] ?? 0,
+      h.wind_speed_10m?.[0] ?? 0,
+    );
+    const precipitation = h.precipitation_probability?.[0] ?? 0;
+    return `forecast for ${at.label} (not current conditions): ${temp}, ${describeWeatherCode(h.weather_code?.[0])}, ${precipitation}% chance of precipitation, wind ${wind}`;
+  }
+
+  /**
+   * Forecast for the given time when it falls inside Open-Meteo's forecast
+   * window, otherwise current conditions (saying why when a time was given).
+   */
+  private async fetchWeatherAt(
+    place: Place,
+    at: RequestedTime | null,
+    locale: ChatLocale,
+  ): Promise<string> {
+    if (!at) {
+      return this.fetchOpenMeteoCurrent(place, locale);
+    }
+    const hour = forecastHour(at, place, locale);
+    const offset = hour.instant.getTime() - Date.now();
+    if (offset > -60 * 60 * 1000 && offset < FORECAST_HORIZON_MS) {
+      const forecast = await this.fetchOpenMeteoForecast(place, hour, locale);
+      if (forecast) return forecast;
+    }
+    const current = await this.fetchOpenMeteoCurrent(place, locale);
+    return `no forecast available for ${hour.label}; ${current}`;
   }
 
   /**
    * Fetch weather for origin and destination cities using Open-Meteo (geocoding + forecast, no API key).
+   * With departure_time (local time at the origin), both ends use the hourly forecast for that
+   * moment instead of current conditions. Units and times follow the customer's locale.
    */
   async getRouteWeather(
     params: RouteWeatherParams,
+    locale: ChatLocale = DEFAULT_LOCALE,
   ): Promise<{ summary: string; raw?: unknown }> {
-    const { origin_city, destination_city } = params;
+    const { origin_city, destination_city, departure_time } = params;
+    const departure = parseDateTime(departure_time);
     const originName = origin_city?.trim() ?? '';
     const destName = destination_city?.trim() ?? '';
 
@@ -90,26 +334,32 @@ export class OpenMeteoService {
       return { summary: 'No destination city provided.' };
     }
 
-    const [originCoords, destCoords] = await Promise.all([
-      this.geocodeCity(originName),
-      this.geocodeCity(destName),
+    const [origin, destination] = await Promise.all([
+      this.resolvePlace(originName),
+      this.resolvePlace(destName),
     ]);
 
-    if (!originCoords) {
+    if (!origin) {
       return {
         summary: `City not found: "${origin_city}". Please check the name and try again.`,
       };
     }
-    if (!destCoords) {
+    if (!destination) {
       return {
         summary: `City not found: "${destination_city}". Please check the name and try again.`,
       };
     }
 
+    // The destination gets the same moment, on its own clock.
+    const departureAt: RequestedTime | null =
+      departure && 'wallClock' in departure && origin.tz
+        ? { instant: instantOf(departure.wallClock, origin.tz) }
+        : departure;
+
     try {
       const [originWeather, destWeather] = await Promise.all([
-        this.fetchOpenMeteoCurrent(originCoords[0], originCoords[1]),
-        this.fetchOpenMeteoCurrent(destCoords[0], destCoords[1]),
+        this.fetchWeatherAt(origin, departureAt, locale),
+        this.fetchWeatherAt(destination, departureAt, locale),
       ]);
 
       const summary = [
@@ -117,39 +367,80 @@ export class OpenMeteoService {
         `${destination_city}: ${destWeather}.`,
       ].join(' ');
 
-      return { summary, raw: { origin: originWeather, destination: destWeather } };
+      return {
+        summary,
+        raw: { origin: originWeather, destination: destWeather },
+      };
     } catch (e) {
       this.logger.error('getRouteWeather failed', e as Error);
       return {
-        summary: 'Unable to fetch weather for the route. Please try again later.',
+        summary:
+          'Unable to fetch weather for the route. Please try again later.',
         raw: { error: String(e) },
       };
     }
   }
 
   /**
-   * Get current weather for a single place (used for weather_at_flight_arrival).
+   * Get weather for a single place: the forecast for `at` (local time there
+   * unless it has an offset) when given, else current.
    */
-  async getWeatherForPlace(placeName: string): Promise<{ summary: string }> {
+  async getWeatherForPlace(
+    placeName: string,
+    at?: string,
+    locale: ChatLocale = DEFAULT_LOCALE,
+  ): Promise<{ summary: string }> {
     const name = placeName?.trim() ?? '';
     if (!name) {
       return { summary: 'No place name provided.' };
     }
 
-    const coords = await this.geocodeCity(name);
-    if (!coords) {
+    const place = await this.resolvePlace(name);
+    if (!place) {
       return {
         summary: `Place not found: "${placeName}". Please check the name and try again.`,
       };
     }
+    return this.getWeatherAtPlace(place, at, locale);
+  }
 
+  /**
+   * Weather at an airport (used for weather_at_flight_arrival). Exact coordinates
+   * and time zone come from the airport dataset by IATA code; the free-text
+   * airport name is only geocoded when the code is missing or unknown. `at` is
+   * the airport's local time, as Aviationstack schedules are.
+   */
+  async getWeatherForAirport(
+    airport: { iata?: string; name?: string },
+    at?: string,
+    locale: ChatLocale = DEFAULT_LOCALE,
+  ): Promise<{ summary: string }> {
+    const known = this.airports.findByIata(airport.iata);
+    if (known) {
+      return this.getWeatherAtPlace(
+        { lat: known.lat, lon: known.lon, tz: known.tz },
+        at,
+        locale,
+      );
+    }
+    return this.getWeatherForPlace(airport.name ?? '', at, locale);
+  }
+
+  private async getWeatherAtPlace(
+    place: Place,
+    at: string | undefined,
+    locale: ChatLocale,
+  ): Promise<{ summary: string }> {
     try {
-      const summary = await this.fetchOpenMeteoCurrent(coords[0], coords[1]);
+      const summary = await this.fetchWeatherAt(
+        place,
+        parseDateTime(at),
+        locale,
+      );
       return { summary };
     } catch (e) {
-      this.logger.warn('getWeatherForPlace failed', (e as Error).message);
+      this.logger.warn('Weather lookup failed', (e as Error).message);
       return { summary: 'Weather could not be fetched for this place.' };
     }
   }
 }
-
@@ -0,0 +1,48 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(
+      { failureThreshold: 2, cooldownMs: 100 },
+      () => now,
+    );
+  });
+
+  it('opens after consecutive failures and resets on success', () => {
+    breaker.recordFailure(new Error('boom'));
+    breaker.recordSuccess();
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      retryAt: new Date(100).toISOString(),
+    });
+  });
+
+  it('lets a single probe through when half-open', () => {
+    breaker.recordFailure('a');
+    breaker.recordFailure('b');
+    now = 100;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordFailure('still down');
+    expect(breaker.snapshot().state).toBe('open');
+    now = 200;
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+});
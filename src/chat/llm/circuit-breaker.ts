@@ -0,0 +1,89 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit rejects calls before allowing a probe. */
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** ISO time of the last failure, if any. */
+  lastFailureAt: string | null;
+  lastError: string | null;
+  /** ISO time at which an open circuit will let a probe through. */
+  retryAt: string | null;
+}
+
+/**
+ * Per-provider circuit breaker. Closed: calls pass and consecutive failures are
+ * counted. Open: calls are rejected until the cool-down ends. Half-open: exactly
+ * one probe call is let through; its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Whether a call may go ahead. Moves an open circuit to half-open once the
+   * cool-down has passed and claims the single probe slot for the caller.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.now() - this.openedAt < this.options.cooldownMs) return false;
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures += 1;
+    this.lastFailureAt = this.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+    const failedProbe = this.state === 'half_open';
+    this.probeInFlight = false;
+    if (
+      failedProbe ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const toIso = (ms: number | null) =>
+      ms === null ? null : new Date(ms).toISOString();
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: toIso(this.lastFailureAt),
+      lastError: this.lastError,
+      retryAt:
+        this.state === 'open'
+          ? toIso(this.openedAt + this.options.cooldownMs)
+          : null,
+    };
+  }
+}
@@ -2,12 +2,40 @@ import {
   Injectable,
   InternalServerErrorException,
   Logger,
+  Optional,
 } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { ChatMessageDto } from '../dto/chat-request.dto';
-import { ILlmClient, LlmOptions } from './llm-client.interface';
+import {
+  ILlmClient,
+  LlmOptions,
+  LlmResult,
+  LlmStream,
+  LlmUsage,
+} from './llm-client.interface';
+import { normalizeFinishReason } from './llm-result';
+import { parseSseJson, readSseData } from './sse-stream';
+import type { TenantLlmOverrides } from '../../tenants/tenant.types';
+
+/**
+ * Optional fields the FreeFlow service adds to `/chat` responses and to the
+ * last `/chat/stream` chunk; older deployments send none of them.
+ */
+interface FreeflowMeta {
+  model?: string;
+  usage?: { promptTokens?: number; completionTokens?: number };
+  finishReason?: string;
+}
+
+function toUsage(usage: FreeflowMeta['usage']): LlmUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokens ?? 0,
+    completionTokens: usage.completionTokens ?? 0,
+  };
+}
 
 @Injectable()
 export class FreeflowLlmClient implements ILlmClient {
@@ -17,8 +45,10 @@ export class FreeflowLlmClient implements ILlmClient {
   constructor(
     private readonly http: HttpService,
     private readonly config: ConfigService,
+    @Optional() tenant: TenantLlmOverrides = {},
   ) {
     this.serviceUrl =
+      tenant.integrations?.freeflowServiceUrl ??
       this.config.get<string>('FREEFLOW_SERVICE_URL') ??
       'http://localhost:8001';
   }
@@ -26,11 +56,12 @@ export class FreeflowLlmClient implements ILlmClient {
   async generateReply(
     messages: ChatMessageDto[],
     options?: LlmOptions,
-  ): Promise<string> {
+  ): Promise<LlmResult> {
     const url = `${this.serviceUrl}/chat`;
+    const startedAt = Date.now();
 
     try {
-      const response$ = this.http.post(
+      const response$ = this.http.post<FreeflowMeta & { reply?: string }>(
         url,
         {
           messages,
@@ -54,11 +85,71 @@ export class FreeflowLlmClient implements ILlmClient {
         );
       }
 
-      return content;
+      return {
+        text: content,
+        provider: 'freeflow',
+        model: response.data.model ?? 'freeflow',
+        usage: toUsage(response.data.usage),
+        finishReason: normalizeFinishReason(response.data.finishReason),
+        latencyMs: Date.now() - startedAt,
+      };
     } catch (error) {
       this.logger.error('Error calling FreeFlow service', error as Error);
       throw new InternalServerErrorException('Failed to generate a reply.');
     }
   }
-}
 
+  /**
+   * Streams from the FreeFlow service's `/chat/stream` endpoint, which emits SSE
+   * `data: {"delta": "..."}` chunks terminated by `data: [DONE]`.
+   */
+  async *streamReply(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+  ): LlmStream {
+    const url = `${this.serviceUrl}/chat/stream`;
+    const startedAt = Date.now();
+
+    let stream: AsyncIterable<Buffer>;
+    try {
+      const response = await firstValueFrom(
+        this.http.post<AsyncIterable<Buffer>>(
+          url,
+          {
+            messages,
+            temperature: options?.temperature ?? 0.3,
+            maxTokens: options?.maxTokens ?? 600,
+          },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            responseType: 'stream',
+          },
+        ),
+      );
+      stream = response.data;
+    } catch (error) {
+      this.logger.error('Error calling FreeFlow stream', error as Error);
+      throw new InternalServerErrorException('Failed to generate a reply.');
+    }
+
+    const meta: FreeflowMeta = {};
+    for await (const data of readSseData(stream)) {
+      const chunk = parseSseJson<FreeflowMeta & { delta?: string }>(data);
+      if (!chunk) continue;
+      meta.model = chunk.model ?? meta.model;
+      meta.usage = chunk.usage ?? meta.usage;
+      meta.finishReason = chunk.finishReason ?? meta.finishReason;
+      if (chunk.delta) yield chunk.delta;
+    }
+
+    return {
+      provider: 'freeflow',
+      model: meta.model ?? 'freeflow',
+      usage: toUsage(meta.usage),
+      finishReason: normalizeFinishReason(meta.finishReason),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of } from 'rxjs';
+import { ChatMessageDto } from '../dto/chat-request.dto';
+import { LlmToolDefinition } from './llm-client.interface';
+import { GeminiLlmClient } from './gemini-llm.client';
+import type { TenantLlmOverrides } from '../../tenants/tenant.types';
+
+const messages: ChatMessageDto[] = [
+  { role: 'system', content: 'Be helpful.' },
+  { role: 'user', content: 'Weather in Lisbon and UA2402?' },
+];
+
+const tools: LlmToolDefinition[] = [
+  {
+    name: 'flight_status',
+    description: 'Flight status.',
+    parameters: { type: 'object', properties: {} },
+  },
+];
+
+function createClient(data: unknown, tenant?: TenantLlmOverrides) {
+  const http = { post: jest.fn(() => of({ data })) };
+  const client = new GeminiLlmClient(
+    http as unknown as HttpService,
+    {
+      get: (key: string) => ({ GEMINI_API_KEY: 'g-test' })[key],
+    } as ConfigService,
+    tenant,
+  );
+  return { client, http };
+}
+
+describe('GeminiLlmClient', () => {
+  it('sends function declarations and parses functionCall parts', async () => {
+    const { client, http } = createClient({
+      modelVersion: 'gemini-2.0-flash-001',
+      candidates: [
+        {
+          content: {
+            parts: [
+              { text: 'Checking both.' },
+              {
+                functionCall: {
+                  name: 'route_weather',
+                  args: { place: 'Lisbon' },
+                },
+              },
+              {
+                functionCall: {
+                  name: 'flight_status',
+                  args: { flight_number: 'UA2402' },
+                },
+              },
+              { functionCall: { args: { ignored: true } } },
+            ],
+          },
+          finishReason: 'STOP',
+        },
+      ],
+      usageMetadata: { promptTokenCount: 90, candidatesTokenCount: 12 },
+    });
+
+    const reply = await client.generateWithTools(messages, tools);
+
+    expect(reply).toMatchObject({
+      text: 'Checking both.',
+      toolCalls: [
+        { name: 'route_weather', arguments: { place: 'Lisbon' } },
+        { name: 'flight_status', arguments: { flight_number: 'UA2402' } },
+      ],
+      provider: 'gemini',
+      model: 'gemini-2.0-flash-001',
+      usage: { promptTokens: 90, completionTokens: 12 },
+      finishReason: 'stop',
+    });
+    const [url, body] = http.post.mock.calls[0] as unknown[];
+    expect(url).toContain('gemini-2.0-flash:generateContent?key=g-test');
+    expect(body).toMatchObject({
+      tools: [{ functionDeclarations: [{ name: 'flight_status' }] }],
+      systemInstruction: { parts: [{ text: 'Be helpful.' }] },
+      contents: [{ role: 'user' }],
+    });
+  });
+
+  it("uses the tenant's model and key over the global ones", async () => {
+    const { client, http } = createClient(
+      { candidates: [{ content: { parts: [{ text: 'Hola' }] } }] },
+      {
+        llm: { geminiModel: 'gemini-2.5-pro' },
+        integrations: { geminiApiKey: 'g-tenant' },
+      },
+    );
+
+    await client.generateReply(messages);
+
+    const [url] = http.post.mock.calls[0] as unknown[];
+    expect(url).toContain('gemini-2.5-pro:generateContent?key=g-tenant');
+  });
+
+  it('accepts JSON-string args and drops malformed ones', async () => {
+    const call = (args: unknown) => ({
+      functionCall: { name: 'flight_status', args },
+    });
+    const { client } = createClient({
+      candidates: [
+        {
+          content: {
+            parts: [
+              call('{"flight_number":"BA123"}'),
+              call('{"flight_number":'),
+              call(['BA123']),
+              call(undefined),
+            ],
+          },
+        },
+      ],
+    });
+
+    const { toolCalls, text } = await client.generateWithTools(messages, tools);
+
+    expect(text).toBe('');
+    expect(toolCalls.map((c) => c.arguments)).toEqual([
+      { flight_number: 'BA123' },
+      {},
+      {},
+      {},
+    ]);
+  });
+});
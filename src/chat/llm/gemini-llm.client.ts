@@ -2,15 +2,29 @@ import {
   Injectable,
   InternalServerErrorException,
   Logger,
+  Optional,
 } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { ChatMessageDto } from '../dto/chat-request.dto';
-import { ILlmClient, LlmOptions } from './llm-client.interface';
+import {
+  ILlmClient,
+  LlmCallMeta,
+  LlmOptions,
+  LlmResult,
+  LlmStream,
+  LlmToolDefinition,
+  LlmToolReply,
+  LlmUsage,
+} from './llm-client.interface';
+import { normalizeFinishReason, parseToolArguments } from './llm-result';
+import { parseSseJson, readSseData } from './sse-stream';
+import type { TenantLlmOverrides } from '../../tenants/tenant.types';
 
 interface GeminiPart {
-  text: string;
+  text?: string;
+  functionCall?: { name?: string; args?: unknown };
 }
 
 interface GeminiContent {
@@ -18,6 +32,29 @@ interface GeminiContent {
   parts: GeminiPart[];
 }
 
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+/** generateContent response; also the shape of each streamed chunk. */
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string;
+}
+
+function toUsage(usage: GeminiUsageMetadata | undefined): LlmUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount ?? 0,
+    completionTokens: usage.candidatesTokenCount ?? 0,
+  };
+}
+
 @Injectable()
 export class GeminiLlmClient implements ILlmClient {
   private readonly logger = new Logger(GeminiLlmClient.name);
@@ -28,10 +65,17 @@ export class GeminiLlmClient implements ILlmClient {
   constructor(
     private readonly http: HttpService,
     private readonly config: ConfigService,
+    @Optional() tenant: TenantLlmOverrides = {},
   ) {
-    this.apiKey = this.config.get<string>('GEMINI_API_KEY') ?? '';
+    const { llm = {}, integrations = {} } = tenant;
+    this.apiKey =
+      integrations.geminiApiKey ??
+      this.config.get<string>('GEMINI_API_KEY') ??
+      '';
     this.model =
-      this.config.get<string>('GEMINI_MODEL') ?? 'gemini-2.0-flash';
+      llm.geminiModel ??
+      this.config.get<string>('GEMINI_MODEL') ??
+      'gemini-2.0-flash';
     this.baseUrl =
       this.config.get<string>('GEMINI_BASE_URL') ??
       'https://generativelanguage.googleapis.com/v1beta/models';
@@ -46,13 +90,115 @@ export class GeminiLlmClient implements ILlmClient {
   async generateReply(
     messages: ChatMessageDto[],
     options?: LlmOptions,
-  ): Promise<string> {
-    if (!this.apiKey) {
-      throw new InternalServerErrorException(
-        'Gemini is not configured (missing GEMINI_API_KEY).',
-      );
+  ): Promise<LlmResult> {
+    const { parts, meta } = await this.generateContent(messages, options);
+    const text = joinText(parts);
+
+    if (!text) {
+      this.logger.warn('Empty response from Gemini');
+      throw new InternalServerErrorException('LLM returned an empty response.');
     }
 
+    return { text, ...meta };
+  }
+
+  /**
+   * generateContent with functionDeclarations; any functionCall parts in the
+   * first candidate are returned as structured tool calls (args that are not
+   * an object are treated as an empty object).
+   */
+  async generateWithTools(
+    messages: ChatMessageDto[],
+    tools: LlmToolDefinition[],
+    options?: LlmOptions,
+  ): Promise<LlmToolReply> {
+    const { parts, meta } = await this.generateContent(messages, options, {
+      tools: [
+        {
+          functionDeclarations: tools.map((t) => ({
+            name: t.name,
+            description: t.description,
+            parameters: t.parameters,
+          })),
+        },
+      ],
+    });
+
+    const toolCalls = parts
+      .filter((p) => p.functionCall?.name)
+      .map((p) => ({
+        name: p.functionCall.name,
+        arguments: parseToolArguments(p.functionCall.args),
+      }));
+
+    return { text: joinText(parts), toolCalls, ...meta };
+  }
+
+  /** Usage and finish reason arrive on the last chunks; they end up in the returned meta. */
+  async *streamReply(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+  ): LlmStream {
+    const startedAt = Date.now();
+    const stream = await this.request<AsyncIterable<Buffer>>(
+      'streamGenerateContent',
+      this.buildBody(messages, options),
+      'stream',
+    );
+
+    let last: GeminiResponse = {};
+    let finishReason: string | undefined;
+    for await (const data of readSseData(stream)) {
+      const chunk = parseSseJson<GeminiResponse>(data);
+      if (!chunk) continue;
+      last = chunk;
+      finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+      const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+      const delta = parts
+        .map((p) => p.text)
+        .filter(Boolean)
+        .join('');
+      if (delta) yield delta;
+    }
+
+    return {
+      provider: 'gemini',
+      model: last.modelVersion ?? this.model,
+      usage: toUsage(last.usageMetadata),
+      finishReason: normalizeFinishReason(finishReason),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  private async generateContent(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+    extraBody: Record<string, unknown> = {},
+  ): Promise<{ parts: GeminiPart[]; meta: LlmCallMeta }> {
+    const startedAt = Date.now();
+    const data = await this.request<GeminiResponse>(
+      'generateContent',
+      this.buildBody(messages, options, extraBody),
+      'json',
+    );
+    const candidate = data?.candidates?.[0];
+    return {
+      parts: candidate?.content?.parts ?? [],
+      meta: {
+        provider: 'gemini',
+        model: data?.modelVersion ?? this.model,
+        usage: toUsage(data?.usageMetadata),
+        finishReason: normalizeFinishReason(candidate?.finishReason),
+        latencyMs: Date.now() - startedAt,
+      },
+    };
+  }
+
+  private buildBody(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+    extraBody: Record<string, unknown> = {},
+  ): Record<string, unknown> {
     const contents: GeminiContent[] = messages
       .filter((m) => m.role !== 'system')
       .map((m) => ({
@@ -68,6 +214,7 @@ export class GeminiLlmClient implements ILlmClient {
         temperature: options?.temperature ?? 0.3,
         maxOutputTokens: options?.maxTokens ?? 600,
       },
+      ...extraBody,
     };
 
     if (systemMessage) {
@@ -77,30 +224,33 @@ export class GeminiLlmClient implements ILlmClient {
       };
     }
 
-    const url = `${this.baseUrl}/${this.model}:generateContent?key=${this.apiKey}`;
+    return body;
+  }
+
+  private async request<T>(
+    method: 'generateContent' | 'streamGenerateContent',
+    body: Record<string, unknown>,
+    responseType: 'json' | 'stream',
+  ): Promise<T> {
+    if (!this.apiKey) {
+      throw new InternalServerErrorException(
+        'Gemini is not configured (missing GEMINI_API_KEY).',
+      );
+    }
+
+    const query = responseType === 'stream' ? 'alt=sse&' : '';
+    const url = `${this.baseUrl}/${this.model}:${method}?${query}key=${this.apiKey}`;
 
     try {
-      const response$ = this.http.post(url, body, {
+      const response$ = this.http.post<T>(url, body, {
         headers: {
           'Content-Type': 'application/json',
         },
+        responseType,
       });
 
       const response = await firstValueFrom(response$);
-      const candidate = response.data?.candidates?.[0];
-      const text: string | undefined =
-        candidate?.content?.parts?.[0]?.text ??
-        candidate?.content?.parts?.map((p: GeminiPart) => p.text).join('\n');
-
-      const trimmed = text?.trim() ?? '';
-      if (!trimmed) {
-        this.logger.warn('Empty response from Gemini');
-        throw new InternalServerErrorException(
-          'LLM returned an empty response.',
-        );
-      }
-
-      return trimmed;
+      return response.data;
     } catch (error) {
       this.logger.error('Error calling Gemini', error as Error);
       throw new InternalServerErrorException('Failed to generate a reply.');
@@ -108,3 +258,10 @@ export class GeminiLlmClient implements ILlmClient {
   }
 }
 
+function joinText(parts: GeminiPart[]): string {
+  return parts
+    .map((p) => p.text)
+    .filter((t): t is string => typeof t === 'string')
+    .join('\n')
+    .trim();
+}
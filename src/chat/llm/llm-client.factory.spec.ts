@@ -0,0 +1,49 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { LlmClientFactory } from './llm-client.factory';
+import { MockLlmClient } from './mock-llm.client';
+import { MultiLlmClient } from './multi-llm.client';
+import { MetricsService } from '../../observability/metrics.service';
+import type { TenantConfig } from '../../tenants/tenant.types';
+
+function createFactory() {
+  const shared = {} as MultiLlmClient;
+  const mock = {} as MockLlmClient;
+  const factory = new LlmClientFactory(
+    {} as HttpService,
+    { get: () => undefined } as unknown as ConfigService,
+    shared,
+    mock,
+    new MetricsService(),
+  );
+  return { factory, shared, mock };
+}
+
+const sunway = (llm: TenantConfig['llm']): TenantConfig => ({
+  id: 'sunway',
+  brandName: 'Sunway',
+  llm,
+});
+
+describe('LlmClientFactory', () => {
+  it('shares the global client with tenants that override nothing', () => {
+    const { factory, shared } = createFactory();
+
+    expect(factory.forTenant()).toBe(shared);
+    expect(factory.forTenant(sunway({}))).toBe(shared);
+  });
+
+  it("reuses a tenant's clients until its LLM settings change", () => {
+    const { factory, shared, mock } = createFactory();
+    const first = factory.forTenant(sunway({ openaiModel: 'gpt-4o' }));
+
+    expect(first).toBeInstanceOf(MultiLlmClient);
+    expect(first).not.toBe(shared);
+    expect(factory.forTenant(sunway({ openaiModel: 'gpt-4o' }))).toBe(first);
+
+    const changed = factory.forTenant(sunway({ openaiModel: 'gpt-4o-mini' }));
+    expect(changed).toBeInstanceOf(MultiLlmClient);
+    expect(changed).not.toBe(first);
+    expect(factory.forTenant(sunway({ provider: 'mock' }))).toBe(mock);
+  });
+});
@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { ILlmClient } from './llm-client.interface';
+import { GeminiLlmClient } from './gemini-llm.client';
+import { OpenAiLlmClient } from './openai-llm.client';
+import { MockLlmClient } from './mock-llm.client';
+import { FreeflowLlmClient } from './freeflow-llm.client';
+import { MultiLlmClient } from './multi-llm.client';
+import { MetricsService } from '../../observability/metrics.service';
+import type {
+  TenantConfig,
+  TenantLlmOverrides,
+} from '../../tenants/tenant.types';
+
+/** The tenant's own LLM provider, model and credential settings. */
+function llmSettingsOf(tenant: TenantConfig): unknown[] {
+  const { llm = {}, integrations = {} } = tenant;
+  return [
+    llm.provider,
+    llm.providerOrder,
+    llm.geminiModel,
+    llm.openaiModel,
+    integrations.geminiApiKey,
+    integrations.openaiApiKey,
+    integrations.freeflowServiceUrl,
+  ];
+}
+
+/**
+ * Picks the LLM client for a request. LLM_PROVIDER=mock uses the mock client,
+ * otherwise MultiLlmClient with its provider fallback. A tenant with its own
+ * provider order, models or keys gets a dedicated set of clients (and circuit
+ * breakers), built on first use and rebuilt when those settings change; other
+ * tenants share the global one.
+ */
+@Injectable()
+export class LlmClientFactory {
+  private readonly logger = new Logger(LlmClientFactory.name);
+  /** Per tenant id, the client and the settings it was built from. */
+  private readonly tenantClients = new Map<
+    string,
+    { settings: string; client: ILlmClient }
+  >();
+
+  constructor(
+    private readonly http: HttpService,
+    private readonly config: ConfigService,
+    private readonly multiClient: MultiLlmClient,
+    private readonly mockClient: MockLlmClient,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  forTenant(tenant?: TenantConfig): ILlmClient {
+    const values = tenant ? llmSettingsOf(tenant) : [];
+    if (!tenant || values.every((value) => value === undefined)) {
+      return this.isMock() ? this.mockClient : this.multiClient;
+    }
+
+    const settings = JSON.stringify(values);
+    const cached = this.tenantClients.get(tenant.id);
+    if (cached?.settings === settings) return cached.client;
+    const client = this.build(tenant);
+    this.tenantClients.set(tenant.id, { settings, client });
+    this.logger.log(
+      `${cached ? 'Rebuilt' : 'Created'} LLM clients for tenant ${tenant.id}`,
+    );
+    return client;
+  }
+
+  private build(tenant: TenantLlmOverrides): ILlmClient {
+    if (this.isMock(tenant)) return this.mockClient;
+    return new MultiLlmClient(
+      this.config,
+      new GeminiLlmClient(this.http, this.config, tenant),
+      new OpenAiLlmClient(this.http, this.config, tenant),
+      this.mockClient,
+      new FreeflowLlmClient(this.http, this.config, tenant),
+      this.metrics,
+      tenant,
+    );
+  }
+
+  private isMock(tenant: TenantLlmOverrides = {}): boolean {
+    const provider =
+      tenant.llm?.provider ?? this.config.get<string>('LLM_PROVIDER');
+    return (provider ?? 'gemini') === 'mock';
+  }
+}
@@ -1,14 +1,90 @@
 import { ChatMessageDto } from '../dto/chat-request.dto';
 
+/** Token counts as reported by the provider. */
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Why generation stopped, normalized across providers (see llm-result.ts). */
+export type LlmFinishReason =
+  | 'stop'
+  | 'length'
+  | 'tool_calls'
+  | 'content_filter'
+  | 'other';
+
+/** Which provider and model answered a call, what it cost and how long it took. */
+export interface LlmCallMeta {
+  /** Provider id as used in LLM_PROVIDER_ORDER, e.g. "openai". */
+  provider: string;
+  model: string;
+  /** Absent when the provider does not report usage (mock, some FreeFlow models). */
+  usage?: LlmUsage;
+  finishReason?: LlmFinishReason;
+  latencyMs: number;
+}
+
+export interface LlmResult extends LlmCallMeta {
+  text: string;
+}
+
+/**
+ * Streamed reply: yields text deltas and returns the call's metadata once the
+ * stream is exhausted.
+ */
+export type LlmStream = AsyncGenerator<string, LlmCallMeta | undefined>;
+
 export interface LlmOptions {
   temperature?: number;
   maxTokens?: number;
 }
 
+/** A tool the model may call natively (OpenAI `tools`, Gemini `functionDeclarations`). */
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema describing the arguments object. */
+  parameters: Record<string, unknown>;
+  /**
+   * Prompt-only hints, rendered into the JSON contract for providers without
+   * native tool calling; native clients ignore them.
+   */
+  examples?: Array<{ question: string; arguments: Record<string, unknown> }>;
+  rules?: string[];
+}
+
+export interface LlmToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/** Result of a tool-aware call: either plain text, structured tool calls, or both. */
+export interface LlmToolReply extends LlmCallMeta {
+  text: string;
+  toolCalls: LlmToolCall[];
+}
+
 export interface ILlmClient {
   generateReply(
     messages: ChatMessageDto[],
     options?: LlmOptions,
-  ): Promise<string>;
-}
+  ): Promise<LlmResult>;
 
+  /**
+   * Native tool/function calling. Optional: clients that only expose plain chat
+   * (e.g. FreeFlow, mock) omit it and ChatService falls back to the prompt-based
+   * JSON contract in tools/tool-action.types.ts.
+   */
+  generateWithTools?(
+    messages: ChatMessageDto[],
+    tools: LlmToolDefinition[],
+    options?: LlmOptions,
+  ): Promise<LlmToolReply>;
+
+  /**
+   * Streams the reply as text deltas. Optional: callers fall back to
+   * generateReply and emit the whole reply as a single chunk.
+   */
+  streamReply?(messages: ChatMessageDto[], options?: LlmOptions): LlmStream;
+}
@@ -0,0 +1,51 @@
+import type { LlmCallMeta, LlmFinishReason } from './llm-client.interface';
+
+const FINISH_REASONS: Record<string, LlmFinishReason> = {
+  // OpenAI
+  stop: 'stop',
+  length: 'length',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls',
+  content_filter: 'content_filter',
+  // Gemini
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter',
+};
+
+/** Maps a provider's finish reason onto LlmFinishReason; unknown values become "other". */
+export function normalizeFinishReason(
+  raw: string | null | undefined,
+): LlmFinishReason | undefined {
+  if (!raw) return undefined;
+  return FINISH_REASONS[raw] ?? 'other';
+}
+
+/** The metadata part of a result, e.g. to return from a stream. */
+export function callMeta(result: LlmCallMeta): LlmCallMeta {
+  const { provider, model, usage, finishReason, latencyMs } = result;
+  return { provider, model, usage, finishReason, latencyMs };
+}
+
+/**
+ * Tool-call arguments as an object: OpenAI sends a JSON string, Gemini an
+ * object. Malformed, non-JSON or non-object arguments become {} so the tool
+ * validates (and explains) the missing params instead of failing the turn.
+ */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
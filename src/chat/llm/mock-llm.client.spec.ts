@@ -0,0 +1,126 @@
+import { ConfigService } from '@nestjs/config';
+import { ChatMessageDto } from '../dto/chat-request.dto';
+import { MockLlmClient } from './mock-llm.client';
+
+const toolsPrompt: ChatMessageDto = {
+  role: 'system',
+  content: 'Help center.\nYou have access to live data tools. ...',
+};
+const replyPrompt: ChatMessageDto = { role: 'system', content: 'Help center.' };
+const user = (content: string): ChatMessageDto => ({ role: 'user', content });
+
+function createClient(env: Record<string, string> = {}) {
+  return new MockLlmClient({ get: (key: string) => env[key] } as ConfigService);
+}
+
+describe('MockLlmClient', () => {
+  it('falls back to the demo reply without a scenario', async () => {
+    const result = await createClient().generateReply([user('Hello')]);
+
+    expect(result.text).toContain('I received your question: "Hello"');
+    expect(result.provider).toBe('mock');
+  });
+
+  it('answers with the first matching rule by phase and message', async () => {
+    const client = createClient();
+    client.useScenario({
+      rules: [
+        {
+          match: { phase: 'tools', afterToolResults: true },
+          toolCalls: [{ action: 'none' }],
+        },
+        {
+          match: { phase: 'tools', lastUserMessage: '\\b([a-z]{2})\\s?(\\d+)' },
+          toolCalls: [
+            { action: 'flight_status', params: { flight_number: '$1$2' } },
+          ],
+        },
+        { match: { phase: 'reply' }, reply: 'Your flight is on time.' },
+      ],
+    });
+
+    const tools = await client.generateReply([
+      toolsPrompt,
+      user('Is UA 2402 late?'),
+    ]);
+    const done = await client.generateReply([
+      toolsPrompt,
+      user('Is UA 2402 late?'),
+      { role: 'assistant', content: 'TOOL_RESULT flight_status: on time' },
+    ]);
+    const reply = await client.generateReply([
+      replyPrompt,
+      user('Is UA 2402 late?'),
+    ]);
+
+    expect(JSON.parse(tools.text)).toEqual({
+      action: 'flight_status',
+      params: { flight_number: 'UA2402' },
+    });
+    expect(JSON.parse(done.text)).toEqual({ action: 'none' });
+    expect(reply.text).toBe('Your flight is on time.');
+  });
+
+  it('injects failures a limited number of times', async () => {
+    const client = createClient();
+    client.useScenario({
+      rules: [
+        { error: 'Simulated outage', times: 1 },
+        { reply: 'Back online.' },
+      ],
+    });
+
+    await expect(client.generateReply([user('Hi')])).rejects.toThrow(
+      'Simulated outage',
+    );
+    await expect(client.generateReply([user('Hi')])).resolves.toMatchObject({
+      text: 'Back online.',
+    });
+  });
+
+  it('loads the scenario from MOCK_LLM_SCENARIO_FILE', async () => {
+    const client = createClient({
+      MOCK_LLM_SCENARIO_FILE: 'fixtures/mock-llm/travel.json',
+    });
+    await client.onModuleInit();
+
+    const result = await client.generateReply([
+      toolsPrompt,
+      user("What's the weather like in Barcelona?"),
+    ]);
+
+    expect(JSON.parse(result.text)).toEqual({
+      action: 'route_weather',
+      params: { origin_city: 'Barcelona', destination_city: 'Barcelona' },
+    });
+  });
+
+  it('quotes the tool results in the travel scenario replies', async () => {
+    const client = createClient({
+      MOCK_LLM_SCENARIO_FILE: 'fixtures/mock-llm/travel.json',
+    });
+    await client.onModuleInit();
+    const phase2 = (question: string, results: string[]) =>
+      client.generateReply([
+        replyPrompt,
+        user(question),
+        { role: 'assistant', content: results.join('\n') },
+        user('Answer the customer using the tool results above.'),
+      ]);
+
+    const single = await phase2("What's the weather like in Barcelona?", [
+      'TOOL_RESULT route_weather: Barcelona: 22°C, sunny.',
+    ]);
+    const pair = await phase2('Compare UA2402 and BA 123', [
+      'TOOL_RESULT flight_status: Status: scheduled.',
+      'TOOL_RESULT flight_status: Status: departed late.',
+    ]);
+
+    expect(single.text).toBe(
+      'Here is what I found: Barcelona: 22°C, sunny. Is there anything else I can help with?',
+    );
+    expect(pair.text).toContain(
+      'for UA2402 and BA123: Status: scheduled. Status: departed late.',
+    );
+  });
+});
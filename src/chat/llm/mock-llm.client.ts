@@ -1,26 +1,92 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
 import { ChatMessageDto } from '../dto/chat-request.dto';
-import { ILlmClient, LlmOptions } from './llm-client.interface';
+import { ILlmClient, LlmResult } from './llm-client.interface';
+import {
+  MockRule,
+  MockScenario,
+  lastUserMessage,
+  matchRule,
+  parseMockScenario,
+  renderRule,
+  toolResults,
+} from './mock-scenario';
 
+/**
+ * Offline stand-in for a real LLM. Without a scenario it answers every call
+ * with a canned demo reply. MOCK_LLM_SCENARIO_FILE points at a JSON scenario
+ * (see mock-scenario.ts and fixtures/mock-llm/) whose ordered rules script
+ * replies and tool calls, delays and failures, so the tool pipeline can run
+ * end to end without a provider.
+ */
 @Injectable()
-export class MockLlmClient implements ILlmClient {
-  async generateReply(
-    messages: ChatMessageDto[],
-    _options?: LlmOptions,
-  ): Promise<string> {
-    const lastUserMessage = [...messages]
-      .reverse()
-      .find((m) => m.role === 'user');
-
-    const question = lastUserMessage?.content ?? '';
-
-    return [
-      'This is a demo response from the help center chatbot.',
-      'We are currently running in offline mode with no connection to any external LLM.',
-      question
-        ? `I received your question: "${question}". In a real environment, you would see an AI-generated response with the next steps.`
-        : 'In a real environment, you would see an AI-generated response with the next steps.',
-    ].join('\n\n');
+export class MockLlmClient implements ILlmClient, OnModuleInit {
+  private readonly logger = new Logger(MockLlmClient.name);
+  private rules: MockRule[] = [];
+  private readonly uses = new Map<MockRule, number>();
+
+  constructor(private readonly config: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const path = this.config.get<string>('MOCK_LLM_SCENARIO_FILE');
+    if (!path) return;
+    try {
+      this.useScenario(
+        parseMockScenario(JSON.parse(await readFile(path, 'utf8'))),
+      );
+      this.logger.log(
+        `Loaded mock scenario ${path} (${this.rules.length} rules)`,
+      );
+    } catch (e) {
+      // Calls then get the demo reply.
+      this.logger.error(`Failed to load mock scenario ${path}`, e as Error);
+    }
+  }
+
+  /** Replaces the scripted rules and resets their use counts. */
+  useScenario(scenario: MockScenario): void {
+    this.rules = scenario.rules;
+    this.uses.clear();
+  }
+
+  async generateReply(messages: ChatMessageDto[]): Promise<LlmResult> {
+    const started = Date.now();
+    const text = await this.respond(messages);
+    return {
+      text,
+      provider: 'mock',
+      model: 'mock',
+      finishReason: 'stop',
+      latencyMs: Date.now() - started,
+    };
+  }
+
+  private async respond(messages: ChatMessageDto[]): Promise<string> {
+    for (const rule of this.rules) {
+      const used = this.uses.get(rule) ?? 0;
+      if (rule.times !== undefined && used >= rule.times) continue;
+      const captures = matchRule(rule, messages);
+      if (!captures) continue;
+
+      this.uses.set(rule, used + 1);
+      this.logger.debug(`Mock rule ${rule.name ?? this.rules.indexOf(rule)}`);
+      if (rule.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+      }
+      if (rule.error) throw new Error(rule.error);
+      return renderRule(rule, captures, toolResults(messages));
+    }
+    return demoReply(lastUserMessage(messages));
   }
 }
 
+function demoReply(question: string): string {
+  return [
+    'This is a demo response from the help center chatbot.',
+    'We are currently running in offline mode with no connection to any external LLM.',
+    question
+      ? `I received your question: "${question}". In a real environment, you would see an AI-generated response with the next steps.`
+      : 'In a real environment, you would see an AI-generated response with the next steps.',
+  ].join('\n\n');
+}
@@ -0,0 +1,148 @@
+import { ChatMessageDto } from '../dto/chat-request.dto';
+import type { ToolAction } from '../tools/tool-action.types';
+
+/**
+ * Which prompt a call belongs to: "tools" when the system prompt carries the
+ * tool-calling contract (ChatService's tool selection), "reply" for the
+ * natural-language prompts (direct answers and the phase-2 reply).
+ */
+export type MockPhase = 'tools' | 'reply';
+
+/** Every condition that is set must hold for the rule to apply. */
+export interface MockRuleMatch {
+  /**
+   * Case-insensitive regular expression tested against the customer's last
+   * message (the phase-2 instruction after the tool results does not count).
+   */
+  lastUserMessage?: string;
+  phase?: MockPhase;
+  /** Whether TOOL_RESULT messages from earlier tool calls are in the prompt. */
+  afterToolResults?: boolean;
+}
+
+/** One scripted response. Rules are tried in file order; the first match answers. */
+export interface MockRule {
+  /** Shown in logs to tell which rule answered. */
+  name?: string;
+  match?: MockRuleMatch;
+  /**
+   * Reply text; $1..$9 are replaced by the lastUserMessage capture groups and
+   * $RESULTS by the latest tool results, as the phase-2 reply would quote them.
+   */
+  reply?: string;
+  /** Tool calls returned as the JSON contract (captures are substituted in string params). */
+  toolCalls?: ToolAction[];
+  /** Waits this long before answering, e.g. to exercise timeouts. */
+  delayMs?: number;
+  /** Fails the call with this message instead of answering. */
+  error?: string;
+  /** Uses the rule at most this many times, e.g. to fail only the first call. */
+  times?: number;
+}
+
+export interface MockScenario {
+  rules: MockRule[];
+}
+
+/** Marker present in both the prompt-based and the native tool instructions. */
+const TOOLS_PROMPT_MARKER = 'You have access to live data tools.';
+
+export function parseMockScenario(raw: unknown): MockScenario {
+  const rules = (raw as MockScenario)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('A mock scenario must have a "rules" array.');
+  }
+  rules.forEach((rule, i) => {
+    if (rule?.reply === undefined && !rule?.toolCalls && !rule?.error) {
+      throw new Error(
+        `Mock rule ${rule?.name ?? i} needs a reply, toolCalls or error.`,
+      );
+    }
+    if (rule.match?.lastUserMessage) new RegExp(rule.match.lastUserMessage);
+  });
+  return { rules };
+}
+
+export function detectPhase(messages: ChatMessageDto[]): MockPhase {
+  return messages.some(
+    (m) => m.role === 'system' && m.content.includes(TOOLS_PROMPT_MARKER),
+  )
+    ? 'tools'
+    : 'reply';
+}
+
+function isToolResultNote(message: ChatMessageDto | undefined): boolean {
+  return (
+    message?.role === 'assistant' && message.content.startsWith('TOOL_RESULT')
+  );
+}
+
+/** The customer's latest message, skipping the phase-2 instruction. */
+export function lastUserMessage(messages: ChatMessageDto[]): string {
+  return (
+    messages
+      .filter((m, i) => m.role === 'user' && !isToolResultNote(messages[i - 1]))
+      .at(-1)?.content ?? ''
+  );
+}
+
+/** The summaries in the latest TOOL_RESULT note, without their "TOOL_RESULT name:" prefix. */
+export function toolResults(messages: ChatMessageDto[]): string[] {
+  const note = [...messages].reverse().find(isToolResultNote);
+  if (!note) return [];
+  return note.content
+    .split(/\n(?=TOOL_RESULT )/)
+    .map((result) => result.replace(/^TOOL_RESULT [\w-]+:/, '').trim());
+}
+
+/**
+ * Checks a rule against the prompt; returns the lastUserMessage captures
+ * (index 0 is the whole match) or null when it does not apply.
+ */
+export function matchRule(
+  rule: MockRule,
+  messages: ChatMessageDto[],
+): string[] | null {
+  const match = rule.match ?? {};
+  if (match.phase && match.phase !== detectPhase(messages)) return null;
+  if (match.afterToolResults !== undefined) {
+    const hasResults = messages.some(
+      (m) => m.role !== 'system' && m.content.includes('TOOL_RESULT'),
+    );
+    if (hasResults !== match.afterToolResults) return null;
+  }
+  if (!match.lastUserMessage) return [];
+  const found = new RegExp(match.lastUserMessage, 'i').exec(
+    lastUserMessage(messages),
+  );
+  return found ? [...found] : null;
+}
+
+function substitute(value: string, captures: string[]): string {
+  return value.replace(/\$(\d)/g, (_, n: string) => captures[Number(n)] ?? '');
+}
+
+/** The text a matched rule answers with: its reply, or its tool calls as JSON. */
+export function renderRule(
+  rule: MockRule,
+  captures: string[],
+  results: string[] = [],
+): string {
+  if (rule.toolCalls) {
+    const calls = rule.toolCalls.map((call) => ({
+      action: call.action,
+      ...(call.params && {
+        params: Object.fromEntries(
+          Object.entries(call.params).map(([key, value]) => [
+            key,
+            typeof value === 'string' ? substitute(value, captures) : value,
+          ]),
+        ),
+      }),
+    }));
+    return JSON.stringify(calls.length === 1 ? calls[0] : calls);
+  }
+  return substitute(rule.reply ?? '', captures)
+    .split('$RESULTS')
+    .join(results.join(' '));
+}
@@ -0,0 +1,117 @@
+import { ConfigService } from '@nestjs/config';
+import { ChatMessageDto } from '../dto/chat-request.dto';
+import { FreeflowLlmClient } from './freeflow-llm.client';
+import { GeminiLlmClient } from './gemini-llm.client';
+import { MockLlmClient } from './mock-llm.client';
+import { MultiLlmClient } from './multi-llm.client';
+import { OpenAiLlmClient } from './openai-llm.client';
+import { MetricsService } from '../../observability/metrics.service';
+import type { TenantLlmOverrides } from '../../tenants/tenant.types';
+
+const messages: ChatMessageDto[] = [{ role: 'user', content: 'Hi' }];
+
+const reply = (text: string, provider: string) => ({
+  text,
+  provider,
+  model: `${provider}-model`,
+  latencyMs: 1,
+});
+
+function createClient(
+  env: Record<string, string>,
+  tenant?: TenantLlmOverrides,
+) {
+  const gemini = { generateReply: jest.fn() };
+  const openai = {
+    generateReply: jest.fn().mockResolvedValue(reply('from openai', 'openai')),
+  };
+  const metrics = new MetricsService();
+  const client = new MultiLlmClient(
+    { get: (key: string) => env[key] } as ConfigService,
+    gemini as unknown as GeminiLlmClient,
+    openai as unknown as OpenAiLlmClient,
+    { generateReply: jest.fn() } as unknown as MockLlmClient,
+    { generateReply: jest.fn() } as unknown as FreeflowLlmClient,
+    metrics,
+    tenant,
+  );
+  return { client, gemini, openai, metrics };
+}
+
+describe('MultiLlmClient', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('takes the provider order from LLM_PROVIDER_ORDER', async () => {
+    const { client, gemini } = createClient({
+      LLM_PROVIDER_ORDER: 'openai, bogus, gemini',
+    });
+
+    expect((await client.generateReply(messages)).text).toBe('from openai');
+    expect(gemini.generateReply).not.toHaveBeenCalled();
+    expect(client.getHealth().providers.map((p) => p.id)).toEqual([
+      'openai',
+      'gemini',
+    ]);
+  });
+
+  it("uses the tenant's provider over the global LLM_PROVIDER_ORDER", async () => {
+    const { client, gemini } = createClient(
+      { LLM_PROVIDER_ORDER: 'gemini,openai' },
+      { llm: { provider: 'openai' } },
+    );
+
+    expect((await client.generateReply(messages)).text).toBe('from openai');
+    expect(gemini.generateReply).not.toHaveBeenCalled();
+  });
+
+  it('stops calling a failing provider once its circuit opens, then probes after the cool-down', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const { client, gemini, metrics } = createClient({
+      LLM_PROVIDER_ORDER: 'gemini,openai',
+      LLM_BREAKER_FAILURE_THRESHOLD: '2',
+      LLM_BREAKER_COOLDOWN_MS: '1000',
+    });
+    gemini.generateReply.mockRejectedValue(new Error('503'));
+
+    for (let i = 0; i < 4; i++) {
+      expect((await client.generateReply(messages)).text).toBe('from openai');
+    }
+    expect(gemini.generateReply).toHaveBeenCalledTimes(2);
+    const rendered = await metrics.render();
+    expect(rendered).toContain(
+      'llm_provider_requests_total{provider="gemini",outcome="failure"} 2',
+    );
+    expect(rendered).toContain(
+      'llm_provider_requests_total{provider="gemini",outcome="circuit_open"} 2',
+    );
+    expect(rendered).toContain(
+      'llm_provider_requests_total{provider="openai",outcome="success"} 4',
+    );
+    expect(client.getHealth()).toMatchObject({
+      servingProvider: 'openai',
+      providers: [{ id: 'gemini', state: 'open', lastError: '503' }, {}],
+    });
+
+    jest.setSystemTime(1000);
+    gemini.generateReply.mockResolvedValue(reply('from gemini', 'gemini'));
+    expect(await client.generateReply(messages)).toMatchObject({
+      text: 'from gemini',
+      provider: 'gemini',
+    });
+    expect(client.getHealth().providers[0].state).toBe('closed');
+  });
+
+  it('treats a provider that exceeds LLM_PROVIDER_TIMEOUT_MS as failed', async () => {
+    const { client, gemini } = createClient({
+      LLM_PROVIDER_ORDER: 'gemini,openai',
+      LLM_PROVIDER_TIMEOUT_MS: '20',
+    });
+    gemini.generateReply.mockReturnValue(new Promise(() => undefined));
+
+    expect((await client.generateReply(messages)).text).toBe('from openai');
+    expect(client.getHealth().providers[0]).toMatchObject({
+      consecutiveFailures: 1,
+      lastError: expect.stringContaining('timed out'),
+    });
+  });
+});
@@ -1,22 +1,89 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ChatMessageDto } from '../dto/chat-request.dto';
-import { ILlmClient, LlmOptions } from './llm-client.interface';
+import {
+  ILlmClient,
+  LlmCallMeta,
+  LlmOptions,
+  LlmResult,
+  LlmStream,
+  LlmToolDefinition,
+  LlmToolReply,
+} from './llm-client.interface';
+import { callMeta } from './llm-result';
 import { GeminiLlmClient } from './gemini-llm.client';
 import { OpenAiLlmClient } from './openai-llm.client';
 import { MockLlmClient } from './mock-llm.client';
 import { FreeflowLlmClient } from './freeflow-llm.client';
+import { buildToolCallingInstructions } from '../ota-system-prompt';
+import { NO_TOOL_ACTION, parseToolActions } from '../tools/tool-action.types';
+import { MetricsService } from '../../observability/metrics.service';
+import type { TenantLlmOverrides } from '../../tenants/tenant.types';
+
+import { CircuitBreaker, CircuitBreakerSnapshot } from './circuit-breaker';
 
 type ProviderId = 'gemini' | 'openai' | 'mock' | 'freeflow';
 
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock', 'freeflow'];
+
+/** Fallback order per LLM_PROVIDER, used when LLM_PROVIDER_ORDER is not set. */
+const DEFAULT_PROVIDER_ORDERS: Record<ProviderId, ProviderId[]> = {
+  freeflow: ['freeflow', 'gemini', 'openai', 'mock'],
+  openai: ['openai', 'gemini', 'mock'],
+  mock: ['mock'],
+  gemini: ['gemini', 'openai', 'mock'],
+};
+
 interface ProviderEntry {
   id: ProviderId;
   client: ILlmClient;
+  breaker: CircuitBreaker;
+}
+
+export interface ProviderHealth extends CircuitBreakerSnapshot {
+  id: string;
 }
 
+export interface LlmHealth {
+  /** Provider that answered the most recent request, null before the first one. */
+  servingProvider: string | null;
+  providers: ProviderHealth[];
+}
+
+class ProviderTimeoutError extends Error {}
+
+type ProviderOutcome = 'success' | 'failure' | 'timeout' | 'circuit_open';
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  providerId: string,
+): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new ProviderTimeoutError(
+            `Provider "${providerId}" timed out after ${ms}ms`,
+          ),
+        ),
+      ms,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Tries providers in LLM_PROVIDER_ORDER, skipping any whose circuit breaker is
+ * open so an outage costs one cool-down window rather than every request.
+ */
 @Injectable()
 export class MultiLlmClient implements ILlmClient {
   private readonly logger = new Logger(MultiLlmClient.name);
+  private readonly providers: ProviderEntry[];
+  private readonly timeoutMs: number;
+  private servingProvider: ProviderId | null = null;
 
   constructor(
     private readonly config: ConfigService,
@@ -24,59 +91,136 @@ export class MultiLlmClient implements ILlmClient {
     private readonly openAiClient: OpenAiLlmClient,
     private readonly mockClient: MockLlmClient,
     private readonly freeflowClient: FreeflowLlmClient,
-  ) {}
+    private readonly metrics: MetricsService,
+    @Optional() private readonly tenant: TenantLlmOverrides = {},
+  ) {
+    this.timeoutMs = Number(
+      this.config.get<string>('LLM_PROVIDER_TIMEOUT_MS') ?? 30000,
+    );
+    const breakerOptions = {
+      failureThreshold: Number(
+        this.config.get<string>('LLM_BREAKER_FAILURE_THRESHOLD') ?? 3,
+      ),
+      cooldownMs: Number(
+        this.config.get<string>('LLM_BREAKER_COOLDOWN_MS') ?? 30000,
+      ),
+    };
+    const clients: Record<ProviderId, ILlmClient> = {
+      gemini: this.geminiClient,
+      openai: this.openAiClient,
+      mock: this.mockClient,
+      freeflow: this.freeflowClient,
+    };
+    this.providers = this.getProviderOrder().map((id) => ({
+      id,
+      client: clients[id],
+      breaker: new CircuitBreaker(breakerOptions),
+    }));
+  }
 
-  private getOrderedProviders(): ProviderEntry[] {
-    const primary = (this.config.get<string>('LLM_PROVIDER') ??
-      'gemini') as ProviderId;
+  /** Breaker state per provider, in fallback order. */
+  getHealth(): LlmHealth {
+    return {
+      servingProvider: this.servingProvider,
+      providers: this.providers.map((p) => ({
+        id: p.id,
+        ...p.breaker.snapshot(),
+      })),
+    };
+  }
 
-    if (primary === 'freeflow') {
-      return [
-        { id: 'freeflow', client: this.freeflowClient },
-        { id: 'gemini', client: this.geminiClient },
-        { id: 'openai', client: this.openAiClient },
-        { id: 'mock', client: this.mockClient },
+  private getProviderOrder(): ProviderId[] {
+    const { provider, providerOrder } = this.tenant.llm ?? {};
+    // A tenant that only names its provider gets that provider's default
+    // order rather than the global LLM_PROVIDER_ORDER.
+    const configured =
+      providerOrder?.join(',') ??
+      (provider ? '' : this.config.get<string>('LLM_PROVIDER_ORDER'));
+    if (configured) {
+      const ids = configured
+        .split(',')
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean);
+      const unknown = ids.filter(
+        (id) => !PROVIDER_IDS.includes(id as ProviderId),
+      );
+      if (unknown.length > 0) {
+        this.logger.warn(
+          `Ignoring unknown providers in LLM_PROVIDER_ORDER: ${unknown.join(', ')}`,
+        );
+      }
+      const order = [
+        ...new Set(
+          ids.filter((id): id is ProviderId =>
+            PROVIDER_IDS.includes(id as ProviderId),
+          ),
+        ),
       ];
+      if (order.length > 0) return order;
     }
 
-    if (primary === 'openai') {
-      return [
-        { id: 'openai', client: this.openAiClient },
-        { id: 'gemini', client: this.geminiClient },
-        { id: 'mock', client: this.mockClient },
-      ];
-    }
+    const primary = (provider ??
+      this.config.get<string>('LLM_PROVIDER') ??
+      'gemini') as ProviderId;
+    return DEFAULT_PROVIDER_ORDERS[primary] ?? DEFAULT_PROVIDER_ORDERS.gemini;
+  }
 
-    if (primary === 'mock') {
-      return [{ id: 'mock', client: this.mockClient }];
+  /** Counts one provider attempt; durationMs is omitted for skipped providers. */
+  private recordAttempt(
+    providerId: ProviderId,
+    outcome: ProviderOutcome,
+    durationMs?: number,
+  ): void {
+    this.metrics.llmProviderRequests.inc({ provider: providerId, outcome });
+    if (durationMs !== undefined) {
+      this.metrics.llmProviderDuration.observe(
+        { provider: providerId },
+        durationMs / 1000,
+      );
     }
-
-    // Default: gemini first
-    return [
-      { id: 'gemini', client: this.geminiClient },
-      { id: 'openai', client: this.openAiClient },
-      { id: 'mock', client: this.mockClient },
-    ];
   }
 
-  async generateReply(
-    messages: ChatMessageDto[],
-    options?: LlmOptions,
-  ): Promise<string> {
-    const providers = this.getOrderedProviders();
+  private failureOutcome(error: unknown): ProviderOutcome {
+    return error instanceof ProviderTimeoutError ? 'timeout' : 'failure';
+  }
 
+  /**
+   * Runs call against each available provider in order until one succeeds,
+   * recording every outcome on that provider's breaker.
+   */
+  private async withFallback<T>(
+    purpose: string,
+    call: (client: ILlmClient) => Promise<T>,
+  ): Promise<T> {
     let lastError: unknown;
 
-    for (const provider of providers) {
+    for (const provider of this.providers) {
+      if (!provider.breaker.tryAcquire()) {
+        this.logger.warn(`Skipping provider "${provider.id}": circuit open.`);
+        this.recordAttempt(provider.id, 'circuit_open');
+        continue;
+      }
+      const startedAt = Date.now();
       try {
-        this.logger.log(
-          `Trying provider "${provider.id}" to generate reply...`,
+        this.logger.log(`Trying provider "${provider.id}" to ${purpose}...`);
+        const result = await withTimeout(
+          call(provider.client),
+          this.timeoutMs,
+          provider.id,
         );
-        const reply = await provider.client.generateReply(messages, options);
+        provider.breaker.recordSuccess();
+        this.recordAttempt(provider.id, 'success', Date.now() - startedAt);
+        this.servingProvider = provider.id;
         this.logger.log(`Provider "${provider.id}" succeeded.`);
-        return reply;
+        return result;
       } catch (error) {
         lastError = error;
+        provider.breaker.recordFailure(error);
+        this.recordAttempt(
+          provider.id,
+          this.failureOutcome(error),
+          Date.now() - startedAt,
+        );
         this.logger.error(
           `Provider "${provider.id}" failed, trying next if available.`,
           error as Error,
@@ -84,11 +228,173 @@ export class MultiLlmClient implements ILlmClient {
       }
     }
 
+    return this.allProvidersFailed(lastError);
+  }
+
+  private allProvidersFailed(lastError: unknown): never {
     this.logger.error(
       'All configured LLM providers failed. Returning generic error.',
       lastError as Error,
     );
-    throw lastError ?? new Error('All LLM providers failed.');
+    throw (
+      lastError ??
+      new Error('All LLM providers failed or are unavailable (circuit open).')
+    );
+  }
+
+  async generateReply(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+  ): Promise<LlmResult> {
+    return this.withFallback('generate reply', (client) =>
+      client.generateReply(messages, options),
+    );
+  }
+
+  /**
+   * Tool-aware variant of generateReply with the same fallback order. Providers
+   * without native tool calling (FreeFlow, mock) are driven through the
+   * prompt-based JSON contract instead, so a fallback never loses tool support.
+   */
+  async generateWithTools(
+    messages: ChatMessageDto[],
+    tools: LlmToolDefinition[],
+    options?: LlmOptions,
+  ): Promise<LlmToolReply> {
+    return this.withFallback('generate tool-aware reply', (client) =>
+      client.generateWithTools
+        ? client.generateWithTools(messages, tools, options)
+        : generateWithPromptTools(client, messages, tools, options, () =>
+            this.metrics.toolParseFailures.inc({ source: 'prompt_tools' }),
+          ),
+    );
+  }
+
+  /**
+   * Streams from the first provider that produces output. Fallback only happens
+   * before the first chunk: once text has reached the caller, a mid-stream
+   * failure is rethrown rather than mixing replies from two providers.
+   * Providers without streamReply are awaited and emitted as a single chunk.
+   * The provider timeout applies to the first chunk only. Returns the serving
+   * provider's call meta.
+   */
+  async *streamReply(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+  ): LlmStream {
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      if (!provider.breaker.tryAcquire()) {
+        this.logger.warn(`Skipping provider "${provider.id}": circuit open.`);
+        this.recordAttempt(provider.id, 'circuit_open');
+        continue;
+      }
+      let emitted = false;
+      let settled = false;
+      let meta: LlmCallMeta | undefined;
+      const startedAt = Date.now();
+      try {
+        this.logger.log(`Trying provider "${provider.id}" to stream reply...`);
+        if (provider.client.streamReply) {
+          const iterator = provider.client.streamReply(messages, options);
+          let next = await withTimeout(
+            iterator.next(),
+            this.timeoutMs,
+            provider.id,
+          ).catch((error) => {
+            iterator.return(undefined).catch(() => undefined);
+            throw error;
+          });
+          while (next.done !== true) {
+            if (!emitted) {
+              this.recordAttempt(
+                provider.id,
+                'success',
+                Date.now() - startedAt,
+              );
+            }
+            emitted = true;
+            yield next.value;
+            next = await iterator.next();
+          }
+          if (!emitted) {
+            throw new Error('LLM returned an empty stream.');
+          }
+          meta = next.value;
+        } else {
+          const reply = await withTimeout(
+            provider.client.generateReply(messages, options),
+            this.timeoutMs,
+            provider.id,
+          );
+          this.recordAttempt(provider.id, 'success', Date.now() - startedAt);
+          emitted = true;
+          yield reply.text;
+          meta = callMeta(reply);
+        }
+        settled = true;
+        provider.breaker.recordSuccess();
+        this.servingProvider = provider.id;
+        this.logger.log(`Provider "${provider.id}" succeeded.`);
+        return (
+          meta ?? {
+            provider: provider.id,
+            model: 'unknown',
+            latencyMs: Date.now() - startedAt,
+          }
+        );
+      } catch (error) {
+        settled = true;
+        provider.breaker.recordFailure(error);
+        if (emitted) throw error;
+        this.recordAttempt(
+          provider.id,
+          this.failureOutcome(error),
+          Date.now() - startedAt,
+        );
+        lastError = error;
+        this.logger.error(
+          `Provider "${provider.id}" failed, trying next if available.`,
+          error as Error,
+        );
+      } finally {
+        // The caller stopped reading mid-stream: the provider was working.
+        if (!settled) provider.breaker.recordSuccess();
+      }
+    }
+
+    this.allProvidersFailed(lastError);
   }
 }
 
+async function generateWithPromptTools(
+  client: ILlmClient,
+  messages: ChatMessageDto[],
+  tools: LlmToolDefinition[],
+  options: LlmOptions | undefined,
+  onParseFailure: () => void,
+): Promise<LlmToolReply> {
+  const instructions = buildToolCallingInstructions(tools);
+  const withInstructions = messages.map((m) =>
+    m.role === 'system'
+      ? { ...m, content: `${m.content}\n${instructions}` }
+      : m,
+  );
+  const result = await client.generateReply(withInstructions, options);
+  const toolActions = parseToolActions(
+    result.text,
+    tools.map((t) => t.name),
+  );
+  if (toolActions === null) {
+    if (/^\s*[[{]/.test(result.text)) onParseFailure();
+    return { ...result, toolCalls: [] };
+  }
+  return {
+    ...callMeta(result),
+    text: '',
+    toolCalls: toolActions
+      .filter((a) => a.action !== NO_TOOL_ACTION)
+      .map((a) => ({ name: a.action, arguments: a.params ?? {} })),
+  };
+}
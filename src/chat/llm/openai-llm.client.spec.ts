@@ -0,0 +1,123 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of } from 'rxjs';
+import { ChatMessageDto } from '../dto/chat-request.dto';
+import { LlmToolDefinition } from './llm-client.interface';
+import { OpenAiLlmClient } from './openai-llm.client';
+
+const messages: ChatMessageDto[] = [
+  { role: 'system', content: 'Be helpful.' },
+  { role: 'user', content: 'Is UA2402 on time?' },
+];
+
+const tools: LlmToolDefinition[] = [
+  {
+    name: 'flight_status',
+    description: 'Flight status.',
+    parameters: { type: 'object', properties: {} },
+  },
+];
+
+function createClient(data: unknown) {
+  const http = { post: jest.fn(() => of({ data })) };
+  const client = new OpenAiLlmClient(
+    http as unknown as HttpService,
+    {
+      get: (key: string) => ({ OPENAI_API_KEY: 'sk-test' })[key],
+    } as ConfigService,
+  );
+  return { client, http };
+}
+
+describe('OpenAiLlmClient', () => {
+  it('sends the tools and parses tool_calls into tool calls', async () => {
+    const { client, http } = createClient({
+      model: 'gpt-4o-2024-08-06',
+      choices: [
+        {
+          message: {
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: {
+                  name: 'flight_status',
+                  arguments: '{"flight_number":"UA2402"}',
+                },
+              },
+              { id: 'call_2', type: 'function', function: { arguments: '{}' } },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 120, completion_tokens: 18 },
+    });
+
+    const reply = await client.generateWithTools(messages, tools);
+
+    expect(reply).toMatchObject({
+      text: '',
+      toolCalls: [
+        { name: 'flight_status', arguments: { flight_number: 'UA2402' } },
+      ],
+      provider: 'openai',
+      model: 'gpt-4o-2024-08-06',
+      usage: { promptTokens: 120, completionTokens: 18 },
+      finishReason: 'tool_calls',
+    });
+    const body = (http.post.mock.calls[0] as unknown[])[1];
+    expect(body).toMatchObject({
+      tool_choice: 'auto',
+      tools: [
+        {
+          type: 'function',
+          function: { name: 'flight_status', description: 'Flight status.' },
+        },
+      ],
+    });
+  });
+
+  it('treats malformed or non-object arguments as empty params', async () => {
+    const call = (args: string) => ({
+      type: 'function',
+      function: { name: 'flight_status', arguments: args },
+    });
+    const { client } = createClient({
+      choices: [
+        {
+          message: {
+            tool_calls: [
+              call('{"flight_number": "UA24'),
+              call('UA2402'),
+              call('["UA2402"]'),
+              call(''),
+            ],
+          },
+        },
+      ],
+    });
+
+    const { toolCalls } = await client.generateWithTools(messages, tools);
+
+    expect(toolCalls.map((c) => c.arguments)).toEqual([{}, {}, {}, {}]);
+  });
+
+  it('returns a direct answer as text without tool calls', async () => {
+    const { client } = createClient({
+      choices: [
+        {
+          message: { content: ' Refunds take 5–10 days. ' },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    const reply = await client.generateWithTools(messages, tools);
+
+    expect(reply.text).toBe('Refunds take 5–10 days.');
+    expect(reply.toolCalls).toEqual([]);
+    expect(reply.finishReason).toBe('stop');
+  });
+});
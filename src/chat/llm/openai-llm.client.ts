@@ -1,15 +1,75 @@
-import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  Optional,
+} from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { ChatMessageDto } from '../dto/chat-request.dto';
-import { ILlmClient, LlmOptions } from './llm-client.interface';
+import {
+  ILlmClient,
+  LlmCallMeta,
+  LlmOptions,
+  LlmResult,
+  LlmStream,
+  LlmToolCall,
+  LlmToolDefinition,
+  LlmToolReply,
+  LlmUsage,
+} from './llm-client.interface';
+import { normalizeFinishReason, parseToolArguments } from './llm-result';
+import { parseSseJson, readSseData } from './sse-stream';
+import type { TenantLlmOverrides } from '../../tenants/tenant.types';
 
 interface OpenAiChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
+interface OpenAiToolCall {
+  id?: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAiResponseMessage {
+  content?: string | null;
+  tool_calls?: OpenAiToolCall[];
+}
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAiCompletion {
+  model?: string;
+  choices?: Array<{
+    message?: OpenAiResponseMessage;
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAiUsage | null;
+}
+
+interface OpenAiChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAiUsage | null;
+}
+
+function toUsage(usage: OpenAiUsage | null | undefined): LlmUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+}
+
 @Injectable()
 export class OpenAiLlmClient implements ILlmClient {
   private readonly logger = new Logger(OpenAiLlmClient.name);
@@ -19,9 +79,15 @@ export class OpenAiLlmClient implements ILlmClient {
   constructor(
     private readonly http: HttpService,
     private readonly config: ConfigService,
+    @Optional() tenant: TenantLlmOverrides = {},
   ) {
-    this.apiKey = this.config.get<string>('OPENAI_API_KEY') ?? '';
-    this.model = this.config.get<string>('OPENAI_MODEL') ?? 'gpt-4o';
+    const { llm = {}, integrations = {} } = tenant;
+    this.apiKey =
+      integrations.openaiApiKey ??
+      this.config.get<string>('OPENAI_API_KEY') ??
+      '';
+    this.model =
+      llm.openaiModel ?? this.config.get<string>('OPENAI_MODEL') ?? 'gpt-4o';
 
     if (!this.apiKey) {
       this.logger.warn(
@@ -33,51 +99,154 @@ export class OpenAiLlmClient implements ILlmClient {
   async generateReply(
     messages: ChatMessageDto[],
     options?: LlmOptions,
-  ): Promise<string> {
-    if (!this.apiKey) {
-      throw new InternalServerErrorException(
-        'LLM is not configured (missing OPENAI_API_KEY).',
-      );
+  ): Promise<LlmResult> {
+    const { message, meta } = await this.createCompletion(messages, options);
+    const content = message.content?.trim() ?? '';
+
+    if (!content) {
+      this.logger.warn('Empty response from OpenAI');
+      throw new InternalServerErrorException('LLM returned an empty response.');
+    }
+
+    return { text: content, ...meta };
+  }
+
+  /**
+   * Chat completion with native function calling. tool_calls arguments arrive as a
+   * JSON string; malformed arguments are treated as an empty object.
+   */
+  async generateWithTools(
+    messages: ChatMessageDto[],
+    tools: LlmToolDefinition[],
+    options?: LlmOptions,
+  ): Promise<LlmToolReply> {
+    const { message, meta } = await this.createCompletion(messages, options, {
+      tools: tools.map((t) => ({
+        type: 'function',
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.parameters,
+        },
+      })),
+      tool_choice: 'auto',
+    });
+
+    const toolCalls: LlmToolCall[] = (message.tool_calls ?? [])
+      .filter((c) => c.function?.name)
+      .map((c) => ({
+        name: c.function.name,
+        arguments: parseToolArguments(c.function.arguments),
+      }));
+
+    return { text: message.content?.trim() ?? '', toolCalls, ...meta };
+  }
+
+  /** Asks for a final usage chunk (stream_options.include_usage) for the returned meta. */
+  async *streamReply(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+  ): LlmStream {
+    const startedAt = Date.now();
+    const stream = await this.request<AsyncIterable<Buffer>>(
+      this.buildBody(messages, options, {
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      'stream',
+    );
+
+    let model = this.model;
+    let usage: LlmUsage | undefined;
+    let finishReason: string | null | undefined;
+    for await (const data of readSseData(stream)) {
+      const chunk = parseSseJson<OpenAiChunk>(data);
+      model = chunk?.model ?? model;
+      usage = toUsage(chunk?.usage) ?? usage;
+      finishReason = chunk?.choices?.[0]?.finish_reason ?? finishReason;
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
     }
 
+    return {
+      provider: 'openai',
+      model,
+      usage,
+      finishReason: normalizeFinishReason(finishReason),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  private async createCompletion(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+    extraBody: Record<string, unknown> = {},
+  ): Promise<{ message: OpenAiResponseMessage; meta: LlmCallMeta }> {
+    const startedAt = Date.now();
+    const data = await this.request<OpenAiCompletion>(
+      this.buildBody(messages, options, extraBody),
+      'json',
+    );
+    const choice = data?.choices?.[0];
+    return {
+      message: choice?.message ?? {},
+      meta: {
+        provider: 'openai',
+        model: data?.model ?? this.model,
+        usage: toUsage(data?.usage),
+        finishReason: normalizeFinishReason(choice?.finish_reason),
+        latencyMs: Date.now() - startedAt,
+      },
+    };
+  }
+
+  private buildBody(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+    extraBody: Record<string, unknown> = {},
+  ): Record<string, unknown> {
     const openAiMessages: OpenAiChatMessage[] = messages.map((m) => ({
       role: m.role,
       content: m.content,
     }));
 
+    return {
+      model: this.model,
+      messages: openAiMessages,
+      temperature: options?.temperature ?? 0.3,
+      max_tokens: options?.maxTokens,
+      ...extraBody,
+    };
+  }
+
+  private async request<T>(
+    body: Record<string, unknown>,
+    responseType: 'json' | 'stream',
+  ): Promise<T> {
+    if (!this.apiKey) {
+      throw new InternalServerErrorException(
+        'LLM is not configured (missing OPENAI_API_KEY).',
+      );
+    }
+
     try {
-      const response$ = this.http.post(
+      const response$ = this.http.post<T>(
         'https://api.openai.com/v1/chat/completions',
-        {
-          model: this.model,
-          messages: openAiMessages,
-          temperature: options?.temperature ?? 0.3,
-          max_tokens: options?.maxTokens,
-        },
+        body,
         {
           headers: {
             Authorization: `Bearer ${this.apiKey}`,
             'Content-Type': 'application/json',
           },
+          responseType,
         },
       );
 
       const response = await firstValueFrom(response$);
-      const content =
-        response.data?.choices?.[0]?.message?.content?.trim() ?? '';
-
-      if (!content) {
-        this.logger.warn('Empty response from OpenAI');
-        throw new InternalServerErrorException(
-          'LLM returned an empty response.',
-        );
-      }
-
-      return content;
+      return response.data;
     } catch (error) {
       this.logger.error('Error calling OpenAI', error as Error);
       throw new InternalServerErrorException('Failed to generate a reply.');
     }
   }
 }
-
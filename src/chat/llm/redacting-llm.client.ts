@@ -0,0 +1,83 @@
+import { ChatMessageDto } from '../dto/chat-request.dto';
+import type { RedactionSession } from '../../redaction/redaction-session';
+import {
+  ILlmClient,
+  LlmOptions,
+  LlmResult,
+  LlmStream,
+  LlmToolDefinition,
+  LlmToolReply,
+} from './llm-client.interface';
+
+/**
+ * Wraps a turn's LLM client: every message is redacted before it is sent, and
+ * the output gets restorable values (booking references, emails) back, so
+ * tool params and the customer's reply hold real values while the provider
+ * only ever sees placeholders. Optional methods exist only when the wrapped
+ * client has them, so ChatService picks the same code paths.
+ */
+export class RedactingLlmClient implements ILlmClient {
+  readonly generateWithTools?: ILlmClient['generateWithTools'];
+  readonly streamReply?: ILlmClient['streamReply'];
+
+  constructor(
+    private readonly inner: ILlmClient,
+    private readonly session: RedactionSession,
+  ) {
+    if (inner.generateWithTools) {
+      this.generateWithTools = (messages, tools, options) =>
+        this.withTools(messages, tools, options);
+    }
+    if (inner.streamReply) {
+      this.streamReply = (messages, options) =>
+        this.session.restoreStream(
+          inner.streamReply(this.redact(messages), options),
+        ) as LlmStream;
+    }
+  }
+
+  async generateReply(
+    messages: ChatMessageDto[],
+    options?: LlmOptions,
+  ): Promise<LlmResult> {
+    const result = await this.inner.generateReply(
+      this.redact(messages),
+      options,
+    );
+    return { ...result, text: this.session.restore(result.text) };
+  }
+
+  private async withTools(
+    messages: ChatMessageDto[],
+    tools: LlmToolDefinition[],
+    options?: LlmOptions,
+  ): Promise<LlmToolReply> {
+    const result = await this.inner.generateWithTools(
+      this.redact(messages),
+      tools,
+      options,
+    );
+    return {
+      ...result,
+      text: this.session.restore(result.text),
+      toolCalls: result.toolCalls.map((call) => ({
+        ...call,
+        arguments: this.session.restoreParams(call.arguments),
+      })),
+    };
+  }
+
+  /**
+   * System prompts are ours: only values seen in the conversation are replaced
+   * there, so help-center contact details stay as written.
+   */
+  private redact(messages: ChatMessageDto[]): ChatMessageDto[] {
+    return messages.map((m) => ({
+      ...m,
+      content:
+        m.role === 'system'
+          ? this.session.redactKnown(m.content)
+          : this.session.redact(m.content),
+    }));
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Reads a Server-Sent Events response body (OpenAI, Gemini `alt=sse`, FreeFlow)
+ * and yields the payload of each `data:` line. Stops at the OpenAI-style
+ * `[DONE]` sentinel or when the stream ends.
+ */
+export async function* readSseData(
+  stream: AsyncIterable<Buffer | string>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer +=
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) yield data;
+    }
+  }
+}
+
+/** Parses an SSE data payload as JSON; malformed chunks are skipped (null). */
+export function parseSseJson<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+import { detectLanguage, formatDateTime, resolveLocale } from './chat-locale';
+
+describe('chat locale', () => {
+  it.each([
+    ['¿Cuándo sale mi vuelo a Madrid?', 'es'],
+    ['Bonjour, quel temps fait-il à Paris pour mon vol ?', 'fr'],
+    ['Wie ist das Wetter in Berlin für meinen Flug?', 'de'],
+    ['What is the status of my flight?', 'en'],
+    ['UA2402', null],
+  ])('detects the language of %p', (text, language) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('prefers the requested locale and derives units and clock from its region', () => {
+    expect(resolveLocale('en-US')).toEqual({
+      tag: 'en-US',
+      language: 'en',
+      imperial: true,
+      hour12: true,
+    });
+    expect(resolveLocale('en-GB')).toMatchObject({
+      imperial: false,
+      hour12: false,
+    });
+    expect(
+      resolveLocale('fr-FR', [
+        { role: 'user', content: 'Where is my flight?' },
+      ]),
+    ).toMatchObject({ language: 'fr', imperial: false });
+  });
+
+  it('falls back to the detected language, then English', () => {
+    const messages = [
+      {
+        role: 'user' as const,
+        content: 'Hola, ¿cómo puedo cancelar mi reserva?',
+      },
+      { role: 'assistant' as const, content: 'Claro.' },
+      { role: 'user' as const, content: 'UA2402' },
+    ];
+    expect(resolveLocale(undefined, messages)).toMatchObject({
+      tag: 'es',
+      language: 'es',
+      imperial: false,
+    });
+    expect(resolveLocale('it-IT', [])).toMatchObject({ language: 'en' });
+  });
+
+  it('formats dates for the locale', () => {
+    const date = new Date('2025-03-04T14:05:00Z');
+    expect(formatDateTime(date, resolveLocale('en-US'))).toBe(
+      'Mar 4, 2025, 2:05 PM',
+    );
+    expect(formatDateTime(date, resolveLocale('de-DE'))).toBe(
+      '04.03.2025, 14:05',
+    );
+  });
+});
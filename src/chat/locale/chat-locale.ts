@@ -0,0 +1,120 @@
+import type { ChatMessageDto } from '../dto/chat-request.dto';
+
+/** Languages with their own prompt template (see prompts/). */
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'fr', 'de'] as const;
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+/** Regions that use °F and mph. */
+const IMPERIAL_REGIONS = new Set(['US', 'LR', 'MM']);
+
+export interface ChatLocale {
+  /** BCP 47 tag used for Intl formatting, e.g. "en-US" or "es". */
+  tag: string;
+  language: SupportedLanguage;
+  /** °F and mph instead of °C and km/h. */
+  imperial: boolean;
+  /** 12-hour clock (2:05 PM) instead of 24-hour (14:05). */
+  hour12: boolean;
+}
+
+/**
+ * Marker words per language. Short and biased towards help-center vocabulary;
+ * good enough to pick a reply language, not general language identification.
+ */
+const LANGUAGE_MARKERS: Record<SupportedLanguage, Set<string>> = {
+  en: new Set(
+    'the is are my flight what how when where weather hello hi thanks please refund cancel booking can i you'.split(
+      ' ',
+    ),
+  ),
+  es: new Set(
+    'el los las que y mi vuelo qué cómo cuándo dónde tiempo hola gracias por para está reembolso cancelar reserva puedo quiero'.split(
+      ' ',
+    ),
+  ),
+  fr: new Set(
+    'le les des et est mon vol quel quelle comment quand où météo bonjour merci pour je vous remboursement annuler réservation puis'.split(
+      ' ',
+    ),
+  ),
+  de: new Set(
+    'der die das und ist mein flug wie wann wo wetter hallo danke bitte ich sie nicht erstattung stornieren buchung kann für'.split(
+      ' ',
+    ),
+  ),
+};
+
+/** Returns the most likely supported language, or null when unsure. */
+export function detectLanguage(text: string): SupportedLanguage | null {
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const scores = SUPPORTED_LANGUAGES.map((language) => ({
+    language,
+    score: words.filter((w) => LANGUAGE_MARKERS[language].has(w)).length,
+  }));
+  if (/[¿¡ñ]/i.test(text)) scores[1].score += 2;
+  if (/[ßäöü]/i.test(text)) scores[3].score += 2;
+  if (/[çèêàù]/i.test(text)) scores[2].score += 1;
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  return best.score >= 2 && best.score > runnerUp.score ? best.language : null;
+}
+
+function isSupported(language: string): language is SupportedLanguage {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(language);
+}
+
+/**
+ * The locale for a turn: the client's context.locale when its language is
+ * supported, otherwise the language detected from the latest user messages,
+ * otherwise English. Units follow the region ("en-US" → imperial); a bare
+ * language ("en") stays metric.
+ */
+export function resolveLocale(
+  requested: string | undefined,
+  messages: ChatMessageDto[] = [],
+): ChatLocale {
+  let tag = requested?.trim() || '';
+  let language = tag.split('-')[0].toLowerCase();
+
+  if (!isSupported(language)) {
+    const detected = [...messages]
+      .reverse()
+      .filter((m) => m.role === 'user')
+      .map((m) => detectLanguage(m.content))
+      .find((l) => l !== null);
+    language = detected ?? 'en';
+    tag = language;
+  }
+
+  let region: string | undefined;
+  try {
+    region = new Intl.Locale(tag).region;
+  } catch {
+    tag = language;
+  }
+  return {
+    tag,
+    language: language as SupportedLanguage,
+    imperial: region !== undefined && IMPERIAL_REGIONS.has(region),
+    hour12:
+      new Intl.DateTimeFormat(tag, { hour: 'numeric' }).resolvedOptions()
+        .hour12 ?? false,
+  };
+}
+
+export const DEFAULT_LOCALE: ChatLocale = resolveLocale('en');
+
+/** "4 mars 2025, 14:05" / "Mar 4, 2025, 2:05 PM" in the given time zone. */
+export function formatDateTime(
+  date: Date,
+  locale: ChatLocale,
+  timeZone = 'UTC',
+): string {
+  return new Intl.DateTimeFormat(locale.tag, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    hour12: locale.hour12,
+    timeZone,
+  }).format(date);
+}
@@ -1,3 +1,6 @@
+import type { LlmToolDefinition } from './llm/llm-client.interface';
+import type { KbPassage } from '../knowledge-base/knowledge-base.types';
+
 export const OTA_SYSTEM_PROMPT = `
 You are an OTA (online travel agency) virtual assistant working in the help center.
 
@@ -7,9 +10,9 @@ Your goals:
 - Ask clarifying questions when the customer request is ambiguous.
 
 Important rules:
-- You do NOT have direct access to live booking systems or personal data.
+- You can look up the customer's own booking (itinerary, fare type, status) with the booking_lookup tool once they give the booking reference and the passenger surname or booking email. Share booking details only from a successful lookup.
 - Never invent or guess specific reservation details (names, booking references, ticket numbers, payment details).
-- When the customer asks about their specific booking, clearly explain that you cannot see their booking and tell them what information they should look for in their confirmation email or account.
+- If the customer cannot provide the reference and surname or email, or the lookup finds nothing, tell them where to find these details (confirmation email or "My trips").
 - When a task requires an authenticated action (e.g., changing a flight, cancelling a booking, requesting a refund), explain the general steps and what they should click in the app/website instead of claiming you performed the action.
 - If you are unsure or information is missing, say so explicitly and propose next steps.
 
@@ -24,12 +27,9 @@ Domain focus (examples of what you can answer):
 - What flexible fares, baggage rules, and seat selection usually mean.
 - How to contact support when self-service is not enough.
 
-Mock OTA policies & FAQs for this demo (do not treat as universal truth):
-- Cancellations: Many standard fares are non-refundable. Flexible fares often allow changes or cancellations up to 24 hours before departure, usually with a fee.
-- 24-hour grace period: Some airlines allow free cancellation within 24 hours of booking; always check the specific airline or fare rules shown at checkout.
-- Refund timelines: Card refunds can take 5–10 business days after the airline or hotel confirms the refund.
-- Schedule changes: If the airline changes your flight schedule significantly (e.g., more than 3 hours), customers are often eligible for a free change or refund; exact rules depend on the airline.
-- No-shows: If a customer does not show up for a flight without cancelling, most tickets lose their value.
+Policies & FAQs:
+- Answer policy questions (cancellations, refunds, schedule changes, baggage, etc.) from the help-center articles at the end of this prompt when there are any; they take precedence over general knowledge.
+- If no article covers the question, say that policies vary by airline or fare and point the customer to the fare rules or support instead of inventing specific rules.
 
 Format your answers as:
 - A short direct answer first.
@@ -40,33 +40,90 @@ Format your answers as:
 /**
  * Tool-calling contract: when you need live data, respond with ONLY a JSON object (no markdown, no extra text).
  * - action: "none" when you can answer from general knowledge; no params.
- * - action: "flight_status" when the user asks about a specific flight's status. params: { "flight_number": "UA2402", "date": "YYYY-MM-DD" } (date optional).
- * - action: "route_weather" when the user asks about weather for a route or cities. params: { "origin_city": "Barcelona", "destination_city": "Dublin" }.
- * - action: "weather_at_flight_arrival" when the user asks about weather/temperature at the arrival (or destination) city of a specific flight. params: { "flight_number": "W61176", "date": "YYYY-MM-DD" optional }. We fetch the flight and then the weather at the arrival location.
- * Respond with plain text only when you do NOT need any API; respond with exactly one JSON object when you need flight or weather data.
+ * - action: "<tool name>" with params matching that tool's parameter schema.
+ * Respond with plain text only when you do NOT need any API; respond with one JSON object (or an array of them for
+ * independent calls) when you need live data.
+ * The tool list, examples and routing rules are generated from the registered ChatTools (see ToolRegistry).
  */
-export const TOOL_CALLING_INSTRUCTIONS = `
-You have access to live data tools. When the customer asks for real-time flight status, weather for cities/routes, or weather at the arrival city of a specific flight, you MUST respond with ONLY a single JSON object—no other text, no markdown, no explanation. Do NOT say you lack access; use the tool by returning the JSON. For general questions (cancellation policies, how to find a booking, etc.) respond in normal text.
+export function buildToolCallingInstructions(
+  tools: LlmToolDefinition[],
+): string {
+  const formats = tools
+    .map((t) => `- ${t.name}: ${toolJson(t.name, paramPlaceholders(t))}`)
+    .join('\n');
+  const descriptions = tools
+    .map((t) => `- ${t.name}: ${t.description}`)
+    .join('\n');
+  const examples = tools
+    .flatMap((t) =>
+      (t.examples ?? []).map(
+        (e) => `- Q: "${e.question}" → A: ${toolJson(t.name, e.arguments)}`,
+      ),
+    )
+    .join('\n');
+  const rules = [
+    ...tools.flatMap((t) => t.rules ?? []),
+    'To call several independent tools at once, reply with a JSON array of these objects, e.g. [{"action":"...","params":{...}},{"action":"...","params":{...}}].',
+    'After TOOL_RESULT messages, request further tools only if you still need more data; otherwise reply {"action":"none"}. Never repeat a call whose result you already have.',
+    'Reply with nothing but the JSON when you need live data.',
+  ]
+    .map((r) => `- ${r}`)
+    .join('\n');
 
-JSON format (exactly one of these):
-- No API needed: {"action":"none"}
-- Flight status: {"action":"flight_status","params":{"flight_number":"<IATA e.g. UA2402>","date":"<YYYY-MM-DD optional>"}}
-- Route weather: {"action":"route_weather","params":{"origin_city":"<city name>","destination_city":"<city name>","departure_time":"<ISO datetime optional>"}}
-- Weather at flight arrival: {"action":"weather_at_flight_arrival","params":{"flight_number":"<IATA e.g. W61176>","date":"<YYYY-MM-DD optional>"}}
+  return `
+You have access to live data tools. When the customer asks for live data that one of the tools below provides, you MUST respond with ONLY JSON (one tool object, or an array of them)—no other text, no markdown, no explanation. Do NOT say you lack access; use the tool by returning the JSON. For general questions (cancellation policies, how to find a booking, etc.) respond in normal text.
 
-Examples (MANDATORY behavior):
-- Q: "What's the weather like in Barcelona?" → A: {"action":"route_weather","params":{"origin_city":"Barcelona","destination_city":"Barcelona"}}
-- Q: "What's the weather like in Barcelona and Dublin today?" → A: {"action":"route_weather","params":{"origin_city":"Barcelona","destination_city":"Dublin"}}
-- Q: "What temperature will it be at the arrival city of flight W61176?" → A: {"action":"weather_at_flight_arrival","params":{"flight_number":"W61176"}}
+Tools:
+${descriptions}
 
+JSON format (one of these per tool call):
+- No API needed: {"action":"none"}
+${formats}
+${examples ? `\nExamples (MANDATORY behavior):\n${examples}\n` : ''}
 Rules:
-- If the user asks about weather or temperature at the ARRIVAL (or destination) city of a specific flight, use weather_at_flight_arrival with that flight number (do NOT use "none" or route_weather).
-- If the user clearly asks about weather for one or two concrete cities (not tied to a flight), use the route_weather action (do NOT use "none").
-- If the user only mentions ONE city for weather, set BOTH origin_city and destination_city to that city.
-- Extract flight number in IATA format (e.g. UA2402, W61176, BA123). Use today's date if the user says "today" or equivalent.
-- For route_weather use city names in English when possible.
-- Reply with nothing but the JSON when you need flight or weather data.
+${rules}
 `;
+}
 
-export const OTA_SYSTEM_PROMPT_WITH_TOOLS = OTA_SYSTEM_PROMPT + '\n' + TOOL_CALLING_INSTRUCTIONS;
+function toolJson(name: string, params: Record<string, unknown>): string {
+  return JSON.stringify({ action: name, params });
+}
 
+/** {"flight_number":"<IATA e.g. UA2402>","date":"<YYYY-MM-DD optional>"} from the JSON Schema. */
+function paramPlaceholders(tool: LlmToolDefinition): Record<string, string> {
+  const properties = (tool.parameters.properties ?? {}) as Record<
+    string,
+    { description?: string }
+  >;
+  const required = (tool.parameters.required ?? []) as string[];
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, schema]) => [
+      key,
+      `<${schema.description ?? key}${required.includes(key) ? '' : ' optional'}>`,
+    ]),
+  );
+}
+
+/**
+ * Phase-1 instructions for providers with native tool calling. The tool list and
+ * routing rules travel as tool declarations (see ToolRegistry), so this only
+ * needs to push the model towards using them.
+ */
+export const NATIVE_TOOL_INSTRUCTIONS = `
+You have access to live data tools. When the customer asks for live data that one of the tools provides, call the matching tool instead of saying you lack access. You may call several tools at once when the question needs independent data (e.g. two flights), and call more after seeing TOOL_RESULT messages if still needed. For general questions (cancellation policies, how to find a booking, etc.) answer directly in normal text without calling a tool.
+`;
+
+export const OTA_SYSTEM_PROMPT_WITH_NATIVE_TOOLS =
+  OTA_SYSTEM_PROMPT + '\n' + NATIVE_TOOL_INSTRUCTIONS;
+
+/**
+ * Help-center passages retrieved for the current question, appended to the
+ * system prompt of every LLM call in the turn. Empty when nothing matched.
+ */
+export function buildKnowledgeContext(passages: KbPassage[]): string {
+  if (passages.length === 0) return '';
+  const articles = passages
+    .map((p) => `[${p.documentId}] ${p.title}\n${p.text}`)
+    .join('\n\n');
+  return `\nHelp-center articles relevant to this question:\n${articles}\n`;
+}
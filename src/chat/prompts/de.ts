@@ -0,0 +1,14 @@
+import type { PromptTemplate } from './prompt-template';
+
+export const DE_PROMPTS: PromptTemplate = {
+  replyLanguage:
+    'Antworte immer auf Deutsch, auch wenn die Artikel oder die Tool-Daten auf Englisch sind.',
+  naturalLanguageOnly:
+    'WICHTIG: Antworte immer in natürlicher, freundlicher Sprache. Gib niemals JSON, Codeblöcke oder rohe Datenstrukturen aus.',
+  phase2Instruction:
+    'Antworte dem Kunden mit den obigen Daten auf Deutsch in natürlicher Sprache (kurz, klar, freundlich). Wiederhole kein JSON und keine technischen Bezeichnungen. Wenn die Wetterdaten eine Vorhersage sind, sage, dass es die Vorhersage für diese Uhrzeit ist und nicht die aktuellen Bedingungen.',
+  handoff: (ticketId) =>
+    `Ich habe Ihr Gespräch an unser Support-Team weitergegeben. Ihre Ticketnummer ist ${ticketId}; ein Mitarbeiter meldet sich so schnell wie möglich bei Ihnen.`,
+  guardrailFallback:
+    'Das kann ich hier leider nicht beantworten. Ich kann erklären, wie Buchungen, Änderungen, Stornierungen und Erstattungen funktionieren, oder einen Flug bzw. Ihre Buchung prüfen. Änderungen und Stornierungen nehmen Sie unter „Meine Reisen“ auf unserer Website oder in der App vor. Wie kann ich helfen?',
+};
@@ -0,0 +1,14 @@
+import type { PromptTemplate } from './prompt-template';
+
+export const EN_PROMPTS: PromptTemplate = {
+  replyLanguage:
+    "Reply in English, unless the customer clearly writes in another language; then reply in the customer's language.",
+  naturalLanguageOnly:
+    'IMPORTANT: Always reply in natural, friendly language. Never output JSON, code blocks, or raw data structures.',
+  phase2Instruction:
+    'Using the data above, reply to the customer in natural language (short, clear, friendly). Do not repeat raw JSON or technical labels. If weather data is a forecast, say it is the forecast for that time rather than current conditions.',
+  handoff: (ticketId) =>
+    `I've passed your conversation to our support team. Your ticket number is ${ticketId}; an agent will pick it up and get back to you as soon as possible.`,
+  guardrailFallback:
+    'I\'m sorry, I can\'t help with that here. I can explain how bookings, changes, cancellations and refunds work, or check a flight or your booking. Changes and cancellations are made in "My trips" on our website or app. What would you like to do?',
+};
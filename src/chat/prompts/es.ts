@@ -0,0 +1,14 @@
+import type { PromptTemplate } from './prompt-template';
+
+export const ES_PROMPTS: PromptTemplate = {
+  replyLanguage:
+    'Responde siempre en español, aunque los artículos o los datos de las herramientas estén en inglés.',
+  naturalLanguageOnly:
+    'IMPORTANTE: Responde siempre en un lenguaje natural y amable. Nunca devuelvas JSON, bloques de código ni estructuras de datos.',
+  phase2Instruction:
+    'Con los datos anteriores, responde al cliente en español y en lenguaje natural (breve, claro y amable). No repitas JSON ni etiquetas técnicas. Si los datos del tiempo son una previsión, di que es la previsión para esa hora y no las condiciones actuales.',
+  handoff: (ticketId) =>
+    `He pasado tu conversación a nuestro equipo de atención al cliente. Tu número de ticket es ${ticketId}; un agente lo revisará y te responderá lo antes posible.`,
+  guardrailFallback:
+    'Lo siento, no puedo ayudarte con eso aquí. Puedo explicarte cómo funcionan las reservas, los cambios, las cancelaciones y los reembolsos, o consultar un vuelo o tu reserva. Los cambios y cancelaciones se hacen en \"Mis viajes\" en nuestra web o app. ¿Qué te gustaría hacer?',
+};
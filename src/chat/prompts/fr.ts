@@ -0,0 +1,14 @@
+import type { PromptTemplate } from './prompt-template';
+
+export const FR_PROMPTS: PromptTemplate = {
+  replyLanguage:
+    'Réponds toujours en français, même si les articles ou les données des outils sont en anglais.',
+  naturalLanguageOnly:
+    'IMPORTANT : réponds toujours dans un langage naturel et cordial. Ne renvoie jamais de JSON, de blocs de code ni de structures de données.',
+  phase2Instruction:
+    "À partir des données ci-dessus, réponds au client en français, en langage naturel (court, clair et cordial). Ne répète pas le JSON ni les libellés techniques. Si les données météo sont une prévision, précise qu'il s'agit de la prévision pour cette heure et non des conditions actuelles.",
+  handoff: (ticketId) =>
+    `J'ai transmis votre conversation à notre équipe d'assistance. Votre numéro de ticket est ${ticketId} ; un conseiller le prendra en charge et vous répondra dès que possible.`,
+  guardrailFallback:
+    'Désolé, je ne peux pas vous aider sur ce point ici. Je peux vous expliquer le fonctionnement des réservations, modifications, annulations et remboursements, ou consulter un vol ou votre réservation. Les modifications et annulations se font dans « Mes voyages » sur notre site ou notre application. Que souhaitez-vous faire ?',
+};
@@ -0,0 +1,34 @@
+import type { SupportedLanguage } from '../locale/chat-locale';
+import { EN_PROMPTS } from './en';
+import { ES_PROMPTS } from './es';
+import { FR_PROMPTS } from './fr';
+import { DE_PROMPTS } from './de';
+
+/**
+ * Locale-specific prompt text. The OTA system prompt itself stays in English
+ * (see ota-system-prompt.ts); these are the parts that steer the language and
+ * wording of the customer-facing reply, written in the target language.
+ */
+export interface PromptTemplate {
+  /** Appended to every system prompt of the turn. */
+  replyLanguage: string;
+  /** Appended to the system prompt when the reply must be plain prose. */
+  naturalLanguageOnly: string;
+  /** Final user-role instruction after the TOOL_RESULT notes in phase 2. */
+  phase2Instruction: string;
+  /** Customer-facing reply when the conversation is handed to a human agent. */
+  handoff: (ticketId: string) => string;
+  /** Sent instead of a reply that still breaks a guardrail after regeneration. */
+  guardrailFallback: string;
+}
+
+const PROMPT_TEMPLATES: Record<SupportedLanguage, PromptTemplate> = {
+  en: EN_PROMPTS,
+  es: ES_PROMPTS,
+  fr: FR_PROMPTS,
+  de: DE_PROMPTS,
+};
+
+export function getPromptTemplate(language: SupportedLanguage): PromptTemplate {
+  return PROMPT_TEMPLATES[language] ?? EN_PROMPTS;
+}
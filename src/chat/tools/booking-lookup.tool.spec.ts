@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+import { AirportDirectory } from '../../airports/airport-directory.service';
+import { FixtureBookingProvider } from '../../bookings/fixture-booking.provider';
+import { resolveLocale } from '../locale/chat-locale';
+import { BookingLookupTool } from './booking-lookup.tool';
+
+describe('BookingLookupTool', () => {
+  const config = { get: () => undefined } as unknown as ConfigService;
+  // Reads fixtures/bookings.json and the bundled airport dataset.
+  const tool = new BookingLookupTool(
+    new FixtureBookingProvider(config),
+    new AirportDirectory(config),
+  );
+
+  it('returns legs, fare and status once the surname matches', async () => {
+    const { summary } = await tool.execute(
+      { booking_reference: 'qx7k2m', surname: 'garcia' },
+      { locale: resolveLocale('en-GB') },
+    );
+
+    expect(summary).toContain('Booking QX7K2M: status ticketed, Flex fare.');
+    expect(summary).toContain(
+      'IB3166 Madrid (MAD) → Dublin (DUB), departs 12 Nov 2026, 10:05, arrives 12 Nov 2026, 11:50 (flight date 2026-11-12, Economy).',
+    );
+    expect(summary).toContain('EI593 Dublin (DUB) → Madrid (MAD)');
+  });
+
+  it('uses context.bookingRef and accepts the booking email', async () => {
+    const { summary } = await tool.execute(
+      { email: 'J.Smith@example.com' },
+      { bookingRef: 'ZT4R9B', locale: resolveLocale('en-US') },
+    );
+
+    expect(summary).toContain('Passengers: John Smith, Emma Smith.');
+    expect(summary).toContain('departs Dec 3, 2026, 8:00 AM');
+  });
+
+  it('reveals nothing without a matching verification', async () => {
+    const wrongSurname = await tool.execute(
+      { booking_reference: 'QX7K2M', surname: 'Smith' },
+      {},
+    );
+    const unverified = await tool.execute({ booking_reference: 'QX7K2M' }, {});
+
+    expect(wrongSurname.summary).toContain('No booking found');
+    expect(wrongSurname.raw).toBeUndefined();
+    expect(unverified.summary).toContain(
+      'ask the customer for the passenger surname',
+    );
+  });
+});
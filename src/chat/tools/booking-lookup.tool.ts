@@ -0,0 +1,112 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { AirportDirectory } from '../../airports/airport-directory.service';
+import { IBookingProvider } from '../../bookings/booking-provider.interface';
+import { Booking, BookingLeg } from '../../bookings/booking.types';
+import {
+  ChatLocale,
+  DEFAULT_LOCALE,
+  formatDateTime,
+} from '../locale/chat-locale';
+import {
+  ChatTool,
+  ChatToolContext,
+  ChatToolResult,
+} from './chat-tool.interface';
+import { RegisterChatTool } from './chat-tool.decorator';
+import type { BookingLookupParams } from './tool-action.types';
+
+/**
+ * Looks up the customer's booking after verifying a surname or email. Each leg
+ * lists its flight number and date so the model can follow up with
+ * flight_status or weather_at_flight_arrival.
+ */
+@Injectable()
+@RegisterChatTool()
+export class BookingLookupTool implements ChatTool<BookingLookupParams> {
+  readonly name = 'booking_lookup';
+  readonly description =
+    "The customer's own booking: itinerary legs, fare type and status. Needs the booking reference and the passenger surname or booking email.";
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      booking_reference: {
+        type: 'string',
+        description: 'booking reference e.g. QX7K2M',
+      },
+      surname: { type: 'string', description: 'passenger surname' },
+      email: { type: 'string', description: 'email used for the booking' },
+    },
+    required: [],
+  };
+  readonly examples = [
+    {
+      question: 'Can you check my booking QX7K2M? My surname is García.',
+      arguments: { booking_reference: 'QX7K2M', surname: 'García' },
+    },
+  ];
+  readonly rules = [
+    'Use booking_lookup when the customer asks about their own booking and has given a surname or email; ask for the missing details instead of calling it without them.',
+    'After booking_lookup, use the flight numbers and dates of its legs with flight_status or weather_at_flight_arrival if the customer asks about status or weather.',
+  ];
+
+  constructor(
+    @Inject('IBookingProvider')
+    private readonly bookings: IBookingProvider,
+    private readonly airports: AirportDirectory,
+  ) {}
+
+  async execute(
+    params: BookingLookupParams,
+    context: ChatToolContext,
+  ): Promise<ChatToolResult> {
+    // The app may already know the reference (context.bookingRef).
+    const reference = (params.booking_reference || context.bookingRef)?.trim();
+    if (!reference) {
+      return { summary: 'No booking reference provided.' };
+    }
+    if (!params.surname?.trim() && !params.email?.trim()) {
+      return {
+        summary: `To look up booking ${reference}, ask the customer for the passenger surname or the email used for the booking.`,
+      };
+    }
+
+    context.onStatus?.(`Looking up booking ${reference}…`);
+    const booking = await this.bookings.findBooking(reference, {
+      surname: params.surname,
+      email: params.email,
+    });
+    if (!booking) {
+      return {
+        summary: `No booking found for reference ${reference} with those details. Ask the customer to check the reference and surname/email on their confirmation email.`,
+      };
+    }
+    return {
+      summary: this.describeBooking(booking, context.locale ?? DEFAULT_LOCALE),
+      raw: booking,
+    };
+  }
+
+  private describeBooking(booking: Booking, locale: ChatLocale): string {
+    const passengers = booking.passengers
+      .map((p) => `${p.firstName} ${p.lastName}`)
+      .join(', ');
+    const legs = booking.legs
+      .map((leg, i) => `${i + 1}) ${this.describeLeg(leg, locale)}`)
+      .join(' ');
+    return `Booking ${booking.reference}: status ${booking.status}, ${booking.fareType} fare. Passengers: ${passengers}. Legs: ${legs}`;
+  }
+
+  /** Times are shown in each airport's local time zone. */
+  private describeLeg(leg: BookingLeg, locale: ChatLocale): string {
+    const origin = this.airports.findByIata(leg.origin);
+    const destination = this.airports.findByIata(leg.destination);
+    const place = (code: string, city?: string) =>
+      city ? `${city} (${code})` : code;
+    return [
+      `${leg.flightNumber} ${place(leg.origin, origin?.city)} → ${place(leg.destination, destination?.city)},`,
+      `departs ${formatDateTime(new Date(leg.departureTime), locale, origin?.tz ?? 'UTC')},`,
+      `arrives ${formatDateTime(new Date(leg.arrivalTime), locale, destination?.tz ?? 'UTC')}`,
+      `(flight date ${leg.departureTime.slice(0, 10)}${leg.cabin ? `, ${leg.cabin}` : ''}).`,
+    ].join(' ');
+  }
+}
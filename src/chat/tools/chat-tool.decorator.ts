@@ -0,0 +1,4 @@
+import { DiscoveryService } from '@nestjs/core';
+
+/** Marks a provider implementing ChatTool for discovery by ToolRegistry. */
+export const RegisterChatTool = DiscoveryService.createDecorator<void>();
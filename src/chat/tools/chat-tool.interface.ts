@@ -0,0 +1,32 @@
+import type { LlmToolDefinition } from '../llm/llm-client.interface';
+import type { ChatLocale } from '../locale/chat-locale';
+import type { TenantIntegrations } from '../../tenants/tenant.types';
+
+export interface ChatToolContext {
+  /** Short progress message for the streaming endpoint (e.g. "Checking flight UA2402…"). */
+  onStatus?: (message: string) => void;
+  /** The customer's locale: units and date/time formats for the summary. */
+  locale?: ChatLocale;
+  /** Booking reference the client app sent in context.bookingRef, if any. */
+  bookingRef?: string;
+  /** The tenant's own integration credentials; unset ones use the global keys. */
+  integrations?: TenantIntegrations;
+}
+
+export interface ChatToolResult {
+  /** Text handed to the model in phase 2 as TOOL_RESULT. */
+  summary: string;
+  raw?: unknown;
+}
+
+/**
+ * A live-data tool the assistant can call. Implementations are Nest providers
+ * marked with @RegisterChatTool(); ToolRegistry discovers them and derives the
+ * native declarations, the prompt-based JSON contract, the parser whitelist and
+ * the stripping pattern from this one definition.
+ */
+export interface ChatTool<
+  P = Record<string, unknown>,
+> extends LlmToolDefinition {
+  execute(params: P, context: ChatToolContext): Promise<ChatToolResult>;
+}
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { AviationstackService } from '../integrations/aviationstack.service';
+import {
+  ChatTool,
+  ChatToolContext,
+  ChatToolResult,
+} from './chat-tool.interface';
+import { RegisterChatTool } from './chat-tool.decorator';
+import type { FlightStatusParams } from './tool-action.types';
+
+@Injectable()
+@RegisterChatTool()
+export class FlightStatusTool implements ChatTool<FlightStatusParams> {
+  readonly name = 'flight_status';
+  readonly description =
+    "Live status of a specific flight (airports, schedule, status). Use when the customer asks about a specific flight's status.";
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      flight_number: { type: 'string', description: 'IATA e.g. UA2402' },
+      date: { type: 'string', description: 'YYYY-MM-DD' },
+    },
+    required: ['flight_number'],
+  };
+  readonly rules = [
+    'Extract flight number in IATA format (e.g. UA2402, W61176, BA123). Use today\'s date if the user says "today" or equivalent.',
+  ];
+
+  constructor(private readonly aviationstack: AviationstackService) {}
+
+  async execute(
+    params: FlightStatusParams,
+    context: ChatToolContext,
+  ): Promise<ChatToolResult> {
+    context.onStatus?.(`Checking flight ${params.flight_number ?? ''}…`);
+    return this.aviationstack.getFlightStatus(
+      params,
+      context.locale,
+      context.integrations?.aviationstackApiKey,
+    );
+  }
+}
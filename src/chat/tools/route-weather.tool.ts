@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { OpenMeteoService } from '../integrations/open-meteo.service';
+import {
+  ChatTool,
+  ChatToolContext,
+  ChatToolResult,
+} from './chat-tool.interface';
+import { RegisterChatTool } from './chat-tool.decorator';
+import type { RouteWeatherParams } from './tool-action.types';
+
+@Injectable()
+@RegisterChatTool()
+export class RouteWeatherTool implements ChatTool<RouteWeatherParams> {
+  readonly name = 'route_weather';
+  readonly description =
+    'Weather for one or two cities (a route) not tied to a specific flight.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      origin_city: {
+        type: 'string',
+        description: 'city name or airport IATA code',
+      },
+      destination_city: {
+        type: 'string',
+        description: 'city name or airport IATA code',
+      },
+      departure_time: {
+        type: 'string',
+        description:
+          'local departure time at the origin, ISO without offset (e.g. 2026-03-15T09:00)',
+      },
+    },
+    required: ['origin_city', 'destination_city'],
+  };
+  readonly examples = [
+    {
+      question: "What's the weather like in Barcelona?",
+      arguments: { origin_city: 'Barcelona', destination_city: 'Barcelona' },
+    },
+    {
+      question: "What's the weather like in Barcelona and Dublin today?",
+      arguments: { origin_city: 'Barcelona', destination_city: 'Dublin' },
+    },
+  ];
+  readonly rules = [
+    'If the user clearly asks about weather for one or two concrete cities (not tied to a flight), use the route_weather action (do NOT use "none").',
+    'If the user only mentions ONE city for weather, set BOTH origin_city and destination_city to that city.',
+    'For route_weather use city names in English when possible.',
+    'If the user gives a departure date/time (e.g. "tomorrow at 9am", "on Friday"), pass it as departure_time so the forecast for that hour is used instead of current conditions.',
+  ];
+
+  constructor(private readonly openMeteo: OpenMeteoService) {}
+
+  async execute(
+    params: RouteWeatherParams,
+    context: ChatToolContext,
+  ): Promise<ChatToolResult> {
+    context.onStatus?.(
+      params.origin_city === params.destination_city
+        ? `Checking the weather in ${params.origin_city ?? ''}…`
+        : `Checking the weather in ${params.origin_city ?? ''} and ${params.destination_city ?? ''}…`,
+    );
+    return this.openMeteo.getRouteWeather(params, context.locale);
+  }
+}
@@ -7,17 +7,21 @@
  * - Industry standard is native tool/function calling: the provider API (OpenAI tools,
  *   Gemini functionDeclarations) returns structured tool_calls with name + arguments;
  *   the app runs the function and sends the result back; no JSON is ever in user-facing text.
- * - Here we use prompt-based tool selection: the system prompt asks the model to output
- *   this JSON shape when it needs live data. We parse/extract it from the reply and
- *   strip any tool JSON before showing the reply to the user. This is a workaround so we
- *   can support generic chat APIs (e.g. FreeFlow) that do not expose native tool calling.
- *   For a production system with OpenAI or Gemini, prefer migrating to native tools.
+ * - OpenAI and Gemini now use native tools (ILlmClient.generateWithTools, declarations from
+ *   ToolRegistry); native calls are mapped onto this same ToolAction shape.
+ * - For generic chat APIs (e.g. FreeFlow) that do not expose native tool calling we keep
+ *   prompt-based tool selection: the system prompt asks the model to output this JSON
+ *   shape when it needs live data. We parse/extract it from the reply and strip any tool
+ *   JSON before showing the reply to the user.
  */
-export type ToolActionId =
-  | 'flight_status'
-  | 'route_weather'
-  | 'weather_at_flight_arrival'
-  | 'none';
+
+import { escapeRegExp } from '../../common/text-patterns';
+
+/** Name of a registered ChatTool (see ToolRegistry), or 'none'. */
+export type ToolActionId = string;
+
+/** Always accepted by the parser: the model explicitly needs no tool. */
+export const NO_TOOL_ACTION = 'none';
 
 export interface FlightStatusParams {
   flight_number: string;
@@ -36,38 +40,55 @@ export interface WeatherAtFlightArrivalParams {
   date?: string;
 }
 
-export type ToolParams =
-  | FlightStatusParams
-  | RouteWeatherParams
-  | WeatherAtFlightArrivalParams
-  | Record<string, never>;
+export interface BookingLookupParams {
+  booking_reference?: string;
+  surname?: string;
+  email?: string;
+}
+
+export type ToolParams = Record<string, unknown>;
 
 export interface ToolAction {
   action: ToolActionId;
   params?: ToolParams;
 }
 
-const TOOL_ACTION_IDS: ToolActionId[] = [
-  'flight_status',
-  'route_weather',
-  'weather_at_flight_arrival',
-  'none',
-];
+/** A tool call executed during a chat turn, as returned to callers and persisted. */
+export interface ToolCallRecord {
+  action: ToolActionId;
+  params: ToolParams;
+  /** Summary handed to the model in phase 2. */
+  result: string;
+  /** Agent-loop step (1-based) that requested the call. */
+  iteration: number;
+  durationMs: number;
+  /** Set when the tool threw or ran out of time budget. */
+  error?: string;
+}
 
-function tryParseToolAction(jsonStr: string): ToolAction | null {
+function asToolAction(
+  value: unknown,
+  toolNames: readonly string[],
+): ToolAction | null {
+  if (value && typeof value === 'object' && 'action' in value) {
+    const action = (value as { action: string }).action;
+    if (action === NO_TOOL_ACTION || toolNames.includes(action)) {
+      return value as ToolAction;
+    }
+  }
+  return null;
+}
+
+function tryParseToolAction(
+  jsonStr: string,
+  toolNames: readonly string[],
+): ToolAction | null {
   const s = jsonStr.trim();
   try {
-    const parsed = JSON.parse(s) as unknown;
-    if (parsed && typeof parsed === 'object' && 'action' in parsed) {
-      const action = (parsed as { action: string }).action;
-      if (TOOL_ACTION_IDS.includes(action as ToolActionId)) {
-        return parsed as ToolAction;
-      }
-    }
+    return asToolAction(JSON.parse(s) as unknown, toolNames);
   } catch {
     return null;
   }
-  return null;
 }
 
 /**
@@ -78,8 +99,12 @@ function tryParseToolAction(jsonStr: string): ToolAction | null {
  * NOTE: this is intentionally "brutal" — anything that looks like our
  * {"action": "...", "params": {...}} tool JSON gets stripped out so users
  * never see raw JSON, even if the model ignores instructions.
+ * toolNames are the registered tool names; 'none' is always stripped.
  */
-export function stripToolJsonFromReply(reply: string): string {
+export function stripToolJsonFromReply(
+  reply: string,
+  toolNames: readonly string[],
+): string {
   // 1) Quick exit if there's clearly no tool JSON
   if (!reply.includes('action')) return reply.trim();
 
@@ -96,8 +121,13 @@ export function stripToolJsonFromReply(reply: string): string {
   //    - Allow optional bullet ('*', '-', '•') and spaces before the JSON.
   //    - Use [\s\S]*? to match params body lazily, we don't care if it's perfect JSON,
   //      we just want it gone from user-facing text.
-  const toolJsonPattern =
-    /[^\S\r\n]*[\*\-•]?\s*\{\s*"action"\s*:\s*"(?:flight_status|route_weather|weather_at_flight_arrival|none)"[\s\S]*?\}\s*/g;
+  const actionAlternatives = [NO_TOOL_ACTION, ...toolNames]
+    .map(escapeRegExp)
+    .join('|');
+  const toolJsonPattern = new RegExp(
+    `[^\\S\\r\\n]*[\\*\\-•]?\\s*\\{\\s*"action"\\s*:\\s*"(?:${actionAlternatives})"[\\s\\S]*?\\}\\s*`,
+    'g',
+  );
 
   let prev: string;
   do {
@@ -109,6 +139,8 @@ export function stripToolJsonFromReply(reply: string): string {
   t = t.replace(/\s*```(?:json)?\s*\n?\s*```\s*/g, '').trim();
   t = t.replace(/\s*```(?:json)?\s*$/g, '').trim();
   t = t.replace(/^\s*```(?:json)?\s*\n?/g, '').trim();
+  // ...and the brackets of a multi-tool array whose objects were stripped
+  t = t.replace(/\[\s*(?:,\s*)*\]/g, '').trim();
 
   // 5) Collapse multiple spaces and clean up bullet-only lines
   t = t.replace(/\s{2,}/g, ' ').trim();
@@ -119,22 +151,32 @@ export function stripToolJsonFromReply(reply: string): string {
   return t || reply.trim();
 }
 
-/** Parses or extracts tool action from LLM reply (prompt-based workaround; see file header). */
-export function parseToolAction(raw: string): ToolAction | null {
+/**
+ * Parses or extracts tool action from LLM reply (prompt-based workaround; see file header).
+ * Only actions named in toolNames (plus 'none') are accepted.
+ */
+export function parseToolAction(
+  raw: string,
+  toolNames: readonly string[],
+): ToolAction | null {
   const trimmed = raw.trim();
   // Try whole string first (LLM replied with only JSON)
-  let result = tryParseToolAction(trimmed);
+  let result = tryParseToolAction(trimmed, toolNames);
   if (result !== null) return result;
   if (!trimmed.includes('"action"')) return null;
   // Try to extract a JSON object from the string (e.g. text + JSON at the end)
-  for (let start = trimmed.lastIndexOf('{'); start !== -1; start = trimmed.lastIndexOf('{', start - 1)) {
+  for (
+    let start = trimmed.lastIndexOf('{');
+    start !== -1;
+    start = trimmed.lastIndexOf('{', start - 1)
+  ) {
     let depth = 0;
     for (let i = start; i < trimmed.length; i++) {
       if (trimmed[i] === '{') depth++;
       else if (trimmed[i] === '}') {
         depth--;
         if (depth === 0) {
-          result = tryParseToolAction(trimmed.slice(start, i + 1));
+          result = tryParseToolAction(trimmed.slice(start, i + 1), toolNames);
           if (result !== null) return result;
           break;
         }
@@ -144,3 +186,32 @@ export function parseToolAction(raw: string): ToolAction | null {
   }
   return null;
 }
+
+/**
+ * Like parseToolAction, but also accepts a JSON array of tool objects so the
+ * model can request several independent tools in one step. Unknown entries in
+ * an array are dropped; an array with no usable entry counts as unparseable.
+ */
+export function parseToolActions(
+  raw: string,
+  toolNames: readonly string[],
+): ToolAction[] | null {
+  const trimmed = raw.trim();
+  const start = trimmed.indexOf('[');
+  const end = trimmed.lastIndexOf(']');
+  if (start !== -1 && end > start && trimmed.includes('"action"')) {
+    try {
+      const parsed = JSON.parse(trimmed.slice(start, end + 1)) as unknown;
+      if (Array.isArray(parsed)) {
+        const actions = parsed
+          .map((item) => asToolAction(item, toolNames))
+          .filter((a): a is ToolAction => a !== null);
+        if (actions.length > 0) return actions;
+      }
+    } catch {
+      // Not an array of tool objects; fall through to the single-object parser.
+    }
+  }
+  const single = parseToolAction(raw, toolNames);
+  return single ? [single] : null;
+}
@@ -0,0 +1,37 @@
+import { ToolJsonStreamFilter } from './tool-json-stream-filter';
+
+function run(chunks: string[]): string {
+  const filter = new ToolJsonStreamFilter();
+  return chunks.map((c) => filter.push(c)).join('') + filter.flush();
+}
+
+describe('ToolJsonStreamFilter', () => {
+  it('passes plain text through as it arrives', () => {
+    const filter = new ToolJsonStreamFilter();
+    expect(filter.push('Your flight ')).toBe('Your flight ');
+    expect(filter.push('is on time.')).toBe('is on time.');
+    expect(filter.flush()).toBe('');
+  });
+
+  it('drops tool JSON split across chunks', () => {
+    expect(
+      run([
+        'Sure. {"act',
+        'ion":"flight_status","params":{"flight_',
+        'number":"UA2402"}} Done.',
+      ]),
+    ).toBe('Sure.  Done.');
+  });
+
+  it('keeps braces that are not tool JSON', () => {
+    expect(run(['Use code {SUMMER', '24} at checkout.'])).toBe(
+      'Use code {SUMMER24} at checkout.',
+    );
+  });
+
+  it('drops an unterminated tool object at flush', () => {
+    expect(run(['Checking. {"action":"route_weather","params":{'])).toBe(
+      'Checking. ',
+    );
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Incremental counterpart of stripToolJsonFromReply for streamed replies.
+ * Text is passed through until a `{` shows up; from there it is held back until
+ * the matching `}` arrives, and the object is dropped if it carries an
+ * "action" key. An unterminated object is only decided at flush().
+ */
+export class ToolJsonStreamFilter {
+  private held = '';
+
+  push(chunk: string): string {
+    this.held += chunk;
+    return this.drain(false);
+  }
+
+  flush(): string {
+    return this.drain(true);
+  }
+
+  private drain(final: boolean): string {
+    let out = '';
+    while (this.held) {
+      const start = this.held.indexOf('{');
+      if (start === -1) {
+        out += this.held;
+        this.held = '';
+        break;
+      }
+      out += this.held.slice(0, start);
+      this.held = this.held.slice(start);
+
+      const end = findObjectEnd(this.held);
+      if (end === -1) {
+        if (final) {
+          if (!isToolJson(this.held)) out += this.held;
+          this.held = '';
+        }
+        break;
+      }
+      const candidate = this.held.slice(0, end + 1);
+      if (!isToolJson(candidate)) out += candidate;
+      this.held = this.held.slice(end + 1);
+    }
+    return out;
+  }
+}
+
+function findObjectEnd(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function isToolJson(text: string): boolean {
+  return /["“”]action["“”]\s*:/.test(text);
+}
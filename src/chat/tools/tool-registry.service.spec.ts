@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { ChatTool } from './chat-tool.interface';
+import { RegisterChatTool } from './chat-tool.decorator';
+import { ToolRegistry } from './tool-registry.service';
+
+@Injectable()
+@RegisterChatTool()
+class SeatMapTool implements ChatTool {
+  readonly name = 'seat_map';
+  readonly description = 'Seat availability for a flight.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      flight_number: { type: 'string', description: 'IATA e.g. UA2402' },
+      cabin: { type: 'string', description: 'economy or business' },
+    },
+    required: ['flight_number'],
+  };
+  readonly examples = [
+    {
+      question: 'Any window seats left on UA2402?',
+      arguments: { flight_number: 'UA2402' },
+    },
+  ];
+  readonly rules = ['Use seat_map for seat questions.'];
+
+  async execute() {
+    return { summary: '12 seats left.' };
+  }
+}
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [ToolRegistry, SeatMapTool],
+    }).compile();
+    await moduleRef.init();
+    registry = moduleRef.get(ToolRegistry);
+  });
+
+  it('discovers decorated tools', () => {
+    expect(registry.names()).toEqual(['seat_map']);
+    expect(registry.get('seat_map')).toBeInstanceOf(SeatMapTool);
+  });
+
+  it('generates the prompt contract from the tool definition', () => {
+    const prompt = registry.promptInstructions();
+    expect(prompt).toContain(
+      '- seat_map: {"action":"seat_map","params":{"flight_number":"<IATA e.g. UA2402>","cabin":"<economy or business optional>"}}',
+    );
+    expect(prompt).toContain(
+      '- Q: "Any window seats left on UA2402?" → A: {"action":"seat_map","params":{"flight_number":"UA2402"}}',
+    );
+    expect(prompt).toContain('- Use seat_map for seat questions.');
+  });
+
+  it('only parses registered actions', () => {
+    expect(
+      registry.parseToolAction(
+        '{"action":"seat_map","params":{"flight_number":"UA1"}}',
+      ),
+    ).toEqual({ action: 'seat_map', params: { flight_number: 'UA1' } });
+    expect(registry.parseToolAction('{"action":"flight_status"}')).toBeNull();
+    expect(registry.parseToolAction('{"action":"none"}')).toEqual({
+      action: 'none',
+    });
+  });
+
+  it('strips registered tool JSON from replies', () => {
+    expect(
+      registry.stripToolJson('Let me check. {"action":"seat_map"} Thanks!'),
+    ).toBe('Let me check. Thanks!');
+  });
+
+  it('maps native calls and ignores unknown tools', () => {
+    expect(
+      registry.toolActionFromCall({
+        name: 'seat_map',
+        arguments: { cabin: 'x' },
+      }),
+    ).toEqual({ action: 'seat_map', params: { cabin: 'x' } });
+    expect(
+      registry.toolActionFromCall({ name: 'delete_booking', arguments: {} }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import type {
+  LlmToolCall,
+  LlmToolDefinition,
+} from '../llm/llm-client.interface';
+import { buildToolCallingInstructions } from '../ota-system-prompt';
+import { ChatTool } from './chat-tool.interface';
+import { RegisterChatTool } from './chat-tool.decorator';
+import {
+  parseToolAction,
+  parseToolActions,
+  stripToolJsonFromReply,
+  ToolAction,
+} from './tool-action.types';
+
+/**
+ * Single source of truth for the tools the assistant can call. Everything that
+ * used to be listed by hand (prompt contract, parser whitelist, stripping regex,
+ * dispatch) is derived from the discovered ChatTool providers.
+ */
+@Injectable()
+export class ToolRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ToolRegistry.name);
+  private readonly tools = new Map<string, ChatTool>();
+
+  constructor(private readonly discovery: DiscoveryService) {}
+
+  onModuleInit() {
+    const wrappers = this.discovery.getProviders({
+      metadataKey: RegisterChatTool.KEY,
+    });
+    for (const wrapper of wrappers) {
+      const tool = wrapper.instance as ChatTool | undefined;
+      if (!tool) continue;
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate chat tool name "${tool.name}".`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+    this.logger.log(`Registered chat tools: ${this.names().join(', ')}`);
+  }
+
+  /** The tool, unless it is unknown or missing from the enabled list. */
+  get(name: string, enabled?: readonly string[]): ChatTool | undefined {
+    return enabled && !enabled.includes(name)
+      ? undefined
+      : this.tools.get(name);
+  }
+
+  /** Tool names, narrowed to a tenant's enabled tools when a list is given. */
+  names(enabled?: readonly string[]): string[] {
+    const names = [...this.tools.keys()];
+    return enabled ? names.filter((n) => enabled.includes(n)) : names;
+  }
+
+  /** Declarations for native tool calling (and the prompt-based fallback). */
+  definitions(enabled?: readonly string[]): LlmToolDefinition[] {
+    return this.names(enabled).map((n) => this.tools.get(n));
+  }
+
+  /** Prompt-based JSON contract for providers without native tool calling. */
+  promptInstructions(enabled?: readonly string[]): string {
+    return buildToolCallingInstructions(this.definitions(enabled));
+  }
+
+  parseToolAction(raw: string, enabled?: readonly string[]): ToolAction | null {
+    return parseToolAction(raw, this.names(enabled));
+  }
+
+  parseToolActions(
+    raw: string,
+    enabled?: readonly string[],
+  ): ToolAction[] | null {
+    return parseToolActions(raw, this.names(enabled));
+  }
+
+  stripToolJson(reply: string): string {
+    return stripToolJsonFromReply(reply, this.names());
+  }
+
+  /** Maps a native tool call onto a ToolAction; unknown or disabled tools yield null. */
+  toolActionFromCall(
+    call: LlmToolCall,
+    enabled?: readonly string[],
+  ): ToolAction | null {
+    if (!this.get(call.name, enabled)) return null;
+    return { action: call.name, params: call.arguments };
+  }
+}
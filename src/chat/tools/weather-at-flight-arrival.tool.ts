@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { AviationstackService } from '../integrations/aviationstack.service';
+import { OpenMeteoService } from '../integrations/open-meteo.service';
+import {
+  ChatTool,
+  ChatToolContext,
+  ChatToolResult,
+} from './chat-tool.interface';
+import { RegisterChatTool } from './chat-tool.decorator';
+import type { WeatherAtFlightArrivalParams } from './tool-action.types';
+
+/**
+ * Fetches the flight, then the weather at its arrival airport: the forecast for
+ * the scheduled arrival hour when known, current conditions otherwise.
+ */
+@Injectable()
+@RegisterChatTool()
+export class WeatherAtFlightArrivalTool implements ChatTool<WeatherAtFlightArrivalParams> {
+  readonly name = 'weather_at_flight_arrival';
+  readonly description =
+    'Weather at the arrival (destination) city of a specific flight.';
+  readonly parameters = {
+    type: 'object',
+    properties: {
+      flight_number: { type: 'string', description: 'IATA e.g. W61176' },
+      date: { type: 'string', description: 'YYYY-MM-DD' },
+    },
+    required: ['flight_number'],
+  };
+  readonly examples = [
+    {
+      question:
+        'What temperature will it be at the arrival city of flight W61176?',
+      arguments: { flight_number: 'W61176' },
+    },
+  ];
+  readonly rules = [
+    'If the user asks about weather or temperature at the ARRIVAL (or destination) city of a specific flight, use weather_at_flight_arrival with that flight number (do NOT use "none" or route_weather).',
+  ];
+
+  constructor(
+    private readonly aviationstack: AviationstackService,
+    private readonly openMeteo: OpenMeteoService,
+  ) {}
+
+  async execute(
+    params: WeatherAtFlightArrivalParams,
+    context: ChatToolContext,
+  ): Promise<ChatToolResult> {
+    context.onStatus?.(`Checking flight ${params.flight_number ?? ''}…`);
+    const flightResult = await this.aviationstack.getFlightStatus(
+      params,
+      context.locale,
+      context.integrations?.aviationstackApiKey,
+    );
+    if (!flightResult.arrivalAirport) {
+      return { summary: flightResult.summary, raw: flightResult.raw };
+    }
+
+    context.onStatus?.(
+      `Checking the weather at ${flightResult.arrivalAirport}…`,
+    );
+    const weatherResult = await this.openMeteo.getWeatherForAirport(
+      { iata: flightResult.arrivalIata, name: flightResult.arrivalAirport },
+      flightResult.arrivalScheduled,
+      context.locale,
+    );
+    return {
+      summary: `${flightResult.summary} Weather at arrival (${flightResult.arrivalAirport}): ${weatherResult.summary}`,
+      raw: { flight: flightResult.raw, weather: weatherResult },
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import type { FastifyRequest } from 'fastify';
+
+/**
+ * Protects admin routes with the shared ADMIN_API_KEY, sent as `X-Admin-Key`
+ * or `Authorization: Bearer <key>`. Without a configured key the admin API is
+ * disabled rather than open.
+ */
+@Injectable()
+export class AdminKeyGuard implements CanActivate {
+  private readonly logger = new Logger(AdminKeyGuard.name);
+
+  constructor(private readonly config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.config.get<string>('ADMIN_API_KEY') ?? '';
+    if (!expected) {
+      this.logger.warn('Admin request rejected: ADMIN_API_KEY not set');
+      throw new ForbiddenException('The admin API is not enabled.');
+    }
+
+    const request = context.switchToHttp().getRequest<FastifyRequest>();
+    const header = request.headers['x-admin-key'];
+    const bearer = request.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    const provided =
+      (Array.isArray(header) ? header[0] : header) ?? bearer?.[1];
+
+    if (!provided || !safeEqual(provided, expected)) {
+      throw new UnauthorizedException('Invalid or missing admin key.');
+    }
+    return true;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,42 @@
+/** Whole-word, case-insensitive match that also works next to accented letters. */
+export function wordPattern(words: string[], flags = 'iu'): RegExp {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${words.join('|')})(?![\\p{L}\\p{N}])`,
+    flags,
+  );
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A comma-separated setting as a list; undefined when the setting is unset. */
+export function parseList(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** UA2402, W61176, BA123 (uppercase). */
+const FLIGHT_NUMBER = /^(?:[A-Z]{2}|[A-Z]\d|\d[A-Z])\d{1,4}[A-Z]?$/;
+
+/** 737MAX, A321LR, E195E2 (uppercase). */
+const AIRCRAFT_TYPE =
+  /^(?:7[0-8]7|A[23][0-8]\d|E1[79]\d|E2\d\d)(?:MAX\d?|NEO|X?LR|ER|XWB|E2)$/;
+
+/**
+ * Shaped like a booking reference (QX7K2M): six letters and digits with at
+ * least one of each, in any case, that is not a flight number or an aircraft
+ * type.
+ */
+export function looksLikeBookingReference(value: string): boolean {
+  const upper = value.toUpperCase();
+  return (
+    /^[A-Z0-9]{6}$/.test(upper) &&
+    /[A-Z]/.test(upper) &&
+    /\d/.test(upper) &&
+    !FLIGHT_NUMBER.test(upper) &&
+    !AIRCRAFT_TYPE.test(upper)
+  );
+}
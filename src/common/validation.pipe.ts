@@ -0,0 +1,43 @@
+import {
+  BadRequestException,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+
+export interface ValidationErrorDetail {
+  field: string;
+  errors: string[];
+}
+
+function flatten(
+  errors: ValidationError[],
+  parent = '',
+): ValidationErrorDetail[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    const own = error.constraints
+      ? [{ field, errors: Object.values(error.constraints) }]
+      : [];
+    return [...own, ...flatten(error.children ?? [], field)];
+  });
+}
+
+/**
+ * Global validation: strips nothing silently (unknown fields are rejected) and
+ * reports every failure in one consistent 400 payload:
+ * `{ statusCode: 400, error: 'Bad Request', message, details: [{ field, errors }] }`.
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    exceptionFactory: (errors) =>
+      new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Request validation failed.',
+        details: flatten(errors),
+      }),
+  });
+}
@@ -0,0 +1,39 @@
+import type {
+  ChatContextDto,
+  ClientChatRole,
+} from '../chat/dto/chat-request.dto';
+import type { ToolCallRecord } from '../chat/tools/tool-action.types';
+import type { EscalationRef } from '../escalations/escalation.types';
+import type { ChatTurnMeta } from '../chat/chat-turn-meta';
+
+export interface ConversationMessage {
+  role: ClientChatRole;
+  content: string;
+  createdAt: string;
+  /** Snapshot id for feedback on this (assistant) message. */
+  replyId?: string;
+  /** Tool calls executed to produce this (assistant) message. */
+  toolCalls?: ToolCallRecord[];
+  /** Knowledge-base document ids used for this (assistant) message. */
+  sources?: string[];
+  /** Set when this (assistant) message handed the conversation to an agent. */
+  escalation?: EscalationRef;
+  /** Provider, usage and latency of the LLM calls behind this (assistant) message. */
+  meta?: ChatTurnMeta;
+}
+
+/** Who may read and continue a conversation: the client and tenant that created it. */
+export interface ConversationOwner {
+  /** API key id, or anonymous:<ip> for anonymous widget traffic. */
+  clientId: string;
+  tenantId: string;
+}
+
+export interface Conversation {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  owner: ConversationOwner;
+  context?: ChatContextDto;
+  messages: ConversationMessage[];
+}
@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiKeyGuard } from '../api-clients/api-key.guard';
+import { ApiClient } from '../api-clients/api-client.decorator';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import { TenantGuard } from '../tenants/tenant.guard';
+import { Tenant } from '../tenants/tenant.decorator';
+import type { TenantConfig } from '../tenants/tenant.types';
+import { ConversationsService } from './conversations.service';
+import { AppendMessageDto } from './dto/append-message.dto';
+import { CreateConversationDto } from './dto/create-conversation.dto';
+
+@Controller('api/conversations')
+@UseGuards(ApiKeyGuard, TenantGuard)
+export class ConversationsController {
+  constructor(private readonly conversations: ConversationsService) {}
+
+  @Post()
+  async create(
+    @Body() body: CreateConversationDto,
+    @ApiClient() client: ApiClientIdentity,
+    @Tenant() tenant: TenantConfig,
+  ) {
+    const conversation = await this.conversations.create(body?.context, {
+      client,
+      tenant,
+    });
+    return { id: conversation.id, createdAt: conversation.createdAt };
+  }
+
+  @Post(':id/messages')
+  async appendMessage(
+    @Param('id') id: string,
+    @Body() body: AppendMessageDto,
+    @ApiClient() client: ApiClientIdentity,
+    @Tenant() tenant: TenantConfig,
+  ) {
+    return this.conversations.appendMessage(id, body?.content, {
+      client,
+      tenant,
+    });
+  }
+
+  @Get(':id')
+  async get(
+    @Param('id') id: string,
+    @ApiClient() client: ApiClientIdentity,
+    @Tenant() tenant: TenantConfig,
+  ) {
+    return this.conversations.get(id, { client, tenant });
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async delete(
+    @Param('id') id: string,
+    @ApiClient() client: ApiClientIdentity,
+    @Tenant() tenant: TenantConfig,
+  ) {
+    await this.conversations.delete(id, { client, tenant });
+  }
+}
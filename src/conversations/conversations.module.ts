@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ChatModule } from '../chat/chat.module';
+import { ApiClientsModule } from '../api-clients/api-clients.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { ConversationsController } from './conversations.controller';
+import { ConversationsService } from './conversations.service';
+import { IConversationRepository } from './repositories/conversation-repository.interface';
+import { InMemoryConversationRepository } from './repositories/in-memory-conversation.repository';
+import { FileConversationRepository } from './repositories/file-conversation.repository';
+
+@Module({
+  imports: [ConfigModule, ChatModule, ApiClientsModule, TenantsModule],
+  controllers: [ConversationsController],
+  providers: [
+    ConversationsService,
+    InMemoryConversationRepository,
+    FileConversationRepository,
+    {
+      provide: 'IConversationRepository',
+      useFactory: (
+        config: ConfigService,
+        memoryRepository: InMemoryConversationRepository,
+        fileRepository: FileConversationRepository,
+      ): IConversationRepository => {
+        const store = config.get<string>('CONVERSATION_STORE') ?? 'memory';
+        if (store === 'file') {
+          return fileRepository;
+        }
+        return memoryRepository;
+      },
+      inject: [
+        ConfigService,
+        InMemoryConversationRepository,
+        FileConversationRepository,
+      ],
+    },
+  ],
+})
+export class ConversationsModule {}
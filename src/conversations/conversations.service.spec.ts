@@ -0,0 +1,144 @@
+import { NotFoundException } from '@nestjs/common';
+import type { ChatService } from '../chat/chat.service';
+import type { ChatMessageDto } from '../chat/dto/chat-request.dto';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import {
+  ConversationAccess,
+  ConversationsService,
+} from './conversations.service';
+import { InMemoryConversationRepository } from './repositories/in-memory-conversation.repository';
+
+const clientFor = (id: string, ip = '203.0.113.7'): ApiClientIdentity => ({
+  id,
+  anonymous: id === 'anonymous',
+  bucketKey: id === 'anonymous' ? `anonymous:${ip}` : `key:${id}`,
+  allowedOrigins: [],
+  limits: {
+    requestsPerMinute: 10,
+    requestBurst: 10,
+    toolCallsPerMinute: 10,
+    toolCallBurst: 10,
+  },
+});
+
+const access = (
+  clientId: string,
+  tenantId = 'sunway',
+  ip?: string,
+): ConversationAccess => ({
+  client: clientFor(clientId, ip),
+  tenant: { id: tenantId, brandName: '' },
+});
+
+/** Answers each turn after delayMs with the number of messages it was given. */
+function createService(delayMs = 0) {
+  const seen: ChatMessageDto[][] = [];
+  const chat = {
+    runTurn: jest.fn(async (messages: ChatMessageDto[]) => {
+      seen.push(messages);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return {
+        reply: `Reply to ${messages.length} messages.`,
+        replyId: `r${seen.length}`,
+        toolCalls: [],
+        sources: [],
+      };
+    }),
+  };
+  const service = new ConversationsService(
+    new InMemoryConversationRepository(),
+    chat as unknown as ChatService,
+  );
+  return { service, chat, seen };
+}
+
+describe('ConversationsService', () => {
+  it('only lets the creating client and tenant read, continue or delete it', async () => {
+    const { service, chat } = createService();
+    const owner = access('partner');
+    const { id } = await service.create(undefined, owner);
+
+    for (const other of [
+      access('other-partner'),
+      access('partner', 'polar'),
+      access('anonymous'),
+    ]) {
+      await expect(service.get(id, other)).rejects.toThrow(NotFoundException);
+      await expect(service.appendMessage(id, 'Hi', other)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(service.delete(id, other)).rejects.toThrow(
+        NotFoundException,
+      );
+    }
+
+    expect(chat.runTurn).not.toHaveBeenCalled();
+    expect((await service.get(id, owner)).owner).toEqual({
+      clientId: 'partner',
+      tenantId: 'sunway',
+    });
+    await service.delete(id, owner);
+    await expect(service.get(id, owner)).rejects.toThrow(NotFoundException);
+  });
+
+  it('ties anonymous conversations to the caller IP', async () => {
+    const { service } = createService();
+    const { id } = await service.create(
+      undefined,
+      access('anonymous', 'sunway', '198.51.100.1'),
+    );
+
+    await expect(
+      service.get(id, access('anonymous', 'sunway', '198.51.100.1')),
+    ).resolves.toMatchObject({ id });
+    await expect(
+      service.get(id, access('anonymous', 'sunway', '198.51.100.2')),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('runs concurrent turns one after another and keeps every message', async () => {
+    const { service, chat, seen } = createService(20);
+    const owner = access('partner');
+    const { id } = await service.create(undefined, owner);
+
+    const [first, second] = await Promise.all([
+      service.appendMessage(id, 'Is UA2402 on time?', owner),
+      service.appendMessage(id, 'And the weather in Newark?', owner),
+    ]);
+
+    expect(chat.runTurn).toHaveBeenCalledTimes(2);
+    expect(seen[1].map((m) => m.content)).toEqual([
+      'Is UA2402 on time?',
+      'Reply to 1 messages.',
+      'And the weather in Newark?',
+    ]);
+    expect(first.reply).toBe('Reply to 1 messages.');
+    expect(second.reply).toBe('Reply to 3 messages.');
+    const { messages } = await service.get(id, owner);
+    expect(messages.map((m) => m.content)).toEqual([
+      'Is UA2402 on time?',
+      'Reply to 1 messages.',
+      'And the weather in Newark?',
+      'Reply to 3 messages.',
+    ]);
+  });
+
+  it('keeps the queue going after a failed turn', async () => {
+    const { service, chat } = createService();
+    const owner = access('partner');
+    const { id } = await service.create(undefined, owner);
+    chat.runTurn.mockRejectedValueOnce(new Error('LLM down'));
+
+    const results = await Promise.allSettled([
+      service.appendMessage(id, 'First', owner),
+      service.appendMessage(id, 'Second', owner),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'fulfilled']);
+    const { messages } = await service.get(id, owner);
+    expect(messages.map((m) => m.content)).toEqual([
+      'Second',
+      'Reply to 1 messages.',
+    ]);
+  });
+});
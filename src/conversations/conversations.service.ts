@@ -0,0 +1,178 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ChatService } from '../chat/chat.service';
+import { ChatContextDto, ChatMessageDto } from '../chat/dto/chat-request.dto';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationOwner,
+} from './conversation.types';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import type { TenantConfig } from '../tenants/tenant.types';
+import type { EscalationRef } from '../escalations/escalation.types';
+import type { ChatTurnMeta } from '../chat/chat-turn-meta';
+import { IConversationRepository } from './repositories/conversation-repository.interface';
+
+/**
+ * Replays stored history for the model. Tool results are re-inserted as the
+ * TOOL_RESULT assistant notes phase 2 saw, so follow-up questions ("and the
+ * weather there?") can build on data fetched in earlier turns.
+ */
+function toChatMessages(messages: ConversationMessage[]): ChatMessageDto[] {
+  return messages.flatMap((m): ChatMessageDto[] => {
+    const toolNotes: ChatMessageDto[] = (m.toolCalls ?? []).map((call) => ({
+      role: 'assistant',
+      content: call.result,
+    }));
+    return [...toolNotes, { role: m.role, content: m.content }];
+  });
+}
+
+/** The caller and tenant a conversation request runs as (see ApiKeyGuard, TenantGuard). */
+export interface ConversationAccess {
+  client: ApiClientIdentity;
+  tenant: TenantConfig;
+}
+
+/** Anonymous callers share one client id, so their conversations are tied to the IP. */
+function ownerOf({ client, tenant }: ConversationAccess): ConversationOwner {
+  return {
+    clientId: client.anonymous ? client.bucketKey : client.id,
+    tenantId: tenant.id,
+  };
+}
+
+/**
+ * Conversations belong to the client and tenant that created them; any other
+ * caller gets a 404, as for an unknown id (so do conversations stored without
+ * an owner). Turns on one conversation run one at a time (per process), so
+ * concurrent messages are all kept, in order.
+ */
+@Injectable()
+export class ConversationsService {
+  /** Tail of each conversation's queue of turns. */
+  private readonly turns = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @Inject('IConversationRepository')
+    private readonly repository: IConversationRepository,
+    private readonly chatService: ChatService,
+  ) {}
+
+  async create(
+    context: ChatContextDto | undefined,
+    access: ConversationAccess,
+  ): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      owner: ownerOf(access),
+      context,
+      messages: [],
+    };
+    await this.repository.save(conversation);
+    return conversation;
+  }
+
+  async get(id: string, access: ConversationAccess): Promise<Conversation> {
+    const conversation = await this.repository.findById(id);
+    const owner = ownerOf(access);
+    if (
+      conversation?.owner?.clientId !== owner.clientId ||
+      conversation.owner.tenantId !== owner.tenantId
+    ) {
+      throw new NotFoundException(`Conversation ${id} not found.`);
+    }
+    return conversation;
+  }
+
+  /** Appends a user turn, runs the assistant and persists both messages. */
+  async appendMessage(
+    id: string,
+    content: string,
+    access: ConversationAccess,
+  ): Promise<{
+    conversationId: string;
+    reply: string;
+    replyId: string;
+    sources: string[];
+    escalation?: EscalationRef;
+    meta?: ChatTurnMeta;
+    message: ConversationMessage;
+  }> {
+    const text = content?.trim();
+    if (!text) {
+      throw new BadRequestException('Message content must not be empty.');
+    }
+    return this.serialize(id, () => this.runTurn(id, text, access));
+  }
+
+  async delete(id: string, access: ConversationAccess): Promise<void> {
+    await this.get(id, access);
+    const deleted = await this.repository.delete(id);
+    if (!deleted) {
+      throw new NotFoundException(`Conversation ${id} not found.`);
+    }
+  }
+
+  /** Reads the conversation inside the queue, so it includes earlier turns. */
+  private async runTurn(id: string, text: string, access: ConversationAccess) {
+    const conversation = await this.get(id, access);
+    conversation.messages.push({
+      role: 'user',
+      content: text,
+      createdAt: new Date().toISOString(),
+    });
+
+    const { reply, replyId, toolCalls, sources, escalation, meta } =
+      await this.chatService.runTurn(
+        toChatMessages(conversation.messages),
+        conversation.context,
+        { ...access, conversationId: id },
+      );
+
+    const message: ConversationMessage = {
+      role: 'assistant',
+      content: reply,
+      createdAt: new Date().toISOString(),
+      replyId,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(escalation ? { escalation } : {}),
+      ...(meta ? { meta } : {}),
+    };
+    conversation.messages.push(message);
+    conversation.updatedAt = message.createdAt;
+    await this.repository.save(conversation);
+
+    return {
+      conversationId: id,
+      reply,
+      replyId,
+      sources,
+      ...(escalation ? { escalation } : {}),
+      ...(meta ? { meta } : {}),
+      message,
+    };
+  }
+
+  /** Runs task after the conversation's pending turns, failed ones included. */
+  private serialize<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.turns.get(id) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(task);
+    const tail = run.catch(() => undefined);
+    this.turns.set(id, tail);
+    void tail.then(() => {
+      if (this.turns.get(id) === tail) this.turns.delete(id);
+    });
+    return run;
+  }
+}
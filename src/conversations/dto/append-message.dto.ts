@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { MAX_MESSAGE_CHARS } from '../../chat/dto/chat-request.dto';
+
+export class AppendMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_MESSAGE_CHARS)
+  content: string;
+}
@@ -0,0 +1,11 @@
+import { Type } from 'class-transformer';
+import { IsOptional, ValidateNested } from 'class-validator';
+import { ChatContextDto } from '../../chat/dto/chat-request.dto';
+
+export class CreateConversationDto {
+  // Same context schema as ChatRequestDto (e.g., booking references)
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChatContextDto)
+  context?: ChatContextDto;
+}
@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Conversation } from '../conversation.types';
+import { IConversationRepository } from './conversation-repository.interface';
+import { FileConversationRepository } from './file-conversation.repository';
+import { InMemoryConversationRepository } from './in-memory-conversation.repository';
+
+const conversation = (id: string): Conversation => ({
+  id,
+  createdAt: '2026-03-14T09:00:00.000Z',
+  updatedAt: '2026-03-14T09:00:00.000Z',
+  owner: { clientId: 'partner', tenantId: 'sunway' },
+  context: { bookingRef: 'QX7K2M' },
+  messages: [
+    {
+      role: 'user',
+      content: 'Is UA2402 on time?',
+      createdAt: '2026-03-14T09:00:00.000Z',
+    },
+  ],
+});
+
+describe.each([
+  ['InMemoryConversationRepository', false],
+  ['FileConversationRepository', true],
+])('%s', (_name, onDisk) => {
+  let dir: string;
+  let repository: IConversationRepository;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'conversations-'));
+    repository = onDisk
+      ? new FileConversationRepository({
+          get: (key: string) =>
+            key === 'CONVERSATION_STORE_DIR' ? dir : undefined,
+        } as ConfigService)
+      : new InMemoryConversationRepository();
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('stores, replaces and deletes whole conversations', async () => {
+    const stored = conversation('c-1');
+    await repository.save(stored);
+    stored.messages.push({
+      role: 'assistant',
+      content: 'Yes.',
+      createdAt: '2026-03-14T09:00:05.000Z',
+    });
+
+    expect(await repository.findById('c-1')).toEqual(conversation('c-1'));
+    await repository.save(stored);
+    expect((await repository.findById('c-1')).messages).toHaveLength(2);
+    expect(await repository.delete('c-1')).toBe(true);
+    expect(await repository.delete('c-1')).toBe(false);
+    expect(await repository.findById('c-1')).toBeNull();
+  });
+
+  it('returns copies, not the stored object', async () => {
+    await repository.save(conversation('c-2'));
+
+    const found = await repository.findById('c-2');
+    found.messages.length = 0;
+
+    expect((await repository.findById('c-2')).messages).toHaveLength(1);
+  });
+
+  if (onDisk) {
+    it('ignores ids that are not safe file names and leaves no temp files', async () => {
+      await repository.save(conversation('c-3'));
+
+      expect(await repository.findById('../c-3')).toBeNull();
+      expect(await repository.delete('../c-3')).toBe(false);
+      expect(await readdir(dir)).toEqual(['c-3.json']);
+    });
+  }
+});
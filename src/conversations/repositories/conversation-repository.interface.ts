@@ -0,0 +1,9 @@
+import { Conversation } from '../conversation.types';
+
+export interface IConversationRepository {
+  findById(id: string): Promise<Conversation | null>;
+  /** Inserts or replaces the whole conversation. */
+  save(conversation: Conversation): Promise<void>;
+  /** Returns false when there was nothing to delete. */
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, rm, writeFile, rename } from 'fs/promises';
+import { join } from 'path';
+import { Conversation } from '../conversation.types';
+import { IConversationRepository } from './conversation-repository.interface';
+
+const SAFE_ID = /^[A-Za-z0-9-]+$/;
+
+/**
+ * One JSON file per conversation under CONVERSATION_STORE_DIR. Writes go to a
+ * temp file first and are renamed into place so a crash never leaves half a file.
+ */
+@Injectable()
+export class FileConversationRepository implements IConversationRepository {
+  private readonly logger = new Logger(FileConversationRepository.name);
+  private readonly dir: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.dir =
+      this.config.get<string>('CONVERSATION_STORE_DIR') ?? 'data/conversations';
+  }
+
+  async findById(id: string): Promise<Conversation | null> {
+    if (!SAFE_ID.test(id)) return null;
+    try {
+      const json = await readFile(this.pathFor(id), 'utf8');
+      return JSON.parse(json) as Conversation;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(`Failed to read conversation ${id}`, e as Error);
+      }
+      return null;
+    }
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = this.pathFor(conversation.id);
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(conversation, null, 2), 'utf8');
+    await rename(tmp, path);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!SAFE_ID.test(id)) return false;
+    try {
+      await rm(this.pathFor(id));
+      return true;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw e;
+    }
+  }
+
+  private pathFor(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
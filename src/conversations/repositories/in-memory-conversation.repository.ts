@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { Conversation } from '../conversation.types';
+import { IConversationRepository } from './conversation-repository.interface';
+
+/** Process-local store; conversations are lost on restart. Default for development. */
+@Injectable()
+export class InMemoryConversationRepository implements IConversationRepository {
+  private readonly conversations = new Map<string, Conversation>();
+
+  async findById(id: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(id);
+    return conversation ? structuredClone(conversation) : null;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, structuredClone(conversation));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ESCALATION_STATUSES, EscalationStatus } from '../escalation.types';
+
+const STATUS_MESSAGE = `status must be one of: ${ESCALATION_STATUSES.join(', ')}`;
+
+export class ListEscalationsQueryDto {
+  @IsOptional()
+  @IsIn(ESCALATION_STATUSES, { message: STATUS_MESSAGE })
+  status?: EscalationStatus;
+}
+
+export class UpdateEscalationDto {
+  @IsOptional()
+  @IsIn(ESCALATION_STATUSES, { message: STATUS_MESSAGE })
+  status?: EscalationStatus;
+
+  // Agent taking the ticket; required to claim
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  assignee?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  resolution?: string;
+}
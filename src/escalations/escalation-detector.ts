@@ -0,0 +1,206 @@
+import type { ChatMessageDto } from '../chat/dto/chat-request.dto';
+import type { ToolCallRecord } from '../chat/tools/tool-action.types';
+import type { EscalationReason } from './escalation.types';
+import { wordPattern } from '../common/text-patterns';
+
+/**
+ * Asking for a person, not just mentioning one ("the agent at the gate",
+ * "human error", "me conseiller sur les bagages").
+ */
+const HUMAN_REQUEST = wordPattern([
+  // en
+  '(?:speak|talk|chat) (?:to|with) (?:a |an |the )?(?:real |live )?(?:human|person|agent|representative|someone|somebody|support|customer service)',
+  '(?:connect|transfer|put) me (?:to|through to|with) (?:a |an )?(?:real |live )?(?:human|person|agent|representative|someone)',
+  "(?:i want|i need|i['’]d like|get me|can i (?:get|have)) (?:a |an )?(?:real |live )?(?:human|person|agent|representative)",
+  'live agent',
+  'human agent',
+  'real person',
+  // es
+  'hablar con (?:un |una )?(?:agente|persona|humano|operador|asesor|alguien)',
+  'quiero (?:un |una )?(?:agente|humano|operador|asesor)',
+  'persona real',
+  'agente humano',
+  // fr
+  "parler (?:à|a|avec) (?:un |une )?(?:vrai |vraie )?(?:conseill(?:er|ère)|agent|humain|personne|quelqu['’]un)",
+  'vraie personne',
+  'conseill(?:er|ère) humaine?',
+  // de
+  '(?:mit|zu) (?:einem |einer )?(?:echten |menschlichen )?(?:mitarbeiter(?:in)?|menschen|person|berater(?:in)?|agenten|jemandem) (?:sprechen|reden|verbinden|verbunden)',
+  'echte(?:n|r)? (?:person|mensch(?:en)?)',
+]);
+
+/** Complaints about the service itself, not words like "terrible weather". */
+const FRUSTRATION = wordPattern([
+  // en
+  "(?:you|you['’]re|you are|this (?:bot|chat|assistant|service)(?: is)?|this is) (?:so |really |completely |totally )?(?:useless|ridiculous|terrible|awful|unhelpful|not helpful)",
+  'waste of (?:my )?time',
+  'fed up',
+  "i['’]?m (?:so |really )?(?:frustrated|annoyed)",
+  'this is (?:so |really )?frustrating',
+  // es
+  '(?:eres|esto es|este (?:bot|chat|servicio) es) (?:muy |totalmente )?(?:inútil|ridículo|una vergüenza)',
+  'estoy (?:muy )?hart[oa]',
+  // fr
+  "(?:tu es|vous êtes|c['’]est|ce (?:bot|chat|service) est) (?:vraiment |complètement |totalement )?(?:nul|inutile|ridicule)",
+  "j['’]en ai (?:marre|ras le bol)",
+  // de
+  '(?:du bist|sie sind|das ist|dieser (?:bot|chat|service) ist) (?:total |völlig |echt |wirklich )?(?:nutzlos|unmöglich|lächerlich|eine frechheit)',
+  'so eine frechheit',
+  'ich habe (?:die nase voll|genug)',
+]);
+
+/** An apology or "I can't ..." in the answer the customer is re-asking after. */
+const UNHELPFUL_ANSWER = wordPattern([
+  // en
+  'sorry',
+  "i (?:can['’]t|cannot|couldn['’]t|could not|was unable|am unable|don['’]t have)",
+  'unable to',
+  // es
+  'lo siento',
+  'no (?:puedo|pude|he podido|tengo)',
+  // fr
+  'désolée?',
+  'je ne (?:peux|suis pas en mesure|trouve)',
+  "je n['’]ai pas (?:pu|accès)",
+  // de
+  'leider',
+  'tut mir leid',
+  'kann (?:ich )?(?:das |dies )?nicht',
+]);
+
+const INTENT_KEYWORDS: Array<[string, RegExp]> = [
+  [
+    'refund',
+    wordPattern([
+      'refunds?',
+      'reembolso',
+      'remboursement',
+      'erstattung',
+      'money back',
+    ]),
+  ],
+  [
+    'cancellation',
+    wordPattern(['cancel\\w*', 'anular', 'annul\\w*', 'storn\\w*']),
+  ],
+  [
+    'baggage',
+    wordPattern([
+      'bag(?:gage|s)?',
+      'luggage',
+      'equipaje',
+      'bagages?',
+      'gepäck',
+    ]),
+  ],
+  [
+    'schedule_change',
+    wordPattern([
+      'delay\\w*',
+      'schedule change',
+      'retraso',
+      'retard',
+      'verspätung',
+    ]),
+  ],
+  [
+    'booking',
+    wordPattern([
+      'booking',
+      'reservation',
+      'reserva',
+      'réservation',
+      'buchung',
+    ]),
+  ],
+];
+
+const TOOL_INTENTS: Record<string, string> = {
+  booking_lookup: 'booking',
+  flight_status: 'flight_status',
+  weather_at_flight_arrival: 'weather',
+  route_weather: 'weather',
+};
+
+function tokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/** Jaccard overlap of the two messages' words. */
+function similarity(a: string, b: string): number {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter((t) => right.has(t)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * The customer asks their previous question again right after an answer that
+ * did not help. Re-asking after a real answer (an updated flight status, say)
+ * is not a repeat.
+ */
+function repeatsAfterUnhelpfulAnswer(messages: ChatMessageDto[]): boolean {
+  const userIndexes = messages.flatMap((m, i) =>
+    m.role === 'user' ? [i] : [],
+  );
+  if (userIndexes.length < 2) return false;
+  const [previousIndex, latestIndex] = userIndexes.slice(-2);
+  const latest = messages[latestIndex].content;
+  // Replayed TOOL_RESULT notes are assistant messages too, but not answers.
+  const answer = messages
+    .slice(previousIndex + 1, latestIndex)
+    .filter(
+      (m) => m.role === 'assistant' && !m.content.startsWith('TOOL_RESULT'),
+    )
+    .at(-1);
+  return (
+    answer !== undefined &&
+    UNHELPFUL_ANSWER.test(answer.content) &&
+    tokens(latest).size >= 3 &&
+    similarity(messages[previousIndex].content, latest) >= 0.8
+  );
+}
+
+/**
+ * Reasons the customer should be handed to a human, judged from the
+ * conversation before the model is called: an explicit request, frustration
+ * with the service, or asking the same question again after an unhelpful
+ * answer.
+ */
+export function detectFromMessages(
+  messages: ChatMessageDto[],
+): EscalationReason | null {
+  const latest = messages.filter((m) => m.role === 'user').at(-1)?.content;
+  if (!latest) return null;
+
+  if (HUMAN_REQUEST.test(latest)) return 'human_requested';
+  if (FRUSTRATION.test(latest)) return 'frustration';
+  return repeatsAfterUnhelpfulAnswer(messages) ? 'repeated_question' : null;
+}
+
+/**
+ * Tool failures in one turn: two or more failed lookups. Calls skipped by the
+ * caller's rate limit are not failures of ours.
+ */
+export function detectFromToolCalls(
+  toolCalls: ToolCallRecord[],
+): EscalationReason | null {
+  const failed = toolCalls.filter((c) => c.error && c.error !== 'rate_limited');
+  return failed.length >= 2 ? 'tool_failures' : null;
+}
+
+/** Coarse topic for agents triaging the queue. */
+export function detectIntent(
+  messages: ChatMessageDto[],
+  toolCalls: ToolCallRecord[],
+): string {
+  const text = messages
+    .filter((m) => m.role === 'user')
+    .map((m) => m.content)
+    .join('\n');
+  const byKeyword = INTENT_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  if (byKeyword) return byKeyword[0];
+  const byTool = toolCalls.map((c) => TOOL_INTENTS[c.action]).find(Boolean);
+  return byTool ?? 'other';
+}
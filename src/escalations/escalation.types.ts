@@ -0,0 +1,47 @@
+import type { ToolCallRecord } from '../chat/tools/tool-action.types';
+import type { ChatMessageDto } from '../chat/dto/chat-request.dto';
+
+export const ESCALATION_STATUSES = ['open', 'claimed', 'resolved'] as const;
+export type EscalationStatus = (typeof ESCALATION_STATUSES)[number];
+
+export type EscalationReason =
+  | 'human_requested'
+  | 'frustration'
+  | 'repeated_question'
+  | 'tool_failures';
+
+export interface EscalationTicket {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: EscalationStatus;
+  reason: EscalationReason;
+  /** Coarse topic of the conversation, e.g. "refund" or "booking". */
+  intent: string;
+  transcript: ChatMessageDto[];
+  toolCalls: ToolCallRecord[];
+  conversationId?: string;
+  bookingRef?: string;
+  locale?: string;
+  /** Brand the customer was talking to, so the right team picks it up. */
+  tenantId?: string;
+  /** Support agent who claimed the ticket. */
+  assignee?: string;
+  resolution?: string;
+}
+
+/** What a turn tells the escalation subsystem. */
+export interface EscalationInput {
+  messages: ChatMessageDto[];
+  toolCalls: ToolCallRecord[];
+  conversationId?: string;
+  bookingRef?: string;
+  locale?: string;
+  tenantId?: string;
+}
+
+/** Returned to chat clients when a turn was handed off. */
+export interface EscalationRef {
+  ticketId: string;
+  reason: EscalationReason;
+}
@@ -0,0 +1,37 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminKeyGuard } from '../common/admin-key.guard';
+import { EscalationsService } from './escalations.service';
+import {
+  ListEscalationsQueryDto,
+  UpdateEscalationDto,
+} from './dto/escalation.dto';
+
+/** Support-agent queue. Tickets carry transcripts, so the admin key is required. */
+@Controller('api/escalations')
+@UseGuards(AdminKeyGuard)
+export class EscalationsController {
+  constructor(private readonly escalations: EscalationsService) {}
+
+  @Get()
+  async list(@Query() query: ListEscalationsQueryDto) {
+    return this.escalations.list(query);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.escalations.get(id);
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() body: UpdateEscalationDto) {
+    return this.escalations.update(id, body);
+  }
+}
@@ -0,0 +1,60 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { AdminKeyGuard } from '../common/admin-key.guard';
+import { EscalationsController } from './escalations.controller';
+import { EscalationsService } from './escalations.service';
+import { IEscalationRepository } from './repositories/escalation-repository.interface';
+import { InMemoryEscalationRepository } from './repositories/in-memory-escalation.repository';
+import { FileEscalationRepository } from './repositories/file-escalation.repository';
+import { IEscalationNotifier } from './notifiers/escalation-notifier.interface';
+import { LogEscalationNotifier } from './notifiers/log-escalation.notifier';
+import { FileEscalationNotifier } from './notifiers/file-escalation.notifier';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [EscalationsController],
+  providers: [
+    EscalationsService,
+    AdminKeyGuard,
+    InMemoryEscalationRepository,
+    FileEscalationRepository,
+    LogEscalationNotifier,
+    FileEscalationNotifier,
+    {
+      provide: 'IEscalationRepository',
+      useFactory: (
+        config: ConfigService,
+        memoryRepository: InMemoryEscalationRepository,
+        fileRepository: FileEscalationRepository,
+      ): IEscalationRepository => {
+        const store = config.get<string>('ESCALATION_STORE') ?? 'memory';
+        if (store === 'file') {
+          return fileRepository;
+        }
+        return memoryRepository;
+      },
+      inject: [
+        ConfigService,
+        InMemoryEscalationRepository,
+        FileEscalationRepository,
+      ],
+    },
+    {
+      provide: 'IEscalationNotifier',
+      useFactory: (
+        config: ConfigService,
+        logNotifier: LogEscalationNotifier,
+        fileNotifier: FileEscalationNotifier,
+      ): IEscalationNotifier => {
+        const notifier = config.get<string>('ESCALATION_NOTIFIER') ?? 'log';
+        if (notifier === 'file') {
+          return fileNotifier;
+        }
+        return logNotifier;
+      },
+      inject: [ConfigService, LogEscalationNotifier, FileEscalationNotifier],
+    },
+  ],
+  exports: [EscalationsService],
+})
+export class EscalationsModule {}
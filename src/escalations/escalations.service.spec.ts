@@ -0,0 +1,129 @@
+import { EscalationsService } from './escalations.service';
+import { InMemoryEscalationRepository } from './repositories/in-memory-escalation.repository';
+import { EscalationTicket } from './escalation.types';
+import { EscalationEvent } from './notifiers/escalation-notifier.interface';
+import { ChatMessageDto } from '../chat/dto/chat-request.dto';
+
+function createService() {
+  const events: Array<[EscalationEvent, string]> = [];
+  const service = new EscalationsService(new InMemoryEscalationRepository(), {
+    notify: async (event: EscalationEvent, ticket: EscalationTicket) => {
+      events.push([event, ticket.id]);
+    },
+  });
+  return { service, events };
+}
+
+const users = (...contents: string[]): ChatMessageDto[] =>
+  contents.map((content) => ({ role: 'user', content }));
+
+describe('EscalationsService', () => {
+  it('detects explicit requests, frustration and repeated questions', () => {
+    const { service } = createService();
+
+    expect(service.detectFromMessages(users('Can I speak to someone?'))).toBe(
+      'human_requested',
+    );
+    expect(
+      service.detectFromMessages(users('Quiero hablar con un agente')),
+    ).toBe('human_requested');
+    expect(service.detectFromMessages(users('This bot is useless'))).toBe(
+      'frustration',
+    );
+    expect(
+      service.detectFromMessages([
+        { role: 'user', content: 'Where is my refund for QX7K2M?' },
+        { role: 'assistant', content: "Sorry, I couldn't find that refund." },
+        { role: 'user', content: 'where is my refund for QX7K2M' },
+      ]),
+    ).toBe('repeated_question');
+    expect(
+      service.detectFromMessages(users('How much does a cabin bag cost?')),
+    ).toBeNull();
+  });
+
+  it.each([
+    'Is the weather terrible in Dublin tomorrow?',
+    'The agent at the gate said my bag was too big, is that right?',
+    'Was my flight delayed by human error?',
+    '¿El agente de viajes puede cambiar el nombre de una persona?',
+    'Pouvez-vous me conseiller sur les bagages ?',
+    'Le wifi à bord est nul, puis-je être remboursé ?',
+    'Der Mitarbeiter am Schalter sagte, mein Koffer sei zu schwer.',
+    'Ist es unmöglich, den Flug umzubuchen?',
+  ])('does not escalate on words used in passing: %s', (content) => {
+    expect(
+      createService().service.detectFromMessages(users(content)),
+    ).toBeNull();
+  });
+
+  it('only counts a repeat after an unhelpful answer', () => {
+    const { service } = createService();
+    const status = 'What is the status of flight UA2402?';
+
+    expect(
+      service.detectFromMessages([
+        { role: 'user', content: status },
+        { role: 'assistant', content: 'TOOL_RESULT flight_status: delayed' },
+        { role: 'assistant', content: 'UA2402 is delayed, now leaving 10:40.' },
+        { role: 'user', content: status },
+      ]),
+    ).toBeNull();
+    expect(service.detectFromMessages(users(status, status))).toBeNull();
+    expect(
+      service.detectFromMessages([
+        { role: 'user', content: status },
+        { role: 'assistant', content: 'Leider kann ich das nicht prüfen.' },
+        { role: 'user', content: status },
+      ]),
+    ).toBe('repeated_question');
+  });
+
+  it('opens one ticket per conversation with intent and notifies once', async () => {
+    const { service, events } = createService();
+    const input = {
+      messages: users('I want a refund, let me talk to a human'),
+      toolCalls: [],
+      conversationId: 'conv-1',
+    };
+
+    const first = await service.escalate('human_requested', input);
+    const second = await service.escalate('frustration', {
+      ...input,
+      messages: users('I want a refund', 'Hello??'),
+    });
+
+    expect(second.id).toBe(first.id);
+    expect(second.intent).toBe('refund');
+    expect(second.transcript).toHaveLength(2);
+    expect(events).toEqual([['created', first.id]]);
+  });
+
+  it('lets an agent claim and resolve a ticket', async () => {
+    const { service, events } = createService();
+    const { id } = await service.escalate('frustration', {
+      messages: users('Terrible service'),
+      toolCalls: [],
+    });
+
+    await expect(service.update(id, { status: 'claimed' })).rejects.toThrow(
+      'assignee is required',
+    );
+    await service.update(id, { status: 'claimed', assignee: 'ana' });
+    const resolved = await service.update(id, {
+      status: 'resolved',
+      resolution: 'Refund issued.',
+    });
+
+    expect(resolved).toMatchObject({ status: 'resolved', assignee: 'ana' });
+    await expect(
+      service.update(id, { status: 'claimed', assignee: 'bob' }),
+    ).rejects.toThrow('cannot move to claimed');
+    expect(await service.list({ status: 'resolved' })).toHaveLength(1);
+    expect(events.map(([event]) => event)).toEqual([
+      'created',
+      'claimed',
+      'resolved',
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { ChatMessageDto } from '../chat/dto/chat-request.dto';
+import type { ToolCallRecord } from '../chat/tools/tool-action.types';
+import {
+  EscalationInput,
+  EscalationReason,
+  EscalationStatus,
+  EscalationTicket,
+} from './escalation.types';
+import {
+  detectFromMessages,
+  detectFromToolCalls,
+  detectIntent,
+} from './escalation-detector';
+import { IEscalationRepository } from './repositories/escalation-repository.interface';
+import {
+  EscalationEvent,
+  IEscalationNotifier,
+} from './notifiers/escalation-notifier.interface';
+import {
+  ListEscalationsQueryDto,
+  UpdateEscalationDto,
+} from './dto/escalation.dto';
+
+/** Transcript messages kept on a ticket; older turns are dropped. */
+const MAX_TRANSCRIPT_MESSAGES = 50;
+
+/** Status changes an agent may make, keyed by the current status. */
+const TRANSITIONS: Record<EscalationStatus, EscalationStatus[]> = {
+  open: ['claimed', 'resolved'],
+  claimed: ['claimed', 'open', 'resolved'],
+  resolved: ['open'],
+};
+
+const EVENTS: Record<EscalationStatus, EscalationEvent> = {
+  open: 'reopened',
+  claimed: 'claimed',
+  resolved: 'resolved',
+};
+
+/** Human handoff: decides when a chat needs an agent and tracks the ticket. */
+@Injectable()
+export class EscalationsService {
+  private readonly logger = new Logger(EscalationsService.name);
+
+  constructor(
+    @Inject('IEscalationRepository')
+    private readonly repository: IEscalationRepository,
+    @Inject('IEscalationNotifier')
+    private readonly notifier: IEscalationNotifier,
+  ) {}
+
+  /** Checked before the model runs; a hit skips the turn entirely. */
+  detectFromMessages(messages: ChatMessageDto[]): EscalationReason | null {
+    return detectFromMessages(messages);
+  }
+
+  /** Checked after the tool loop, when the turn failed to get answers. */
+  detectFromToolCalls(toolCalls: ToolCallRecord[]): EscalationReason | null {
+    return detectFromToolCalls(toolCalls);
+  }
+
+  /**
+   * Opens a ticket, or refreshes the transcript on the conversation's ticket
+   * if one is still open or claimed, so a customer asking twice does not end
+   * up in the queue twice.
+   */
+  async escalate(
+    reason: EscalationReason,
+    input: EscalationInput,
+  ): Promise<EscalationTicket> {
+    const now = new Date().toISOString();
+    const transcript = input.messages.slice(-MAX_TRANSCRIPT_MESSAGES);
+
+    const existing = input.conversationId
+      ? await this.findActiveForConversation(input.conversationId)
+      : null;
+    if (existing) {
+      existing.transcript = transcript;
+      existing.toolCalls.push(...input.toolCalls);
+      existing.updatedAt = now;
+      await this.repository.save(existing);
+      return existing;
+    }
+
+    const ticket: EscalationTicket = {
+      id: `ESC-${randomBytes(4).toString('hex').toUpperCase()}`,
+      createdAt: now,
+      updatedAt: now,
+      status: 'open',
+      reason,
+      intent: detectIntent(input.messages, input.toolCalls),
+      transcript,
+      toolCalls: input.toolCalls,
+      conversationId: input.conversationId,
+      bookingRef: input.bookingRef,
+      locale: input.locale,
+      tenantId: input.tenantId,
+    };
+    await this.repository.save(ticket);
+    await this.publish('created', ticket);
+    return ticket;
+  }
+
+  /** Newest first. */
+  async list(
+    filter: ListEscalationsQueryDto = {},
+  ): Promise<EscalationTicket[]> {
+    const tickets = await this.repository.findAll();
+    return tickets
+      .filter((t) => !filter.status || t.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<EscalationTicket> {
+    const ticket = await this.repository.findById(id);
+    if (!ticket) {
+      throw new NotFoundException(`Escalation ${id} not found.`);
+    }
+    return ticket;
+  }
+
+  async update(
+    id: string,
+    dto: UpdateEscalationDto,
+  ): Promise<EscalationTicket> {
+    const ticket = await this.get(id);
+    const status = dto.status ?? ticket.status;
+
+    if (status !== ticket.status || status === 'claimed') {
+      if (!TRANSITIONS[ticket.status].includes(status)) {
+        throw new ConflictException(
+          `Escalation ${id} is ${ticket.status} and cannot move to ${status}.`,
+        );
+      }
+    }
+
+    const assignee = dto.assignee ?? ticket.assignee;
+    if (status === 'claimed' && !assignee) {
+      throw new BadRequestException('assignee is required to claim a ticket.');
+    }
+
+    const changed = status !== ticket.status || assignee !== ticket.assignee;
+    ticket.status = status;
+    ticket.assignee = status === 'open' ? undefined : assignee;
+    if (dto.resolution !== undefined) {
+      ticket.resolution = dto.resolution;
+    }
+    ticket.updatedAt = new Date().toISOString();
+    await this.repository.save(ticket);
+    if (changed) {
+      await this.publish(EVENTS[status], ticket);
+    }
+    return ticket;
+  }
+
+  private async findActiveForConversation(
+    conversationId: string,
+  ): Promise<EscalationTicket | null> {
+    const tickets = await this.repository.findAll();
+    return (
+      tickets.find(
+        (t) => t.conversationId === conversationId && t.status !== 'resolved',
+      ) ?? null
+    );
+  }
+
+  private async publish(
+    event: EscalationEvent,
+    ticket: EscalationTicket,
+  ): Promise<void> {
+    try {
+      await this.notifier.notify(event, ticket);
+    } catch (e) {
+      this.logger.error(
+        `Failed to send ${event} notification for ${ticket.id}`,
+        e as Error,
+      );
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { EscalationTicket } from '../escalation.types';
+
+export type EscalationEvent = 'created' | 'claimed' | 'resolved' | 'reopened';
+
+/**
+ * Delivers ticket events to the support team. Implementations should not throw
+ * for delivery problems they can log; EscalationsService never fails a chat
+ * turn because a notification did not go out.
+ */
+export interface IEscalationNotifier {
+  notify(event: EscalationEvent, ticket: EscalationTicket): Promise<void>;
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { EscalationTicket } from '../escalation.types';
+import {
+  EscalationEvent,
+  IEscalationNotifier,
+} from './escalation-notifier.interface';
+
+/**
+ * Appends one JSON line per event to ESCALATION_NOTIFY_FILE, for a helpdesk
+ * importer or a `tail -f` in the support room.
+ */
+@Injectable()
+export class FileEscalationNotifier implements IEscalationNotifier {
+  private readonly path: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.path =
+      this.config.get<string>('ESCALATION_NOTIFY_FILE') ??
+      'data/escalations/events.jsonl';
+  }
+
+  async notify(
+    event: EscalationEvent,
+    ticket: EscalationTicket,
+  ): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const line = JSON.stringify({
+      event,
+      at: new Date().toISOString(),
+      ticket,
+    });
+    await appendFile(this.path, `${line}\n`, 'utf8');
+  }
+}
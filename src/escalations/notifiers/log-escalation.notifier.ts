@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EscalationTicket } from '../escalation.types';
+import {
+  EscalationEvent,
+  IEscalationNotifier,
+} from './escalation-notifier.interface';
+
+/** Writes one log line per event; the transcript stays in the ticket store. */
+@Injectable()
+export class LogEscalationNotifier implements IEscalationNotifier {
+  private readonly logger = new Logger('Escalations');
+
+  async notify(
+    event: EscalationEvent,
+    ticket: EscalationTicket,
+  ): Promise<void> {
+    const assignee = ticket.assignee ? ` assignee=${ticket.assignee}` : '';
+    this.logger.log(
+      `Ticket ${ticket.id} ${event} (reason=${ticket.reason}, intent=${ticket.intent}${assignee})`,
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { EscalationTicket } from '../escalation.types';
+
+export interface IEscalationRepository {
+  findAll(): Promise<EscalationTicket[]>;
+  findById(id: string): Promise<EscalationTicket | null>;
+  /** Inserts or replaces the whole ticket. */
+  save(ticket: EscalationTicket): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { EscalationTicket } from '../escalation.types';
+import { IEscalationRepository } from './escalation-repository.interface';
+
+const SAFE_ID = /^[A-Za-z0-9-]+$/;
+
+/**
+ * One JSON file per ticket under ESCALATION_STORE_DIR, written through a temp
+ * file and renamed into place like FileConversationRepository.
+ */
+@Injectable()
+export class FileEscalationRepository implements IEscalationRepository {
+  private readonly logger = new Logger(FileEscalationRepository.name);
+  private readonly dir: string;
+
+  constructor(private readonly config: ConfigService) {
+    this.dir =
+      this.config.get<string>('ESCALATION_STORE_DIR') ?? 'data/escalations';
+  }
+
+  async findAll(): Promise<EscalationTicket[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+    const tickets = await Promise.all(
+      files
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => this.findById(f.slice(0, -'.json'.length))),
+    );
+    return tickets.filter((t): t is EscalationTicket => t !== null);
+  }
+
+  async findById(id: string): Promise<EscalationTicket | null> {
+    if (!SAFE_ID.test(id)) return null;
+    try {
+      const json = await readFile(this.pathFor(id), 'utf8');
+      return JSON.parse(json) as EscalationTicket;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(`Failed to read escalation ${id}`, e as Error);
+      }
+      return null;
+    }
+  }
+
+  async save(ticket: EscalationTicket): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const path = this.pathFor(ticket.id);
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(ticket, null, 2), 'utf8');
+    await rename(tmp, path);
+  }
+
+  private pathFor(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
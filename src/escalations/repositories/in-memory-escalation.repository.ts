@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { EscalationTicket } from '../escalation.types';
+import { IEscalationRepository } from './escalation-repository.interface';
+
+/** Process-local store; tickets are lost on restart. Default for development. */
+@Injectable()
+export class InMemoryEscalationRepository implements IEscalationRepository {
+  private readonly tickets = new Map<string, EscalationTicket>();
+
+  async findAll(): Promise<EscalationTicket[]> {
+    return [...this.tickets.values()].map((t) => structuredClone(t));
+  }
+
+  async findById(id: string): Promise<EscalationTicket | null> {
+    const ticket = this.tickets.get(id);
+    return ticket ? structuredClone(ticket) : null;
+  }
+
+  async save(ticket: EscalationTicket): Promise<void> {
+    this.tickets.set(ticket.id, structuredClone(ticket));
+  }
+}
@@ -0,0 +1,99 @@
+import { ChatService } from '../chat/chat.service';
+import { MetricsService } from '../observability/metrics.service';
+import { StubToolRegistry } from './stub-tool-registry';
+import {
+  CaseResult,
+  EvaluationCase,
+  EvaluationDataset,
+  EvaluationReport,
+} from './evaluation.types';
+import {
+  checkReply,
+  detectJsonLeak,
+  scoreToolCalls,
+  summarize,
+} from './scoring';
+
+/** Runs dataset cases one at a time through ChatService.runTurn and scores them. */
+export class EvaluationRunner {
+  constructor(
+    private readonly chat: ChatService,
+    private readonly tools: StubToolRegistry,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  async run(
+    dataset: EvaluationDataset,
+    label: string,
+    datasetPath: string,
+    onCase?: (result: CaseResult) => void,
+  ): Promise<EvaluationReport> {
+    const results: CaseResult[] = [];
+    for (const testCase of dataset.cases) {
+      const result = await this.runCase(testCase);
+      results.push(result);
+      onCase?.(result);
+    }
+    return {
+      label,
+      createdAt: new Date().toISOString(),
+      dataset: datasetPath,
+      providers: [...new Set(results.map((r) => r.provider).filter(Boolean))],
+      summary: summarize(results),
+      cases: results,
+    };
+  }
+
+  async runCase(testCase: EvaluationCase): Promise<CaseResult> {
+    this.tools.useResults(testCase.toolResults);
+    const failuresBefore = await this.parseFailures();
+    const startedAt = Date.now();
+    try {
+      const result = await this.chat.runTurn(
+        testCase.messages,
+        testCase.context,
+      );
+      const actual = result.toolCalls.map(({ action, params }) => ({
+        action,
+        params,
+      }));
+      return {
+        id: testCase.id,
+        expected: testCase.expected,
+        actual,
+        ...scoreToolCalls(testCase.expected, actual),
+        parseFailures: (await this.parseFailures()) - failuresBefore,
+        jsonLeak: detectJsonLeak(result.reply),
+        assertions: checkReply(result.reply, testCase.reply),
+        reply: result.reply,
+        provider: result.meta?.provider,
+        model: result.meta?.model,
+        latencyMs: Date.now() - startedAt,
+        totalTokens: result.meta?.usage.totalTokens,
+      };
+    } catch (e) {
+      return {
+        id: testCase.id,
+        expected: testCase.expected,
+        actual: [],
+        actionsCorrect: false,
+        toolCorrect: false,
+        parseFailures: (await this.parseFailures()) - failuresBefore,
+        jsonLeak: false,
+        assertions: checkReply('', testCase.reply).map((a) => ({
+          ...a,
+          passed: false,
+        })),
+        reply: '',
+        latencyMs: Date.now() - startedAt,
+        error: (e as Error).message,
+      };
+    }
+  }
+
+  /** Total of chat_tool_parse_failures_total across sources. */
+  private async parseFailures(): Promise<number> {
+    const { values } = await this.metrics.toolParseFailures.get();
+    return values.reduce((sum, v) => sum + v.value, 0);
+  }
+}
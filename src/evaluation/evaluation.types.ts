@@ -0,0 +1,105 @@
+import type {
+  ChatContextDto,
+  ClientChatMessageDto,
+} from '../chat/dto/chat-request.dto';
+import type { ToolAction } from '../chat/tools/tool-action.types';
+
+/** Checks on the final reply; text checks are case-insensitive. */
+export interface ReplyAssertions {
+  /** Every string must appear. */
+  contains?: string[];
+  /** None of these may appear. */
+  notContains?: string[];
+  /** A regular expression the reply must match. */
+  matches?: string;
+}
+
+/** One conversation from the evaluation dataset. */
+export interface EvaluationCase {
+  id: string;
+  messages: ClientChatMessageDto[];
+  context?: ChatContextDto;
+  /**
+   * Tool calls the turn should make; empty when it should answer directly.
+   * Expected params must match (case- and space-insensitive); extra params
+   * the model adds are ignored.
+   */
+  expected: ToolAction[];
+  reply?: ReplyAssertions;
+  /** Canned TOOL_RESULT summary per tool name, so runs stay offline. */
+  toolResults?: Record<string, string>;
+}
+
+export interface EvaluationDataset {
+  cases: EvaluationCase[];
+}
+
+export interface ReplyAssertionResult {
+  assertion: string;
+  passed: boolean;
+}
+
+export interface CaseResult {
+  id: string;
+  expected: ToolAction[];
+  actual: ToolAction[];
+  /** The turn called exactly the expected tools. */
+  actionsCorrect: boolean;
+  /** actionsCorrect, and each call had the expected params. */
+  toolCorrect: boolean;
+  /** Tool JSON the model produced that did not parse. */
+  parseFailures: number;
+  /** Tool JSON still in the reply after stripping. */
+  jsonLeak: boolean;
+  assertions: ReplyAssertionResult[];
+  reply: string;
+  provider?: string;
+  model?: string;
+  latencyMs: number;
+  totalTokens?: number;
+  /** Set when the turn threw; the case then counts as failed everywhere. */
+  error?: string;
+}
+
+export interface EvaluationSummary {
+  cases: number;
+  errors: number;
+  /** Share of cases with the right tools and params. */
+  toolAccuracy: number;
+  /** Share of cases with the right tools, ignoring params. */
+  actionAccuracy: number;
+  /** Share of cases with at least one unparseable tool JSON. */
+  parseFailureRate: number;
+  /** Share of cases whose reply still showed tool JSON. */
+  jsonLeakRate: number;
+  /** Share of cases with reply assertions that passed all of them. */
+  replyPassRate: number;
+  avgLatencyMs: number;
+  totalTokens: number;
+}
+
+export interface EvaluationReport {
+  label: string;
+  createdAt: string;
+  dataset: string;
+  /** Providers that answered, as reported in the turns' meta. */
+  providers: string[];
+  summary: EvaluationSummary;
+  cases: CaseResult[];
+  comparison?: ReportComparison;
+}
+
+export interface MetricDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/** What changed between a baseline report and this run. */
+export interface ReportComparison {
+  baseline: string;
+  summary: Partial<Record<keyof EvaluationSummary, MetricDelta>>;
+  /** Cases whose tool selection or reply assertions flipped. */
+  regressions: string[];
+  fixes: string[];
+}
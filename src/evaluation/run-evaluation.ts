@@ -0,0 +1,109 @@
+import { Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { parseArgs } from 'util';
+import { AppModule } from '../app.module';
+import { ChatService } from '../chat/chat.service';
+import { ToolRegistry } from '../chat/tools/tool-registry.service';
+import { MetricsService } from '../observability/metrics.service';
+import { EvaluationRunner } from './evaluation.runner';
+import { StubToolRegistry } from './stub-tool-registry';
+import { EvaluationDataset, EvaluationReport } from './evaluation.types';
+import { casePassed, compareReports } from './scoring';
+
+const USAGE = `Usage: pnpm eval [options]
+  --dataset <path>     Dataset JSON (default evaluation/dataset.json)
+  --label <name>       Report label, e.g. "openai-prompt-v2" (default: the provider)
+  --provider <id>      LLM_PROVIDER for this run (default: from the environment)
+  --out <path>         Report path (default evaluation/reports/<label>.json)
+  --baseline <path>    Earlier report to diff against
+  --fail-under <rate>  Exit with 1 when toolAccuracy is below this (0-1)`;
+
+/**
+ * Offline evaluation of tool routing and answer quality. Boots the app with
+ * tools answering from the dataset's canned results, runs every case through
+ * ChatService against the configured LLM client and writes a JSON report.
+ */
+async function main(): Promise<number> {
+  const { values: args } = parseArgs({
+    options: {
+      dataset: { type: 'string', default: 'evaluation/dataset.json' },
+      label: { type: 'string' },
+      provider: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      'fail-under': { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (args.provider) process.env.LLM_PROVIDER = args.provider;
+  const label = args.label ?? process.env.LLM_PROVIDER ?? 'gemini';
+  const out = args.out ?? `evaluation/reports/${label}.json`;
+
+  const dataset = JSON.parse(
+    await readFile(args.dataset, 'utf8'),
+  ) as EvaluationDataset;
+
+  // Per-turn trace and startup logs would drown the results.
+  Logger.overrideLogger(['error', 'warn']);
+  const moduleRef = await Test.createTestingModule({ imports: [AppModule] })
+    .overrideProvider(ToolRegistry)
+    .useClass(StubToolRegistry)
+    .compile();
+  await moduleRef.init();
+
+  let report: EvaluationReport;
+  try {
+    const runner = new EvaluationRunner(
+      moduleRef.get(ChatService),
+      moduleRef.get(ToolRegistry) as StubToolRegistry,
+      moduleRef.get(MetricsService),
+    );
+    report = await runner.run(dataset, label, args.dataset, (result) =>
+      console.log(
+        `${casePassed(result) ? 'PASS' : 'FAIL'} ${result.id}${result.error ? ` (${result.error})` : ''}`,
+      ),
+    );
+  } finally {
+    await moduleRef.close();
+  }
+
+  if (args.baseline) {
+    const baseline = JSON.parse(
+      await readFile(args.baseline, 'utf8'),
+    ) as EvaluationReport;
+    report.comparison = compareReports(baseline, report);
+  }
+
+  await mkdir(dirname(out), { recursive: true });
+  await writeFile(out, JSON.stringify(report, null, 2), 'utf8');
+
+  console.log(`\n${label} (${report.providers.join(', ') || 'no LLM calls'})`);
+  for (const [metric, value] of Object.entries(report.summary)) {
+    const delta = report.comparison?.summary[metric]?.delta;
+    const change = delta ? ` (${delta > 0 ? '+' : ''}${delta})` : '';
+    console.log(`  ${metric.padEnd(18)} ${value}${change}`);
+  }
+  if (report.comparison) {
+    const { regressions, fixes } = report.comparison;
+    console.log(`  regressions        ${regressions.join(', ') || '-'}`);
+    console.log(`  fixes              ${fixes.join(', ') || '-'}`);
+  }
+  console.log(`Report written to ${out}`);
+
+  const failUnder = Number(args['fail-under'] ?? 0);
+  return report.summary.toolAccuracy < failUnder ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,91 @@
+import {
+  checkReply,
+  compareReports,
+  detectJsonLeak,
+  scoreToolCalls,
+  summarize,
+} from './scoring';
+import { CaseResult, EvaluationReport } from './evaluation.types';
+
+const result = (id: string, overrides: Partial<CaseResult> = {}) =>
+  ({
+    id,
+    expected: [],
+    actual: [],
+    actionsCorrect: true,
+    toolCorrect: true,
+    parseFailures: 0,
+    jsonLeak: false,
+    assertions: [],
+    reply: 'ok',
+    latencyMs: 10,
+    ...overrides,
+  }) as CaseResult;
+
+const report = (label: string, cases: CaseResult[]) =>
+  ({ label, summary: summarize(cases), cases }) as EvaluationReport;
+
+describe('evaluation scoring', () => {
+  it('matches tool calls in any order, ignoring param case, spacing and extras', () => {
+    const expected = [
+      { action: 'flight_status', params: { flight_number: 'BA123' } },
+      { action: 'route_weather', params: { origin_city: 'Rome' } },
+    ];
+
+    expect(
+      scoreToolCalls(expected, [
+        { action: 'route_weather', params: { origin_city: 'rome', x: 1 } },
+        { action: 'flight_status', params: { flight_number: 'BA 123' } },
+      ]),
+    ).toEqual({ actionsCorrect: true, toolCorrect: true });
+    expect(
+      scoreToolCalls(expected.slice(0, 1), [
+        { action: 'flight_status', params: { flight_number: 'BA124' } },
+      ]),
+    ).toEqual({ actionsCorrect: true, toolCorrect: false });
+    expect(scoreToolCalls([], [{ action: 'none' }])).toEqual({
+      actionsCorrect: true,
+      toolCorrect: true,
+    });
+    expect(scoreToolCalls([], expected).actionsCorrect).toBe(false);
+  });
+
+  it('flags tool JSON left in a reply', () => {
+    expect(detectJsonLeak('Sure! {"action": "flight_status"}')).toBe(true);
+    expect(detectJsonLeak('Your flight is on time.')).toBe(false);
+  });
+
+  it('checks reply assertions case-insensitively', () => {
+    expect(
+      checkReply('Refunds take 5 business Days.', {
+        contains: ['refunds'],
+        notContains: ['voucher'],
+        matches: 'days?',
+      }).map((a) => a.passed),
+    ).toEqual([true, true, true]);
+  });
+
+  it('summarizes rates and diffs two reports', () => {
+    const before = report('v1', [
+      result('a'),
+      result('b', { toolCorrect: false, actionsCorrect: false }),
+    ]);
+    const after = report('v2', [
+      result('a', { jsonLeak: true, parseFailures: 1 }),
+      result('b'),
+    ]);
+
+    expect(after.summary).toMatchObject({
+      cases: 2,
+      toolAccuracy: 1,
+      parseFailureRate: 0.5,
+      jsonLeakRate: 0.5,
+    });
+    expect(compareReports(before, after)).toMatchObject({
+      baseline: 'v1',
+      summary: { toolAccuracy: { before: 0.5, after: 1, delta: 0.5 } },
+      regressions: ['a'],
+      fixes: ['b'],
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  NO_TOOL_ACTION,
+  ToolAction,
+  ToolParams,
+} from '../chat/tools/tool-action.types';
+import {
+  CaseResult,
+  EvaluationReport,
+  EvaluationSummary,
+  ReplyAssertionResult,
+  ReplyAssertions,
+  ReportComparison,
+} from './evaluation.types';
+
+/** An "action" key in an object, as in tool JSON (straight or curly quotes). */
+const TOOL_JSON = /[{,]\s*["“]action["”]\s*:/;
+
+/** True when tool JSON survived stripToolJsonFromReply into the reply. */
+export function detectJsonLeak(reply: string): boolean {
+  return TOOL_JSON.test(reply);
+}
+
+function normalize(value: unknown): string {
+  return String(value).replace(/\s+/g, '').toLowerCase();
+}
+
+function paramsMatch(expected: ToolParams = {}, actual: ToolParams = {}) {
+  return Object.entries(expected).every(
+    ([key, value]) =>
+      actual[key] !== undefined && normalize(actual[key]) === normalize(value),
+  );
+}
+
+/**
+ * Compares the tool calls a turn made with the expected ones, in any order.
+ * 'none' entries are ignored on both sides.
+ */
+export function scoreToolCalls(
+  expected: ToolAction[],
+  actual: ToolAction[],
+): { actionsCorrect: boolean; toolCorrect: boolean } {
+  const wanted = expected.filter((a) => a.action !== NO_TOOL_ACTION);
+  const made = actual.filter((a) => a.action !== NO_TOOL_ACTION);
+  const names = (actions: ToolAction[]) =>
+    actions
+      .map((a) => a.action)
+      .sort()
+      .join(',');
+  const actionsCorrect = names(wanted) === names(made);
+  if (!actionsCorrect) return { actionsCorrect, toolCorrect: false };
+
+  const unused = [...made];
+  const toolCorrect = wanted.every((want) => {
+    const index = unused.findIndex(
+      (a) => a.action === want.action && paramsMatch(want.params, a.params),
+    );
+    if (index === -1) return false;
+    unused.splice(index, 1);
+    return true;
+  });
+  return { actionsCorrect, toolCorrect };
+}
+
+export function checkReply(
+  reply: string,
+  assertions: ReplyAssertions = {},
+): ReplyAssertionResult[] {
+  const text = reply.toLowerCase();
+  return [
+    ...(assertions.contains ?? []).map((s) => ({
+      assertion: `contains "${s}"`,
+      passed: text.includes(s.toLowerCase()),
+    })),
+    ...(assertions.notContains ?? []).map((s) => ({
+      assertion: `does not contain "${s}"`,
+      passed: !text.includes(s.toLowerCase()),
+    })),
+    ...(assertions.matches
+      ? [
+          {
+            assertion: `matches /${assertions.matches}/i`,
+            passed: new RegExp(assertions.matches, 'i').test(reply),
+          },
+        ]
+      : []),
+  ];
+}
+
+const rate = (count: number, total: number) =>
+  total === 0 ? 0 : Math.round((count / total) * 10000) / 10000;
+
+export function summarize(results: CaseResult[]): EvaluationSummary {
+  const withAssertions = results.filter((r) => r.assertions.length > 0);
+  const count = (pick: (r: CaseResult) => boolean) =>
+    results.filter(pick).length;
+  return {
+    cases: results.length,
+    errors: count((r) => Boolean(r.error)),
+    toolAccuracy: rate(
+      count((r) => r.toolCorrect),
+      results.length,
+    ),
+    actionAccuracy: rate(
+      count((r) => r.actionsCorrect),
+      results.length,
+    ),
+    parseFailureRate: rate(
+      count((r) => r.parseFailures > 0),
+      results.length,
+    ),
+    jsonLeakRate: rate(
+      count((r) => r.jsonLeak),
+      results.length,
+    ),
+    replyPassRate: rate(
+      withAssertions.filter((r) => r.assertions.every((a) => a.passed)).length,
+      withAssertions.length,
+    ),
+    avgLatencyMs: Math.round(
+      results.reduce((sum, r) => sum + r.latencyMs, 0) /
+        Math.max(results.length, 1),
+    ),
+    totalTokens: results.reduce((sum, r) => sum + (r.totalTokens ?? 0), 0),
+  };
+}
+
+/** Right tools and params, a clean reply and every reply assertion met. */
+export function casePassed(result: CaseResult): boolean {
+  return (
+    !result.error &&
+    result.toolCorrect &&
+    !result.jsonLeak &&
+    result.assertions.every((a) => a.passed)
+  );
+}
+
+/** Summary deltas and the cases that started or stopped passing. */
+export function compareReports(
+  baseline: EvaluationReport,
+  current: EvaluationReport,
+): ReportComparison {
+  const summary: ReportComparison['summary'] = {};
+  for (const key of Object.keys(current.summary) as Array<
+    keyof EvaluationSummary
+  >) {
+    const before = baseline.summary[key] ?? 0;
+    const after = current.summary[key];
+    summary[key] = {
+      before,
+      after,
+      delta: Math.round((after - before) * 10000) / 10000,
+    };
+  }
+
+  const passedBefore = new Map(
+    baseline.cases.map((c) => [c.id, casePassed(c)]),
+  );
+  const regressions: string[] = [];
+  const fixes: string[] = [];
+  for (const result of current.cases) {
+    const before = passedBefore.get(result.id);
+    if (before === undefined) continue;
+    const after = casePassed(result);
+    if (before && !after) regressions.push(result.id);
+    if (!before && after) fixes.push(result.id);
+  }
+  return { baseline: baseline.label, summary, regressions, fixes };
+}
@@ -0,0 +1,30 @@
+import { Injectable } from '@nestjs/common';
+import { ToolRegistry } from '../chat/tools/tool-registry.service';
+import { ChatTool } from '../chat/tools/chat-tool.interface';
+
+const NO_CANNED_RESULT = 'No data available for this request.';
+
+/**
+ * ToolRegistry whose tools answer with the current case's canned results, so
+ * evaluations never call Aviationstack, Open-Meteo or the booking provider.
+ * Declarations, parsing and stripping are the real ones.
+ */
+@Injectable()
+export class StubToolRegistry extends ToolRegistry {
+  private results: Record<string, string> = {};
+
+  useResults(results: Record<string, string> = {}): void {
+    this.results = results;
+  }
+
+  get(name: string, enabled?: readonly string[]): ChatTool | undefined {
+    const tool = super.get(name, enabled);
+    if (!tool) return undefined;
+    return {
+      ...tool,
+      execute: async () => ({
+        summary: this.results[name] ?? NO_CANNED_RESULT,
+      }),
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  IsIn,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import {
+  FEEDBACK_EXPORT_FORMATS,
+  FEEDBACK_RATINGS,
+  FEEDBACK_REASONS,
+  FeedbackExportFormat,
+  FeedbackRating,
+  FeedbackReason,
+} from '../feedback.types';
+
+const RATING_MESSAGE = `rating must be one of: ${FEEDBACK_RATINGS.join(', ')}`;
+const REASON_MESSAGE = `reason must be one of: ${FEEDBACK_REASONS.join(', ')}`;
+
+export class SubmitFeedbackDto {
+  // From the chat response (or the stream's done event)
+  @IsUUID()
+  replyId: string;
+
+  @IsIn(FEEDBACK_RATINGS, { message: RATING_MESSAGE })
+  rating: FeedbackRating;
+
+  @IsOptional()
+  @IsIn(FEEDBACK_REASONS, { message: REASON_MESSAGE })
+  reason?: FeedbackReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class ExportFeedbackQueryDto {
+  @IsOptional()
+  @IsIn(FEEDBACK_EXPORT_FORMATS, {
+    message: `format must be one of: ${FEEDBACK_EXPORT_FORMATS.join(', ')}`,
+  })
+  format?: FeedbackExportFormat;
+
+  // Inclusive; a bare date (YYYY-MM-DD) covers that whole day
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @IsOptional()
+  @IsIn(FEEDBACK_RATINGS, { message: RATING_MESSAGE })
+  rating?: FeedbackRating;
+
+  @IsOptional()
+  @IsIn(FEEDBACK_REASONS, { message: REASON_MESSAGE })
+  reason?: FeedbackReason;
+
+  @IsOptional()
+  @IsString()
+  tenantId?: string;
+}
@@ -0,0 +1,52 @@
+import { FeedbackRecord } from './feedback.types';
+
+const CSV_COLUMNS: Array<[string, (r: FeedbackRecord) => unknown]> = [
+  ['created_at', (r) => r.createdAt],
+  ['updated_at', (r) => r.updatedAt],
+  ['reply_id', (r) => r.replyId],
+  ['rating', (r) => r.rating],
+  ['reason', (r) => r.reason],
+  ['comment', (r) => r.comment],
+  ['tenant_id', (r) => r.snapshot.tenantId],
+  ['client_id', (r) => r.snapshot.clientId],
+  ['conversation_id', (r) => r.snapshot.conversationId],
+  ['locale', (r) => r.snapshot.locale],
+  ['provider', (r) => r.snapshot.meta?.provider],
+  ['model', (r) => r.snapshot.meta?.model],
+  ['tools', (r) => r.snapshot.toolCalls.map((c) => c.action).join(';')],
+  ['escalation_ticket', (r) => r.snapshot.escalation?.ticketId],
+  [
+    'question',
+    (r) => r.snapshot.messages.filter((m) => m.role === 'user').pop()?.content,
+  ],
+  ['reply', (r) => r.snapshot.messages.at(-1)?.content],
+];
+
+/**
+ * Quotes a value for CSV. Text starting with =, +, - or @ is prefixed with an
+ * apostrophe so spreadsheets show customer comments instead of evaluating them.
+ */
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per reply, with the question and answer flattened into columns. */
+export function toCsv(records: FeedbackRecord[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = records.map((r) =>
+    CSV_COLUMNS.map(([, read]) => csvCell(read(r))).join(','),
+  );
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
+
+/** Full records, snapshot included (less its ownerKey), one JSON object per line. */
+export function toJsonLines(records: FeedbackRecord[]): string {
+  return records
+    .map((r) => {
+      const snapshot = { ...r.snapshot, ownerKey: undefined };
+      return `${JSON.stringify({ ...r, snapshot })}\n`;
+    })
+    .join('');
+}
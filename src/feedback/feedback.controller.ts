@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { AdminKeyGuard } from '../common/admin-key.guard';
+import { ApiKeyGuard } from '../api-clients/api-key.guard';
+import { ApiClient } from '../api-clients/api-client.decorator';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import { FeedbackService } from './feedback.service';
+import { ExportFeedbackQueryDto, SubmitFeedbackDto } from './dto/feedback.dto';
+import { toCsv, toJsonLines } from './feedback-export';
+
+/** Ratings from chat clients, keyed by the replyId each chat response carries. */
+@Controller('api/chat/feedback')
+@UseGuards(ApiKeyGuard)
+export class FeedbackController {
+  constructor(private readonly feedback: FeedbackService) {}
+
+  @Post()
+  async submit(
+    @Body() body: SubmitFeedbackDto,
+    @ApiClient() client: ApiClientIdentity,
+  ) {
+    const { replyId, rating, reason, comment, updatedAt } =
+      await this.feedback.submit(body, client);
+    return { replyId, rating, reason, comment, updatedAt };
+  }
+}
+
+/** Analyst export. Records carry transcripts, so the admin key is required. */
+@Controller('api/feedback')
+@UseGuards(AdminKeyGuard)
+export class FeedbackExportController {
+  constructor(private readonly feedback: FeedbackService) {}
+
+  @Get('export')
+  @Header('Cache-Control', 'no-store')
+  async export(
+    @Query() query: ExportFeedbackQueryDto,
+    @Res({ passthrough: true }) res: FastifyReply,
+  ) {
+    const format = query.format ?? 'jsonl';
+    const records = await this.feedback.export(query);
+    const date = new Date().toISOString().slice(0, 10);
+    res.header(
+      'Content-Disposition',
+      `attachment; filename="feedback-${date}.${format}"`,
+    );
+    if (format === 'csv') {
+      res.header('Content-Type', 'text/csv; charset=utf-8');
+      return toCsv(records);
+    }
+    res.header('Content-Type', 'application/x-ndjson; charset=utf-8');
+    return toJsonLines(records);
+  }
+}
@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { AdminKeyGuard } from '../common/admin-key.guard';
+import { ApiClientsModule } from '../api-clients/api-clients.module';
+import {
+  FeedbackController,
+  FeedbackExportController,
+} from './feedback.controller';
+import { FeedbackService } from './feedback.service';
+import { IFeedbackRepository } from './repositories/feedback-repository.interface';
+import { InMemoryFeedbackRepository } from './repositories/in-memory-feedback.repository';
+import { FileFeedbackRepository } from './repositories/file-feedback.repository';
+
+@Module({
+  imports: [ConfigModule, ApiClientsModule],
+  controllers: [FeedbackController, FeedbackExportController],
+  providers: [
+    FeedbackService,
+    AdminKeyGuard,
+    InMemoryFeedbackRepository,
+    FileFeedbackRepository,
+    {
+      provide: 'IFeedbackRepository',
+      useFactory: (
+        config: ConfigService,
+        memoryRepository: InMemoryFeedbackRepository,
+        fileRepository: FileFeedbackRepository,
+      ): IFeedbackRepository => {
+        const store = config.get<string>('FEEDBACK_STORE') ?? 'memory';
+        if (store === 'file') {
+          return fileRepository;
+        }
+        return memoryRepository;
+      },
+      inject: [
+        ConfigService,
+        InMemoryFeedbackRepository,
+        FileFeedbackRepository,
+      ],
+    },
+  ],
+  exports: [FeedbackService],
+})
+export class FeedbackModule {}
@@ -0,0 +1,140 @@
+import { NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { FeedbackService } from './feedback.service';
+import { InMemoryFeedbackRepository } from './repositories/in-memory-feedback.repository';
+import { toCsv, toJsonLines } from './feedback-export';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+
+function createService(env: Record<string, string> = {}) {
+  const config = { get: (key: string) => env[key] } as ConfigService;
+  return new FeedbackService(new InMemoryFeedbackRepository(), config);
+}
+
+const partner = {
+  id: 'partner',
+  anonymous: false,
+  bucketKey: 'partner',
+} as ApiClientIdentity;
+
+function recordReply(
+  service: FeedbackService,
+  question: string,
+  owner = partner,
+) {
+  return service.recordReply({
+    messages: [
+      { role: 'user', content: question },
+      { role: 'assistant', content: 'Refunds take 5–10 days, "usually".' },
+    ],
+    toolCalls: [],
+    sources: ['refunds'],
+    meta: {
+      provider: 'openai',
+      model: 'gpt-4o',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      usageComplete: true,
+      llmLatencyMs: 300,
+      calls: [],
+    },
+    tenantId: 'sunway',
+    clientId: owner.id,
+    ownerKey: owner.bucketKey,
+  });
+}
+
+describe('FeedbackService', () => {
+  it('stores a rating with the reply snapshot and lets it be changed', async () => {
+    const service = createService();
+    const replyId = await recordReply(service, 'How long do refunds take?');
+
+    await service.submit({ replyId, rating: 'up' }, partner);
+    const record = await service.submit(
+      { replyId, rating: 'down', reason: 'inaccurate', comment: ' Wrong. ' },
+      partner,
+    );
+
+    expect(record).toMatchObject({
+      rating: 'down',
+      reason: 'inaccurate',
+      comment: 'Wrong.',
+      snapshot: { tenantId: 'sunway', meta: { provider: 'openai' } },
+    });
+    expect(await service.export()).toHaveLength(1);
+  });
+
+  it('rejects unknown replies and replies sent to another key', async () => {
+    const service = createService();
+    const replyId = await recordReply(service, 'Refunds?');
+    const other = {
+      id: 'other',
+      anonymous: false,
+      bucketKey: 'other',
+    } as ApiClientIdentity;
+
+    await expect(
+      service.submit({ replyId, rating: 'up' }, other),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    await expect(
+      service.submit({ replyId: randomUUID(), rating: 'up' }, partner),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('only lets the same anonymous caller rate an anonymous reply', async () => {
+    const service = createService();
+    const visitor = {
+      id: 'anonymous',
+      anonymous: true,
+      bucketKey: '203.0.113.7',
+    } as ApiClientIdentity;
+    const stranger = { ...visitor, bucketKey: '198.51.100.2' };
+    const keyed = await recordReply(service, 'Refunds?');
+    const anonymous = await recordReply(service, 'Refunds?', visitor);
+
+    for (const replyId of [keyed, anonymous]) {
+      await expect(
+        service.submit({ replyId, rating: 'down' }, stranger),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    }
+    await expect(
+      service.submit({ replyId: anonymous, rating: 'up' }, visitor),
+    ).resolves.toMatchObject({ rating: 'up' });
+  });
+
+  it('expires snapshots after FEEDBACK_WINDOW_MS', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const service = createService({ FEEDBACK_WINDOW_MS: '60000' });
+    const replyId = await recordReply(service, 'Refunds?');
+
+    jest.setSystemTime(60_000);
+    await expect(
+      service.submit({ replyId, rating: 'up' }, partner),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    jest.useRealTimers();
+  });
+
+  it('exports by date range and rating as CSV or JSON lines', async () => {
+    const service = createService();
+    const good = await recordReply(service, 'Refunds?');
+    const bad = await recordReply(service, '=HYPERLINK("x")');
+    await service.submit({ replyId: good, rating: 'up' }, partner);
+    await service.submit(
+      { replyId: bad, rating: 'down', reason: 'unclear' },
+      partner,
+    );
+    const today = new Date().toISOString().slice(0, 10);
+
+    const poor = await service.export({ to: today, rating: 'down' });
+    expect(poor.map((r) => r.replyId)).toEqual([bad]);
+    expect(await service.export({ from: '2999-01-01' })).toEqual([]);
+
+    const [header, row] = toCsv(poor).split('\r\n');
+    expect(header).toContain('rating,reason,comment,tenant_id');
+    expect(row).toContain(`${bad},down,unclear,,sunway,partner`);
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(row).toContain('"Refunds take 5–10 days, ""usually""."');
+    const { snapshot } = JSON.parse(toJsonLines(poor).trim());
+    expect(snapshot.sources).toEqual(['refunds']);
+    expect(snapshot).not.toHaveProperty('ownerKey');
+  });
+});
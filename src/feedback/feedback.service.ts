@@ -0,0 +1,107 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import {
+  FeedbackRecord,
+  ReplySnapshot,
+  ReplySnapshotInput,
+} from './feedback.types';
+import { IFeedbackRepository } from './repositories/feedback-repository.interface';
+import { ExportFeedbackQueryDto, SubmitFeedbackDto } from './dto/feedback.dto';
+
+/** Transcript messages kept in a snapshot; older turns are dropped. */
+const MAX_SNAPSHOT_MESSAGES = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Answer-quality feedback. Every reply is snapshotted (transcript, tool calls,
+ * provider) under its replyId in the feedback repository for
+ * FEEDBACK_WINDOW_MS; a rating within that window is stored with the snapshot
+ * for analysts to export.
+ */
+@Injectable()
+export class FeedbackService {
+  private readonly logger = new Logger(FeedbackService.name);
+  private readonly windowMs: number;
+
+  constructor(
+    @Inject('IFeedbackRepository')
+    private readonly repository: IFeedbackRepository,
+    private readonly config: ConfigService,
+  ) {
+    this.windowMs = Number(
+      this.config.get<string>('FEEDBACK_WINDOW_MS') ?? DAY_MS,
+    );
+  }
+
+  /** Snapshots a reply that was just sent and returns its id. */
+  async recordReply(input: ReplySnapshotInput): Promise<string> {
+    const snapshot: ReplySnapshot = {
+      replyId: randomUUID(),
+      createdAt: new Date().toISOString(),
+      ...input,
+      messages: input.messages.slice(-MAX_SNAPSHOT_MESSAGES),
+    };
+    await this.repository.saveSnapshot(snapshot, this.windowMs);
+    return snapshot.replyId;
+  }
+
+  /**
+   * Stores (or replaces) the rating for a reply. Callers may only rate replies
+   * they received (same bucket key, so anonymous callers by IP); unknown,
+   * expired and foreign replies are all a 404.
+   */
+  async submit(
+    dto: SubmitFeedbackDto,
+    client: ApiClientIdentity,
+  ): Promise<FeedbackRecord> {
+    const existing = await this.repository.findByReplyId(dto.replyId);
+    const snapshot =
+      existing?.snapshot ?? (await this.repository.findSnapshot(dto.replyId));
+    if (!snapshot?.ownerKey || snapshot.ownerKey !== client.bucketKey) {
+      throw new NotFoundException(
+        `Reply ${dto.replyId} not found or too old for feedback.`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const record: FeedbackRecord = {
+      replyId: dto.replyId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      rating: dto.rating,
+      ...(dto.reason ? { reason: dto.reason } : {}),
+      ...(dto.comment?.trim() ? { comment: dto.comment.trim() } : {}),
+      snapshot,
+    };
+    await this.repository.save(record);
+    this.logger.log(
+      `Feedback ${record.rating}${record.reason ? ` (${record.reason})` : ''} on reply ${record.replyId}`,
+    );
+    return record;
+  }
+
+  /** Oldest first, filtered by when the feedback was given. */
+  async export(query: ExportFeedbackQueryDto = {}): Promise<FeedbackRecord[]> {
+    const from = query.from ? Date.parse(query.from) : -Infinity;
+    const to = query.to
+      ? Date.parse(query.to) + (DATE_ONLY.test(query.to) ? DAY_MS : 1)
+      : Infinity;
+    const records = await this.repository.findAll();
+    return records
+      .filter((r) => {
+        const at = Date.parse(r.createdAt);
+        return (
+          at >= from &&
+          at < to &&
+          (!query.rating || r.rating === query.rating) &&
+          (!query.reason || r.reason === query.reason) &&
+          (!query.tenantId || r.snapshot.tenantId === query.tenantId)
+        );
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
@@ -0,0 +1,58 @@
+import type { ChatMessageDto } from '../chat/dto/chat-request.dto';
+import type { ToolCallRecord } from '../chat/tools/tool-action.types';
+import type { ChatTurnMeta } from '../chat/chat-turn-meta';
+import type { EscalationRef } from '../escalations/escalation.types';
+
+export const FEEDBACK_RATINGS = ['up', 'down'] as const;
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+export const FEEDBACK_REASONS = [
+  'inaccurate',
+  'incomplete',
+  'irrelevant',
+  'unclear',
+  'wrong_language',
+  'tone',
+  'helpful',
+  'other',
+] as const;
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number];
+
+export const FEEDBACK_EXPORT_FORMATS = ['jsonl', 'csv'] as const;
+export type FeedbackExportFormat = (typeof FEEDBACK_EXPORT_FORMATS)[number];
+
+/** What the assistant answered and how, captured when the reply is sent. */
+export interface ReplySnapshot {
+  replyId: string;
+  createdAt: string;
+  /** The history the turn saw, ending with the assistant's reply. */
+  messages: ChatMessageDto[];
+  toolCalls: ToolCallRecord[];
+  sources: string[];
+  escalation?: EscalationRef;
+  /** Provider, model and usage; absent when no LLM call ran (e.g. a handoff). */
+  meta?: ChatTurnMeta;
+  conversationId?: string;
+  tenantId?: string;
+  /** API key id, or "anonymous". */
+  clientId?: string;
+  /**
+   * Rate-limit bucket key of the caller (key id, or IP when anonymous); only
+   * the same caller may rate the reply. Left out of exports.
+   */
+  ownerKey?: string;
+  locale?: string;
+}
+
+export type ReplySnapshotInput = Omit<ReplySnapshot, 'replyId' | 'createdAt'>;
+
+/** One rating per reply; a second submission replaces the first. */
+export interface FeedbackRecord {
+  replyId: string;
+  createdAt: string;
+  updatedAt: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+  snapshot: ReplySnapshot;
+}
@@ -0,0 +1,14 @@
+import { FeedbackRecord, ReplySnapshot } from '../feedback.types';
+
+/**
+ * Storage for reply feedback, keyed by reply id, and for the snapshots of
+ * replies that may still be rated.
+ */
+export interface IFeedbackRepository {
+  findAll(): Promise<FeedbackRecord[]>;
+  findByReplyId(replyId: string): Promise<FeedbackRecord | null>;
+  save(record: FeedbackRecord): Promise<void>;
+  /** Keeps a snapshot for ttlMs; after that findSnapshot returns null. */
+  saveSnapshot(snapshot: ReplySnapshot, ttlMs: number): Promise<void>;
+  findSnapshot(replyId: string): Promise<ReplySnapshot | null>;
+}
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { FeedbackRecord, ReplySnapshot } from '../feedback.types';
+import { IFeedbackRepository } from './feedback-repository.interface';
+
+const SAFE_ID = /^[A-Za-z0-9-]+$/;
+
+/** How often saveSnapshot sweeps expired snapshot files. */
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+interface StoredSnapshot {
+  snapshot: ReplySnapshot;
+  expiresAt: number;
+}
+
+/**
+ * One JSON file per reply under FEEDBACK_STORE_DIR, written through a temp
+ * file and renamed into place like FileEscalationRepository. Reply snapshots
+ * awaiting feedback live in its replies/ subdirectory.
+ */
+@Injectable()
+export class FileFeedbackRepository implements IFeedbackRepository {
+  private readonly logger = new Logger(FileFeedbackRepository.name);
+  private readonly dir: string;
+  private readonly snapshotDir: string;
+  private lastPruneAt = 0;
+
+  constructor(private readonly config: ConfigService) {
+    this.dir = this.config.get<string>('FEEDBACK_STORE_DIR') ?? 'data/feedback';
+    this.snapshotDir = join(this.dir, 'replies');
+  }
+
+  async findAll(): Promise<FeedbackRecord[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+    const records = await Promise.all(
+      files
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => this.findByReplyId(f.slice(0, -'.json'.length))),
+    );
+    return records.filter((r): r is FeedbackRecord => r !== null);
+  }
+
+  async findByReplyId(replyId: string): Promise<FeedbackRecord | null> {
+    if (!SAFE_ID.test(replyId)) return null;
+    try {
+      const json = await readFile(this.pathFor(replyId), 'utf8');
+      return JSON.parse(json) as FeedbackRecord;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(`Failed to read feedback ${replyId}`, e as Error);
+      }
+      return null;
+    }
+  }
+
+  async save(record: FeedbackRecord): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await this.write(this.pathFor(record.replyId), record);
+  }
+
+  async saveSnapshot(snapshot: ReplySnapshot, ttlMs: number): Promise<void> {
+    await mkdir(this.snapshotDir, { recursive: true });
+    const stored: StoredSnapshot = { snapshot, expiresAt: Date.now() + ttlMs };
+    await this.write(this.snapshotPathFor(snapshot.replyId), stored);
+    if (Date.now() - this.lastPruneAt >= PRUNE_INTERVAL_MS) {
+      this.lastPruneAt = Date.now();
+      void this.pruneSnapshots();
+    }
+  }
+
+  async findSnapshot(replyId: string): Promise<ReplySnapshot | null> {
+    if (!SAFE_ID.test(replyId)) return null;
+    const stored = await this.readSnapshot(replyId);
+    return stored && stored.expiresAt > Date.now() ? stored.snapshot : null;
+  }
+
+  private async readSnapshot(replyId: string): Promise<StoredSnapshot | null> {
+    try {
+      const json = await readFile(this.snapshotPathFor(replyId), 'utf8');
+      return JSON.parse(json) as StoredSnapshot;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(
+          `Failed to read reply snapshot ${replyId}`,
+          e as Error,
+        );
+      }
+      return null;
+    }
+  }
+
+  /** Deletes expired snapshot files; runs in the background of a save. */
+  private async pruneSnapshots(): Promise<void> {
+    try {
+      const now = Date.now();
+      for (const file of await readdir(this.snapshotDir)) {
+        if (!file.endsWith('.json')) continue;
+        const replyId = file.slice(0, -'.json'.length);
+        const stored = await this.readSnapshot(replyId);
+        if (stored && stored.expiresAt <= now) {
+          await rm(this.snapshotPathFor(replyId), { force: true });
+        }
+      }
+    } catch (e) {
+      this.logger.error('Failed to prune reply snapshots', e as Error);
+    }
+  }
+
+  private async write(path: string, value: unknown): Promise<void> {
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(value, null, 2), 'utf8');
+    await rename(tmp, path);
+  }
+
+  private pathFor(replyId: string): string {
+    return join(this.dir, `${replyId}.json`);
+  }
+
+  private snapshotPathFor(replyId: string): string {
+    return join(this.snapshotDir, `${replyId}.json`);
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { FeedbackRecord, ReplySnapshot } from '../feedback.types';
+import { IFeedbackRepository } from './feedback-repository.interface';
+
+interface StoredSnapshot {
+  snapshot: ReplySnapshot;
+  expiresAt: number;
+}
+
+/** Process-local store; feedback is lost on restart. Default for development. */
+@Injectable()
+export class InMemoryFeedbackRepository implements IFeedbackRepository {
+  private readonly records = new Map<string, FeedbackRecord>();
+  private readonly snapshots = new Map<string, StoredSnapshot>();
+
+  async findAll(): Promise<FeedbackRecord[]> {
+    return [...this.records.values()].map((r) => structuredClone(r));
+  }
+
+  async findByReplyId(replyId: string): Promise<FeedbackRecord | null> {
+    const record = this.records.get(replyId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async save(record: FeedbackRecord): Promise<void> {
+    this.records.set(record.replyId, structuredClone(record));
+  }
+
+  /**
+   * Expired snapshots are dropped from the front of the map on each save;
+   * with one TTL per process, insertion order is expiry order.
+   */
+  async saveSnapshot(snapshot: ReplySnapshot, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    for (const [replyId, stored] of this.snapshots) {
+      if (stored.expiresAt > now) break;
+      this.snapshots.delete(replyId);
+    }
+    this.snapshots.set(snapshot.replyId, {
+      snapshot: structuredClone(snapshot),
+      expiresAt: now + ttlMs,
+    });
+  }
+
+  async findSnapshot(replyId: string): Promise<ReplySnapshot | null> {
+    const stored = this.snapshots.get(replyId);
+    if (!stored || stored.expiresAt <= Date.now()) return null;
+    return structuredClone(stored.snapshot);
+  }
+}
@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { MultiLlmClient } from '../chat/llm/multi-llm.client';
+
+@Controller('api/health')
+export class HealthController {
+  constructor(private readonly llm: MultiLlmClient) {}
+
+  /**
+   * Liveness plus LLM routing state. "degraded" means every provider's circuit
+   * is open, so chat requests will fail until a cool-down ends.
+   */
+  @Get()
+  getHealth() {
+    const llm = this.llm.getHealth();
+    const available = llm.providers.some((p) => p.state !== 'open');
+    return { status: available ? 'ok' : 'degraded', llm };
+  }
+}
@@ -0,0 +1,146 @@
+/** Stopwords and light plural stripping for one language. */
+interface LanguageRules {
+  stopwords: Set<string>;
+  stem: (word: string) => string;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+/** Drops a final "s" (or "x" in French) so "vuelos" and "vuelo" match. */
+const stripPlural =
+  (endings: string[]) =>
+  (w: string): string =>
+    w.length > 3 && endings.some((e) => w.endsWith(e)) && !w.endsWith('ss')
+      ? w.slice(0, -1)
+      : w;
+
+/** Words are compared after accent folding, so "für" is listed as "fur". */
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  en: {
+    stopwords: words(
+      'a an and are as at be but by can could do does for from has have how i if in ' +
+        'into is it its me my no not of on or our so that the their them then there ' +
+        'they this to up was we what when where which who why will with would you your',
+    ),
+    stem: (w) =>
+      w.length > 4 && w.endsWith('ies')
+        ? `${w.slice(0, -3)}y`
+        : stripPlural(['s'])(w),
+  },
+  es: {
+    stopwords: words(
+      'a al como con cual cuando cuanto de del donde el en es esta este hay la las ' +
+        'le lo los me mi mis mucho no o para pero por puedo puede que se si su sus ' +
+        'tengo un una uno y ya yo',
+    ),
+    stem: stripPlural(['s']),
+  },
+  fr: {
+    stopwords: words(
+      'a au aux avec c ce ces comment d dans de des du elle en est et il j je l la ' +
+        'le les leur ma mais me mes mon n ne nous on ou par pas peut peux pour qu que ' +
+        'qui s sa se ses son sur un une vos votre vous y',
+    ),
+    stem: stripPlural(['s', 'x']),
+  },
+  de: {
+    stopwords: words(
+      'aber am an auf bei das dem den der des die du ein eine einem einen einer er ' +
+        'es fur habe haben hat ich ihr im in ist kann kein keine konnen mein meine ' +
+        'mich mir mit nicht oder sie sind und von war warum was wann werden wie wir ' +
+        'wird wo zu zum zur',
+    ),
+    // "Erstattungen" -> "erstattung", "Flüge" -> "flug".
+    stem: (w) =>
+      w.length > 5 && w.endsWith('en')
+        ? w.slice(0, -2)
+        : stripPlural(['e', 'n', 's'])(w),
+  },
+};
+
+/**
+ * Lowercases, folds accents, drops the language's stopwords and strips plural
+ * endings so "Refunds" and "refund" match. Languages without rules only get
+ * the folding.
+ */
+export function tokenize(text: string, language = 'en'): string[] {
+  const rules = LANGUAGE_RULES[language];
+  const tokens =
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .match(/[a-z0-9]+/g) ?? [];
+  if (!rules) return tokens;
+  return tokens.filter((w) => !rules.stopwords.has(w)).map(rules.stem);
+}
+
+interface IndexedEntry<T> {
+  item: T;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Okapi BM25 over an in-memory collection, tokenized with one language's
+ * rules. Small enough to rebuild on every change, which keeps it free of
+ * incremental-update bookkeeping.
+ */
+export class Bm25Index<T> {
+  private readonly entries: IndexedEntry<T>[];
+  private readonly documentFrequencies = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(
+    items: T[],
+    textOf: (item: T) => string,
+    private readonly language = 'en',
+    private readonly k1 = 1.2,
+    private readonly b = 0.75,
+  ) {
+    this.entries = items.map((item) => {
+      const tokens = tokenize(textOf(item), this.language);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) ?? 0) + 1,
+        );
+      }
+      return { item, termFrequencies, length: tokens.length };
+    });
+    const totalLength = this.entries.reduce((sum, e) => sum + e.length, 0);
+    this.averageLength = totalLength / Math.max(this.entries.length, 1);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Best matches first; items sharing no term with the query are left out. */
+  search(query: string, limit: number): Array<{ item: T; score: number }> {
+    const terms = [...new Set(tokenize(query, this.language))];
+    const n = this.entries.length;
+    return this.entries
+      .map((entry) => {
+        let score = 0;
+        for (const term of terms) {
+          const tf = entry.termFrequencies.get(term);
+          if (!tf) continue;
+          const df = this.documentFrequencies.get(term) ?? 0;
+          const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+          const norm =
+            this.k1 *
+            (1 - this.b + (this.b * entry.length) / this.averageLength);
+          score += (idf * tf * (this.k1 + 1)) / (tf + norm);
+        }
+        return { item: entry.item, score };
+      })
+      .filter((r) => r.score > 0)
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit);
+  }
+}
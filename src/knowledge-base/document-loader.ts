@@ -0,0 +1,58 @@
+import { readdir, readFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { KbDocument, KbPassage } from './knowledge-base.types';
+
+/**
+ * Markdown: the id is the file name and the title the first "# " heading.
+ * JSON: one document object or an array of them ({ id, title, content, locale? }).
+ */
+export async function loadDocuments(dir: string): Promise<KbDocument[]> {
+  const files = (await readdir(dir)).sort();
+  const documents: KbDocument[] = [];
+  for (const file of files) {
+    const ext = extname(file).toLowerCase();
+    if (ext !== '.md' && ext !== '.json') continue;
+    const raw = await readFile(join(dir, file), 'utf8');
+    if (ext === '.md') {
+      documents.push(parseMarkdown(basename(file, ext), raw));
+    } else {
+      const parsed = JSON.parse(raw) as KbDocument | KbDocument[];
+      documents.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    }
+  }
+  return documents;
+}
+
+function parseMarkdown(id: string, raw: string): KbDocument {
+  const heading = raw.match(/^#\s+(.+)$/m);
+  return {
+    id,
+    title: heading?.[1].trim() ?? id,
+    content: raw.replace(/^#\s+.+\n?/m, '').trim(),
+  };
+}
+
+/** "es" for "es-MX"; documents without a locale are English. */
+export function documentLanguage(document: KbDocument): string {
+  return (document.locale ?? 'en').split('-')[0].toLowerCase();
+}
+
+/**
+ * Splits a document into one passage per "## " section (the intro before the
+ * first section is its own passage). Section headings stay in the text so they
+ * count towards retrieval.
+ */
+export function toPassages(document: KbDocument): KbPassage[] {
+  const language = documentLanguage(document);
+  return document.content
+    .split(/^(?=##\s)/m)
+    .map((section) => section.trim())
+    .filter(Boolean)
+    .map((text, i) => ({
+      id: `${document.id}#${i + 1}`,
+      documentId: document.id,
+      title: document.title,
+      text,
+      language,
+    }));
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { KnowledgeBaseService } from './knowledge-base.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [KnowledgeBaseService],
+  exports: [KnowledgeBaseService],
+})
+export class KnowledgeBaseModule {}
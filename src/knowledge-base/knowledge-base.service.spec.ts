@@ -0,0 +1,114 @@
+import { ConfigService } from '@nestjs/config';
+import { tokenize } from './bm25-index';
+import { KnowledgeBaseService } from './knowledge-base.service';
+
+describe('KnowledgeBaseService', () => {
+  let knowledgeBase: KnowledgeBaseService;
+
+  beforeAll(async () => {
+    // Indexes the articles shipped in knowledge-base/.
+    knowledgeBase = new KnowledgeBaseService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+    await knowledgeBase.onModuleInit();
+  });
+
+  it('loads markdown and JSON documents', () => {
+    expect(knowledgeBase.getDocument('refunds')?.title).toBe(
+      'Refunds and vouchers',
+    );
+    expect(knowledgeBase.getDocument('baggage')?.title).toBe(
+      'Baggage allowance',
+    );
+  });
+
+  it('ranks the matching section first', () => {
+    const [top] = knowledgeBase.search('How long do card refunds take?');
+    expect(top.passage.documentId).toBe('refunds');
+    expect(top.passage.text).toContain('5–10 business days');
+
+    expect(
+      knowledgeBase.search('I missed my flight, is my ticket lost?')[0],
+    ).toMatchObject({
+      passage: { documentId: 'no-shows' },
+    });
+  });
+
+  it('returns nothing for questions the articles do not cover', () => {
+    expect(knowledgeBase.search("What's the weather in Barcelona?")).toEqual(
+      [],
+    );
+  });
+
+  it('only retrieves passages in the language of the turn', () => {
+    const multilingual = new KnowledgeBaseService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+    multilingual.setDocuments([
+      {
+        id: 'refunds',
+        title: 'Refunds',
+        content: 'Card refunds take 5–10 business days.',
+      },
+      {
+        id: 'baggage',
+        title: 'Baggage',
+        content: 'Cabin bags can be added in My trips.',
+      },
+      {
+        id: 'reembolsos',
+        title: 'Reembolsos',
+        content: 'Los reembolsos con tarjeta tardan de 5 a 10 días hábiles.',
+        locale: 'es-ES',
+      },
+      {
+        id: 'equipaje',
+        title: 'Equipaje',
+        content: 'Puedes añadir maletas en Mis viajes.',
+        locale: 'es',
+      },
+      {
+        id: 'erstattungen',
+        title: 'Erstattungen',
+        content: 'Erstattungen auf die Karte dauern 5 bis 10 Werktage.',
+        locale: 'de',
+      },
+      {
+        id: 'gepaeck',
+        title: 'Gepäck',
+        content: 'Koffer können unter Meine Reisen hinzugefügt werden.',
+        locale: 'de',
+      },
+    ]);
+    const ids = (query: string, language?: string) =>
+      multilingual.search(query, 3, language).map((r) => r.passage.documentId);
+
+    expect(ids('¿Cuánto tarda el reembolso con tarjeta?', 'es')).toEqual([
+      'reembolsos',
+    ]);
+    expect(ids('Wie lange dauern Erstattungen auf meine Karte?', 'de')).toEqual(
+      ['erstattungen'],
+    );
+    expect(ids('How long do card refunds take?', 'es')).toEqual([]);
+    expect(ids('How long do card refunds take?')).toEqual(['refunds']);
+    // No French documents: the English ones are searched.
+    expect(ids('Card refunds, combien de jours ?', 'fr')).toEqual(['refunds']);
+  });
+
+  it('normalises plurals, accents and stopwords when tokenizing', () => {
+    expect(tokenize('The Refunds for Cancelled flights, café')).toEqual([
+      'refund',
+      'cancelled',
+      'flight',
+      'cafe',
+    ]);
+    expect(tokenize('Los vuelos y las maletas', 'es')).toEqual([
+      'vuelo',
+      'maleta',
+    ]);
+    expect(tokenize('Die Erstattungen für Flüge', 'de')).toEqual([
+      'erstattung',
+      'flug',
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Bm25Index } from './bm25-index';
+import { loadDocuments, toPassages } from './document-loader';
+import { KbDocument, KbPassage, KbSearchResult } from './knowledge-base.types';
+
+/** Source name of the documents loaded from KNOWLEDGE_BASE_DIR. */
+const FILES_SOURCE = 'files';
+
+/** Language searched when the turn's language has no documents at all. */
+const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Policy/FAQ articles indexed locally with BM25 (no embedding service).
+ * Documents come from named sources: the files in KNOWLEDGE_BASE_DIR and any
+ * set at runtime (e.g. admin-managed articles). Passages are markdown sections,
+ * indexed per document language so a question only retrieves passages in the
+ * language of the turn.
+ */
+@Injectable()
+export class KnowledgeBaseService implements OnModuleInit {
+  private readonly logger = new Logger(KnowledgeBaseService.name);
+  private readonly dir: string;
+  private readonly minScore: number;
+  private readonly sources = new Map<string, KbDocument[]>();
+  private documents = new Map<string, KbDocument>();
+  private indexes = new Map<string, Bm25Index<KbPassage>>();
+
+  constructor(private readonly config: ConfigService) {
+    this.dir =
+      this.config.get<string>('KNOWLEDGE_BASE_DIR') ?? 'knowledge-base';
+    this.minScore = Number(
+      this.config.get<string>('KNOWLEDGE_BASE_MIN_SCORE') ?? 1,
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    try {
+      this.setDocuments(await loadDocuments(this.dir), FILES_SOURCE);
+      this.logger.log(
+        `Indexed ${this.documents.size} documents (${this.passageCount()} passages) from ${this.dir}`,
+      );
+    } catch (e) {
+      // Chat keeps working without policy grounding.
+      this.logger.error(
+        `Failed to load knowledge base from ${this.dir}`,
+        e as Error,
+      );
+    }
+  }
+
+  /**
+   * Replaces one source's documents and rebuilds the index. A document from a
+   * runtime source replaces a bundled file with the same id.
+   */
+  setDocuments(documents: KbDocument[], source = FILES_SOURCE): void {
+    this.sources.set(source, documents);
+    const ordered = [...this.sources.entries()].sort(
+      ([a], [b]) => Number(b === FILES_SOURCE) - Number(a === FILES_SOURCE),
+    );
+    this.documents = new Map(
+      ordered.flatMap(([, docs]) =>
+        docs.map((d): [string, KbDocument] => [d.id, d]),
+      ),
+    );
+    const byLanguage = new Map<string, KbPassage[]>();
+    for (const passage of [...this.documents.values()].flatMap(toPassages)) {
+      byLanguage.set(passage.language, [
+        ...(byLanguage.get(passage.language) ?? []),
+        passage,
+      ]);
+    }
+    this.indexes = new Map(
+      [...byLanguage].map(([language, passages]) => [
+        language,
+        new Bm25Index(passages, (p) => `${p.title}\n${p.text}`, language),
+      ]),
+    );
+  }
+
+  getDocument(id: string): KbDocument | null {
+    return this.documents.get(id) ?? null;
+  }
+
+  /**
+   * Top passages for a question in the given language ("es"), dropping weak
+   * matches below KNOWLEDGE_BASE_MIN_SCORE. English documents are searched
+   * when there are none in that language.
+   */
+  search(
+    query: string,
+    limit = 3,
+    language = FALLBACK_LANGUAGE,
+  ): KbSearchResult[] {
+    const index =
+      this.indexes.get(language) ?? this.indexes.get(FALLBACK_LANGUAGE);
+    return (index?.search(query, limit) ?? [])
+      .filter((r) => r.score >= this.minScore)
+      .map(({ item, score }) => ({ passage: item, score }));
+  }
+
+  private passageCount(): number {
+    return [...this.indexes.values()].reduce((sum, i) => sum + i.size, 0);
+  }
+}
@@ -0,0 +1,26 @@
+/** A policy/FAQ article as loaded from KNOWLEDGE_BASE_DIR. */
+export interface KbDocument {
+  /** Stable id returned to clients as a source, e.g. "refunds". */
+  id: string;
+  title: string;
+  /** Markdown body. */
+  content: string;
+  /** BCP 47 tag such as "es" or "es-MX"; documents without one are English. */
+  locale?: string;
+}
+
+/** A retrievable chunk of a document: one markdown section. */
+export interface KbPassage {
+  /** "<documentId>#<n>" */
+  id: string;
+  documentId: string;
+  title: string;
+  text: string;
+  /** Primary language subtag of the document, e.g. "es". */
+  language: string;
+}
+
+export interface KbSearchResult {
+  passage: KbPassage;
+  score: number;
+}
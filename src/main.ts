@@ -4,15 +4,30 @@ import {
   NestFastifyApplication,
 } from '@nestjs/platform-fastify';
 import { AppModule } from './app.module';
+import { ApiClientsService } from './api-clients/api-clients.service';
+import { RedactingLogger } from './redaction/redacting-logger';
 
 async function bootstrap() {
+  // Behind a load balancer, anonymous rate limits need the real client IP.
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
-    new FastifyAdapter(),
+    new FastifyAdapter({ trustProxy: process.env.TRUST_PROXY === 'true' }),
+    // Held until the redacting logger is installed, so startup logs are masked too.
+    { bufferLogs: true },
   );
+  app.useLogger(app.get(RedactingLogger));
 
+  // Origins allowed by anonymous access or any API key; ApiKeyGuard then
+  // checks the origin against the caller's own key.
+  const apiClients = app.get(ApiClientsService);
   app.enableCors({
-    origin: true,
+    origin: (origin, callback) => {
+      if (!origin) return callback(null, true);
+      apiClients.isCorsOriginAllowed(origin).then(
+        (allowed) => callback(null, allowed),
+        (error: Error) => callback(error, false),
+      );
+    },
     credentials: false,
   });
 
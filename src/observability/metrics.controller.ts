@@ -0,0 +1,16 @@
+import { Controller, Get, Header, Res } from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { MetricsService } from './metrics.service';
+
+/** Prometheus scrape endpoint; deliberately outside the /api prefix. */
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  @Get()
+  @Header('Cache-Control', 'no-store')
+  async scrape(@Res({ passthrough: true }) res: FastifyReply) {
+    res.header('Content-Type', this.metrics.contentType);
+    return this.metrics.render();
+  }
+}
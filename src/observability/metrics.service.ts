@@ -0,0 +1,97 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  Counter,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+
+/** Seconds; chat turns span a fast cache hit to a slow multi-tool turn. */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60];
+
+/**
+ * Prometheus metrics for the app, on a registry of its own so tests can create
+ * as many instances as they like. Served by GET /metrics.
+ */
+@Injectable()
+export class MetricsService implements OnModuleInit {
+  readonly registry = new Registry();
+
+  readonly httpRequests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests by method, route and status code.',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [this.registry],
+  });
+
+  readonly httpDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency, including the full body of streamed replies.',
+    labelNames: ['method', 'route'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  readonly spanDuration = new Histogram({
+    name: 'chat_span_duration_seconds',
+    help: 'Duration of chat pipeline spans (phase1, tool, phase2).',
+    labelNames: ['span', 'outcome'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  readonly llmProviderRequests = new Counter({
+    name: 'llm_provider_requests_total',
+    help: 'LLM provider attempts by provider id and outcome (success, failure, timeout, circuit_open).',
+    labelNames: ['provider', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  readonly llmProviderDuration = new Histogram({
+    name: 'llm_provider_duration_seconds',
+    help: 'Latency of LLM provider attempts (time to first chunk when streaming).',
+    labelNames: ['provider'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  readonly toolInvocations = new Counter({
+    name: 'chat_tool_invocations_total',
+    help: 'Chat tool calls by tool and outcome (ok, error, timeout, unknown_tool).',
+    labelNames: ['tool', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  readonly toolParseFailures = new Counter({
+    name: 'chat_tool_parse_failures_total',
+    help: 'Model replies that looked like tool JSON but could not be parsed.',
+    labelNames: ['source'] as const,
+    registers: [this.registry],
+  });
+
+  readonly guardrailViolations = new Counter({
+    name: 'chat_guardrail_violations_total',
+    help: 'Reply guardrail violations by rule and action taken (regenerated, fallback).',
+    labelNames: ['rule', 'action'] as const,
+    registers: [this.registry],
+  });
+
+  readonly rateLimitRejections = new Counter({
+    name: 'rate_limit_rejections_total',
+    help: 'Requests and tool calls refused by rate limits, by kind and client id.',
+    labelNames: ['kind', 'client'] as const,
+    registers: [this.registry],
+  });
+
+  onModuleInit(): void {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { Observable, tap } from 'rxjs';
+import { MetricsService } from './metrics.service';
+import { runWithRequestContext } from './request-context';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+const SAFE_CORRELATION_ID = /^[A-Za-z0-9._-]{1,100}$/;
+
+/**
+ * Gives every request a correlation id (the caller's x-correlation-id when it
+ * is well-formed, else a new UUID), echoes it in the response, makes it
+ * available to the handler via request-context and records HTTP metrics.
+ */
+@Injectable()
+export class ObservabilityInterceptor implements NestInterceptor {
+  constructor(private readonly metrics: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<FastifyRequest>();
+    const reply = http.getResponse<FastifyReply>();
+
+    const requested = request.headers[CORRELATION_ID_HEADER];
+    const correlationId =
+      typeof requested === 'string' && SAFE_CORRELATION_ID.test(requested)
+        ? requested
+        : randomUUID();
+    reply.header(CORRELATION_ID_HEADER, correlationId);
+
+    // Route pattern rather than URL, so ids in paths do not explode cardinality.
+    const labels = {
+      method: request.method,
+      route: request.routeOptions?.url ?? 'unknown',
+    };
+    const stopTimer = this.metrics.httpDuration.startTimer(labels);
+    const record = (status: number) => {
+      stopTimer();
+      this.metrics.httpRequests.inc({ ...labels, status: String(status) });
+    };
+
+    return runWithRequestContext({ correlationId }, () => next.handle()).pipe(
+      tap({
+        complete: () => record(reply.raw.statusCode ?? reply.statusCode),
+        error: (error: unknown) =>
+          record(error instanceof HttpException ? error.getStatus() : 500),
+      }),
+    );
+  }
+}
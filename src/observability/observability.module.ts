@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+import { TracingService } from './tracing.service';
+import { ObservabilityInterceptor } from './observability.interceptor';
+
+@Module({
+  controllers: [MetricsController],
+  providers: [
+    MetricsService,
+    TracingService,
+    { provide: APP_INTERCEPTOR, useClass: ObservabilityInterceptor },
+  ],
+  exports: [MetricsService, TracingService],
+})
+export class ObservabilityModule {}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/** Runs fn with the given context visible to everything it awaits. */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return storage.run(context, fn);
+}
+
+/** Correlation id of the HTTP request being handled, if any. */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { TracingService } from './tracing.service';
+import { runWithRequestContext } from './request-context';
+
+describe('TracingService', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('logs one structured line per span with the correlation id', async () => {
+    const log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    const metrics = new MetricsService();
+    const tracing = new TracingService(metrics);
+
+    await runWithRequestContext({ correlationId: 'req-1' }, () =>
+      tracing.trace('chat.tool', { tool: 'flight_status' }, async (span) => {
+        span.set('toolOutcome', 'ok');
+      }),
+    );
+
+    expect(JSON.parse(log.mock.calls[0][0] as string)).toMatchObject({
+      span: 'chat.tool',
+      correlationId: 'req-1',
+      outcome: 'ok',
+      tool: 'flight_status',
+      toolOutcome: 'ok',
+    });
+    const rendered = await metrics.render();
+    expect(rendered).toContain(
+      'chat_span_duration_seconds_count{span="chat.tool",outcome="ok"} 1',
+    );
+  });
+
+  it('marks failed spans and ends each span only once', async () => {
+    const log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    const tracing = new TracingService(new MetricsService());
+
+    await expect(
+      tracing.trace('chat.phase2', {}, async (span) => {
+        span.end();
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(log).toHaveBeenCalledTimes(1);
+    const span = tracing.start('chat.phase1');
+    span.end(new Error('503'));
+    expect(JSON.parse(log.mock.calls[1][0] as string)).toMatchObject({
+      outcome: 'error',
+      error: 'Error: 503',
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { getCorrelationId } from './request-context';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A timed step of the chat pipeline. Attributes must not carry customer text:
+ * span lines go to the production log.
+ */
+export interface Span {
+  set(key: string, value: string | number | boolean): void;
+  /** Ends the span; an error marks the outcome "error". Later calls are ignored. */
+  end(error?: unknown): void;
+}
+
+/**
+ * Structured spans for the chat pipeline: one JSON log line per span with the
+ * request's correlation id, plus a chat_span_duration_seconds observation.
+ */
+@Injectable()
+export class TracingService {
+  private readonly logger = new Logger('Trace');
+
+  constructor(private readonly metrics: MetricsService) {}
+
+  start(name: string, attributes: SpanAttributes = {}): Span {
+    const startedAt = performance.now();
+    const attrs: SpanAttributes = { ...attributes };
+    let ended = false;
+
+    return {
+      set: (key, value) => {
+        attrs[key] = value;
+      },
+      end: (error?: unknown) => {
+        if (ended) return;
+        ended = true;
+        const durationMs = performance.now() - startedAt;
+        const outcome = error === undefined ? 'ok' : 'error';
+        this.metrics.spanDuration.observe(
+          { span: name, outcome },
+          durationMs / 1000,
+        );
+        this.logger.log(
+          JSON.stringify({
+            span: name,
+            correlationId: getCorrelationId(),
+            durationMs: Math.round(durationMs),
+            outcome,
+            ...attrs,
+            ...(error === undefined ? {} : { error: String(error) }),
+          }),
+        );
+      },
+    };
+  }
+
+  /** Runs fn inside a span, ending it with fn's outcome. */
+  async trace<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    const span = this.start(name, attributes);
+    try {
+      const result = await fn(span);
+      span.end();
+      return result;
+    } catch (error) {
+      span.end(error);
+      throw error;
+    }
+  }
+}
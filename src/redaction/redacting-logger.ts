@@ -0,0 +1,23 @@
+import { ConsoleLogger, Injectable, LogLevel } from '@nestjs/common';
+import { RedactionService } from './redaction.service';
+
+/**
+ * The app logger (installed in main.ts): Nest's console output with personal
+ * data masked in every message and stack trace, whichever service logs it.
+ */
+@Injectable()
+export class RedactingLogger extends ConsoleLogger {
+  constructor(private readonly redaction: RedactionService) {
+    super();
+  }
+
+  protected stringifyMessage(message: unknown, logLevel: LogLevel): string {
+    return this.redaction.mask(
+      String(super.stringifyMessage(message, logLevel)),
+    );
+  }
+
+  protected printStackTrace(stack: string): void {
+    super.printStackTrace(stack && this.redaction.mask(stack));
+  }
+}
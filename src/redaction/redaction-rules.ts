@@ -0,0 +1,79 @@
+import { RedactionRule, RedactionRuleConfig } from './redaction.types';
+import { looksLikeBookingReference } from '../common/text-patterns';
+
+/** Luhn checksum, so order numbers and timestamps are not taken for cards. */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, '').length;
+}
+
+/**
+ * Built-in rules, applied in this order (cards before phone numbers, which
+ * would otherwise claim card digits).
+ */
+export const BUILT_IN_REDACTION_RULES: RedactionRule[] = [
+  {
+    id: 'card',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: passesLuhn,
+  },
+  {
+    id: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    id: 'passport',
+    pattern:
+      /\b(?:passport|pasaporte|passeport|passaporto|reisepass)(?:\s+(?:number|no\.?|nr\.?|n[uú]mero|num[eé]ro|nummer))?\s*(?:is\s+|es\s+)?[:#]?\s*([A-Z0-9]{6,9})\b/gi,
+    group: 1,
+  },
+  {
+    id: 'phone',
+    // Not part of a longer token such as a UUID or hex id.
+    pattern: /(?<![\w-])(?:\+|00|\()?\d[\d ().-]{7,18}\d(?![\w-])/g,
+    // 9 to 15 digits (E.164), and never an ISO date such as 2026-03-14 09.
+    validate: (value) =>
+      digitCount(value) >= 9 &&
+      digitCount(value) <= 15 &&
+      !/\d{4}-\d{2}-\d{2}/.test(value),
+  },
+  {
+    id: 'booking_ref',
+    // Customers often type references in lowercase ("qx7k2m"). Flight
+    // numbers stay visible so flight tools keep working.
+    pattern: /\b[A-Z0-9]{6}\b/gi,
+    validate: looksLikeBookingReference,
+  },
+];
+
+export function parseRedactionRules(raw: unknown): RedactionRule[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Redaction rules must be a JSON array.');
+  }
+  return (raw as RedactionRuleConfig[]).map((rule) => {
+    if (!/^[a-z][a-z0-9_]*$/.test(rule?.id ?? '') || !rule.pattern) {
+      throw new Error(
+        'Each redaction rule needs a snake_case id and a pattern.',
+      );
+    }
+    const flags = (rule.flags ?? '').replace('g', '');
+    return {
+      id: rule.id,
+      pattern: new RegExp(rule.pattern, `g${flags}`),
+      group: rule.group,
+    };
+  });
+}
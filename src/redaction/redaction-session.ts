@@ -0,0 +1,128 @@
+import { RedactionRule, RedactionSettings } from './redaction.types';
+
+const PLACEHOLDER = /\[([A-Z][A-Z0-9_]*)_(\d+)\]/g;
+/** Longest tail held back while streaming in case it is the start of a placeholder. */
+const MAX_PLACEHOLDER_LENGTH = 40;
+
+/**
+ * Placeholders for one chat turn. The same value always gets the same
+ * placeholder ([EMAIL_1], [BOOKING_REF_2]), so the model can refer to it
+ * consistently across the turn's calls, and restore() maps placeholders of
+ * restorable entities back to their values.
+ */
+export class RedactionSession {
+  private readonly byValue = new Map<string, string>();
+  private readonly byPlaceholder = new Map<
+    string,
+    { id: string; value: string }
+  >();
+  private readonly counts = new Map<string, number>();
+
+  constructor(private readonly settings: RedactionSettings) {}
+
+  /** Always redacts value as the given entity, e.g. the signed-in booking reference. */
+  register(id: string, value: string | undefined): void {
+    const text = value?.trim();
+    if (text && this.settings.enabled) this.placeholderFor(id, text);
+  }
+
+  redact(text: string): string {
+    if (!this.settings.enabled || !text) return text;
+    // Known values first: they may not match any pattern.
+    let result = this.redactKnown(text);
+    for (const rule of this.settings.rules) {
+      result = replaceMatches(result, rule, (value) =>
+        this.placeholderFor(rule.id, value),
+      );
+    }
+    return result;
+  }
+
+  /** Replaces only values already seen or registered in this session. */
+  redactKnown(text: string): string {
+    if (!this.settings.enabled || !text) return text;
+    let result = text;
+    for (const [value, placeholder] of this.byValue) {
+      result = result.split(value).join(placeholder);
+    }
+    return result;
+  }
+
+  /** Puts back the values of restorable entities; other placeholders stay. */
+  restore(text: string): string {
+    if (!text) return text;
+    return text.replace(PLACEHOLDER, (placeholder) => {
+      const entry = this.byPlaceholder.get(placeholder);
+      return entry && this.settings.restore.has(entry.id)
+        ? entry.value
+        : placeholder;
+    });
+  }
+
+  /** restore() on every string in a tool's arguments. */
+  restoreParams(params: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(params).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? this.restore(value) : value,
+      ]),
+    );
+  }
+
+  /**
+   * restore() for streamed text: holds back a trailing "[..." until it is
+   * known whether a placeholder was split across chunks.
+   */
+  async *restoreStream<TReturn>(
+    chunks: AsyncGenerator<string, TReturn>,
+  ): AsyncGenerator<string, TReturn> {
+    let pending = '';
+    try {
+      let next = await chunks.next();
+      while (next.done !== true) {
+        pending += next.value;
+        const open = pending.lastIndexOf('[');
+        const held =
+          open >= 0 &&
+          !pending.includes(']', open) &&
+          pending.length - open < MAX_PLACEHOLDER_LENGTH
+            ? open
+            : pending.length;
+        const ready = this.restore(pending.slice(0, held));
+        pending = pending.slice(held);
+        if (ready) yield ready;
+        next = await chunks.next();
+      }
+      if (pending) yield this.restore(pending);
+      return next.value;
+    } finally {
+      await chunks.return(undefined);
+    }
+  }
+
+  private placeholderFor(id: string, value: string): string {
+    const existing = this.byValue.get(value);
+    if (existing) return existing;
+    const count = (this.counts.get(id) ?? 0) + 1;
+    this.counts.set(id, count);
+    const placeholder = `[${id.toUpperCase()}_${count}]`;
+    this.byValue.set(value, placeholder);
+    this.byPlaceholder.set(placeholder, { id, value });
+    return placeholder;
+  }
+}
+
+/** Replaces each valid match of rule (or its capture group) with replacement(value). */
+export function replaceMatches(
+  text: string,
+  rule: RedactionRule,
+  replacement: (value: string) => string,
+): string {
+  return text.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+    const value = rule.group ? (groups[rule.group - 1] as string) : match;
+    if (!value || (rule.validate && !rule.validate(value))) return match;
+    return rule.group
+      ? match.replace(value, replacement(value))
+      : replacement(value);
+  });
+}
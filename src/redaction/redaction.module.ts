@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { RedactionService } from './redaction.service';
+import { RedactingLogger } from './redacting-logger';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [RedactionService, RedactingLogger],
+  exports: [RedactionService, RedactingLogger],
+})
+export class RedactionModule {}
@@ -0,0 +1,99 @@
+import { ConfigService } from '@nestjs/config';
+import { RedactionService } from './redaction.service';
+
+function createService(env: Record<string, string> = {}) {
+  return new RedactionService({
+    get: (key: string) => env[key],
+  } as ConfigService);
+}
+
+async function* chunks(...parts: string[]): AsyncGenerator<string, string> {
+  for (const part of parts) yield part;
+  return 'meta';
+}
+
+describe('RedactionService', () => {
+  it('replaces each entity with a stable placeholder', () => {
+    const session = createService().createSession();
+
+    const first = session.redact(
+      'Booking QX7K2M, email ana.garcia@example.com, card 4111 1111 1111 1111, ' +
+        'phone +34 612 345 678, passport number: X1234567.',
+    );
+    const second = session.redact(
+      'Is QX7K2M paid? Mail ana.garcia@example.com',
+    );
+
+    expect(first).toBe(
+      'Booking [BOOKING_REF_1], email [EMAIL_1], card [CARD_1], ' +
+        'phone [PHONE_1], passport number: [PASSPORT_1].',
+    );
+    expect(second).toBe('Is [BOOKING_REF_1] paid? Mail [EMAIL_1]');
+  });
+
+  it('redacts booking references typed in lowercase', () => {
+    const session = createService().createSession();
+
+    expect(
+      session.redact('My booking is abc123, flight ua2402, ref Qx7k2M'),
+    ).toBe('My booking is [BOOKING_REF_1], flight ua2402, ref [BOOKING_REF_2]');
+    expect(session.redact('Is abc123 confirmed? Mexico, 2026')).toBe(
+      'Is [BOOKING_REF_1] confirmed? Mexico, 2026',
+    );
+  });
+
+  it('leaves flight numbers, dates and non-card numbers alone', () => {
+    const session = createService().createSession();
+    const text =
+      'Flights UA2402 and W61176 (a 737MAX) on 2026-03-14 09:15, order 1234 5678 9012 3456, ' +
+      'request fec12345-6789-4c0c-8560-87da1892b151.';
+
+    expect(session.redact(text)).toBe(text);
+  });
+
+  it('restores only restorable entities, also across stream chunks', async () => {
+    const session = createService().createSession();
+    session.register('booking_ref', 'pl4n3t');
+    session.redact('pl4n3t, lopez@example.com, 4111111111111111');
+
+    expect(
+      session.restoreParams({
+        booking_reference: '[BOOKING_REF_1]',
+        email: '[EMAIL_1]',
+        card: '[CARD_1]',
+      }),
+    ).toEqual({
+      booking_reference: 'pl4n3t',
+      email: 'lopez@example.com',
+      card: '[CARD_1]',
+    });
+
+    const stream = session.restoreStream(
+      chunks('Booking [BOOK', 'ING_REF_1] is ', 'paid with [CARD_1].'),
+    );
+    let text = '';
+    let next = await stream.next();
+    while (next.done !== true) {
+      text += next.value;
+      next = await stream.next();
+    }
+    expect(text).toBe('Booking pl4n3t is paid with [CARD_1].');
+    expect(next.value).toBe('meta');
+  });
+
+  it('masks logs with the configured rules', () => {
+    const service = createService({
+      PII_REDACTION_RULES: 'email',
+      PII_REDACTION_EXTRA_RULES: JSON.stringify([
+        { id: 'loyalty_number', pattern: '\\bFF\\d{8}\\b', flags: 'i' },
+      ]),
+    });
+
+    expect(
+      service.mask('a@b.co with ff12345678 and QX7K2M at +34 612 345 678'),
+    ).toBe('[EMAIL] with [LOYALTY_NUMBER] and QX7K2M at +34 612 345 678');
+    expect(createService({ PII_REDACTION: 'false' }).mask('a@b.co')).toBe(
+      'a@b.co',
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BUILT_IN_REDACTION_RULES,
+  parseRedactionRules,
+} from './redaction-rules';
+import { RedactionSession, replaceMatches } from './redaction-session';
+import { RedactionSettings } from './redaction.types';
+import { parseList } from '../common/text-patterns';
+
+const DEFAULT_RESTORE = 'booking_ref,email';
+
+/**
+ * Detects personal data (cards, emails, phone and passport numbers, booking
+ * references) so it never reaches an LLM provider or the logs verbatim.
+ *
+ * - PII_REDACTION=false turns redaction off.
+ * - PII_REDACTION_RULES: built-in rules to apply (default all: card, email,
+ *   passport, phone, booking_ref).
+ * - PII_REDACTION_EXTRA_RULES: JSON array of extra {id, pattern, flags?, group?}.
+ * - PII_REDACTION_RESTORE: entities whose values tools and replies get back
+ *   (default booking_ref,email, which booking_lookup needs).
+ */
+@Injectable()
+export class RedactionService {
+  private readonly settings: RedactionSettings;
+
+  constructor(private readonly config: ConfigService) {
+    const enabledIds = parseList(
+      this.config.get<string>('PII_REDACTION_RULES'),
+    );
+    const extra = this.config.get<string>('PII_REDACTION_EXTRA_RULES');
+    this.settings = {
+      enabled: this.config.get<string>('PII_REDACTION') !== 'false',
+      rules: [
+        ...BUILT_IN_REDACTION_RULES.filter(
+          (rule) => !enabledIds || enabledIds.includes(rule.id),
+        ),
+        ...(extra ? parseRedactionRules(JSON.parse(extra)) : []),
+      ],
+      restore: new Set(
+        parseList(
+          this.config.get<string>('PII_REDACTION_RESTORE') ?? DEFAULT_RESTORE,
+        ),
+      ),
+    };
+  }
+
+  /** Placeholders for one chat turn; see RedactionSession. */
+  createSession(): RedactionSession {
+    return new RedactionSession(this.settings);
+  }
+
+  /** Replaces every detected entity with its label, e.g. "[EMAIL]"; for logs. */
+  mask(text: string): string {
+    if (!this.settings.enabled || !text) return text;
+    return this.settings.rules.reduce(
+      (result, rule) =>
+        replaceMatches(result, rule, () => `[${rule.id.toUpperCase()}]`),
+      text,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+/** A kind of personal data the redactor detects. */
+export interface RedactionRule {
+  /** Entity id, e.g. "email"; also the placeholder label ([EMAIL_1]). */
+  id: string;
+  /** Must be global. */
+  pattern: RegExp;
+  /** Only this capture group is replaced (e.g. the number after "passport"). */
+  group?: number;
+  /** Rejects false positives, e.g. card numbers failing the Luhn check. */
+  validate?: (value: string) => boolean;
+}
+
+/** An extra rule as configured in PII_REDACTION_EXTRA_RULES. */
+export interface RedactionRuleConfig {
+  id: string;
+  pattern: string;
+  /** RegExp flags besides "g", e.g. "i". */
+  flags?: string;
+  group?: number;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  rules: RedactionRule[];
+  /** Entity ids whose real values are put back into tool params and replies. */
+  restore: ReadonlySet<string>;
+}
@@ -0,0 +1,9 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { RequestWithTenant } from './tenant.guard';
+import type { TenantConfig } from './tenant.types';
+
+/** The tenant resolved by TenantGuard; undefined on unguarded routes. */
+export const Tenant = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): TenantConfig | undefined =>
+    context.switchToHttp().getRequest<RequestWithTenant>().tenant,
+);
@@ -0,0 +1,27 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import type { RequestWithApiClient } from '../api-clients/api-key.guard';
+import { TenantsService } from './tenants.service';
+import { TenantConfig } from './tenant.types';
+
+export type RequestWithTenant = RequestWithApiClient & {
+  tenant?: TenantConfig;
+};
+
+/**
+ * Resolves the brand a chat request runs as, from the caller's API key or the
+ * x-tenant-id header. Runs after ApiKeyGuard: @UseGuards(ApiKeyGuard, TenantGuard).
+ */
+@Injectable()
+export class TenantGuard implements CanActivate {
+  constructor(private readonly tenants: TenantsService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<RequestWithTenant>();
+    const header = request.headers['x-tenant-id'];
+    request.tenant = this.tenants.resolve(
+      request.apiClient,
+      typeof header === 'string' ? header : undefined,
+    );
+    return true;
+  }
+}
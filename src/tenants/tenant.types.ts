@@ -0,0 +1,58 @@
+/** Provider order and models for one tenant; unset fields fall back to the global env. */
+export interface TenantLlmSettings {
+  /** Primary provider, as LLM_PROVIDER. */
+  provider?: string;
+  /** Fallback order, as LLM_PROVIDER_ORDER. */
+  providerOrder?: string[];
+  geminiModel?: string;
+  openaiModel?: string;
+}
+
+/** Credentials for the tenant's own provider and integration accounts. */
+export interface TenantIntegrations {
+  geminiApiKey?: string;
+  openaiApiKey?: string;
+  freeflowServiceUrl?: string;
+  aviationstackApiKey?: string;
+}
+
+/** One brand served by this backend, as defined in TENANTS or TENANTS_FILE. */
+export interface TenantConfig {
+  id: string;
+  /** How the assistant names the company; empty keeps the generic OTA wording. */
+  brandName: string;
+  /** Free-text tone guidance added to the system prompt. */
+  tone?: string;
+  /** Brand policies that take precedence over the help-center articles. */
+  policyOverrides?: string[];
+  /** Tool names the assistant may call; absent enables every tool. */
+  enabledTools?: string[];
+  /** Competitor brands replies must not mention, besides GUARDRAIL_COMPETITORS. */
+  competitors?: string[];
+  llm?: TenantLlmSettings;
+  integrations?: TenantIntegrations;
+}
+
+/**
+ * What an LLM client reads from a tenant; clients built for a tenant take it
+ * as their last constructor argument (see LlmClientFactory).
+ */
+export type TenantLlmOverrides = Pick<TenantConfig, 'llm' | 'integrations'>;
+
+export const DEFAULT_TENANT_ID = 'default';
+
+/**
+ * Reads tenant configs from parsed JSON, dropping entries without an id and
+ * brand name.
+ */
+export function parseTenantConfigs(raw: unknown): TenantConfig[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Tenants must be a JSON array.');
+  }
+  return raw.filter(
+    (entry): entry is TenantConfig =>
+      typeof entry?.id === 'string' &&
+      entry.id.length > 0 &&
+      typeof entry?.brandName === 'string',
+  );
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TenantsService } from './tenants.service';
+import { TenantGuard } from './tenant.guard';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [TenantsService, TenantGuard],
+  exports: [TenantsService, TenantGuard],
+})
+export class TenantsModule {}
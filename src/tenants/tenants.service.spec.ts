@@ -0,0 +1,95 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TenantsService } from './tenants.service';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+
+const TENANTS = [
+  { id: 'sunway', brandName: 'Sunway Travel', enabledTools: ['flight_status'] },
+  { id: 'polar', brandName: 'Polar Trips' },
+  { brandName: 'No id, dropped' },
+];
+
+async function createService(env: Record<string, string> = {}) {
+  const config = {
+    get: (key: string) => ({ TENANTS: JSON.stringify(TENANTS), ...env })[key],
+  } as ConfigService;
+  const service = new TenantsService(config);
+  await service.onModuleInit();
+  return service;
+}
+
+const keyFor = (
+  tenantId?: string,
+  allowedTenants?: string[],
+): ApiClientIdentity => ({
+  id: 'partner',
+  anonymous: false,
+  bucketKey: 'key:partner',
+  allowedOrigins: [],
+  limits: {
+    requestsPerMinute: 10,
+    requestBurst: 10,
+    toolCallsPerMinute: 10,
+    toolCallBurst: 10,
+  },
+  tenantId,
+  allowedTenants,
+});
+
+describe('TenantsService', () => {
+  it("uses the key's tenant and refuses a header naming another", async () => {
+    const service = await createService();
+
+    expect(service.resolve(keyFor('sunway')).brandName).toBe('Sunway Travel');
+    expect(service.resolve(keyFor('sunway'), 'sunway').id).toBe('sunway');
+    expect(() => service.resolve(keyFor('sunway'), 'polar')).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('lets unbound keys pick only their allowed tenants by header', async () => {
+    const service = await createService();
+    const multiBrand = keyFor(undefined, ['polar', 'retired']);
+
+    expect(service.resolve(multiBrand, 'polar').brandName).toBe('Polar Trips');
+    expect(service.resolve(multiBrand).id).toBe('default');
+    expect(() => service.resolve(multiBrand, 'sunway')).toThrow(
+      ForbiddenException,
+    );
+    expect(() => service.resolve(multiBrand, 'retired')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('refuses a tenant header from anonymous callers and keys without allowedTenants', async () => {
+    const service = await createService();
+    const anonymous = { ...keyFor(), id: 'anonymous', anonymous: true };
+
+    expect(() => service.resolve(anonymous, 'polar')).toThrow(
+      ForbiddenException,
+    );
+    expect(() => service.resolve(keyFor(), 'polar')).toThrow(
+      ForbiddenException,
+    );
+    expect(() => service.resolve(undefined, 'polar')).toThrow(
+      ForbiddenException,
+    );
+    expect(service.resolve(anonymous, 'default').id).toBe('default');
+  });
+
+  it('falls back to a default tenant built from the global settings', async () => {
+    const service = await createService({ BRAND_NAME: 'Skyline' });
+
+    expect(service.resolve(undefined)).toEqual({
+      id: 'default',
+      brandName: 'Skyline',
+    });
+    expect(service.findById('No id, dropped')).toBeNull();
+  });
+
+  it('uses a configured tenant as the default when TENANT_DEFAULT_ID names it', async () => {
+    const service = await createService({ TENANT_DEFAULT_ID: 'polar' });
+
+    expect(service.resolve(keyFor()).id).toBe('polar');
+  });
+});
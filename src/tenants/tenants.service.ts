@@ -0,0 +1,100 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import type { ApiClientIdentity } from '../api-clients/api-client.types';
+import {
+  DEFAULT_TENANT_ID,
+  TenantConfig,
+  parseTenantConfigs,
+} from './tenant.types';
+
+/**
+ * Brand configurations, loaded at startup from TENANTS_FILE or else the
+ * TENANTS environment variable (both a JSON array). Requests without a tenant
+ * get the default one: the tenant whose id is TENANT_DEFAULT_ID, or a tenant
+ * built from the global settings (BRAND_NAME, LLM_PROVIDER, ...).
+ */
+@Injectable()
+export class TenantsService implements OnModuleInit {
+  private readonly logger = new Logger(TenantsService.name);
+  private readonly defaultId: string;
+  private tenants = new Map<string, TenantConfig>();
+
+  constructor(private readonly config: ConfigService) {
+    this.defaultId =
+      this.config.get<string>('TENANT_DEFAULT_ID') ?? DEFAULT_TENANT_ID;
+  }
+
+  async onModuleInit(): Promise<void> {
+    const path = this.config.get<string>('TENANTS_FILE');
+    const source = path ?? 'TENANTS';
+    try {
+      const raw = path
+        ? await readFile(path, 'utf8')
+        : this.config.get<string>('TENANTS');
+      if (raw) this.setTenants(parseTenantConfigs(JSON.parse(raw)));
+    } catch (e) {
+      // Every request then runs as the default tenant.
+      this.logger.error(`Failed to load tenants from ${source}`, e as Error);
+      return;
+    }
+    if (this.tenants.size > 0) {
+      this.logger.log(
+        `Loaded tenants from ${source}: ${[...this.tenants.keys()].join(', ')}`,
+      );
+    }
+  }
+
+  setTenants(tenants: TenantConfig[]): void {
+    this.tenants = new Map(tenants.map((t) => [t.id, t]));
+  }
+
+  findById(id: string): TenantConfig | null {
+    if (this.tenants.has(id)) return this.tenants.get(id);
+    return id === this.defaultId ? this.defaultTenant() : null;
+  }
+
+  defaultTenant(): TenantConfig {
+    return (
+      this.tenants.get(this.defaultId) ?? {
+        id: this.defaultId,
+        brandName: this.config.get<string>('BRAND_NAME') ?? '',
+      }
+    );
+  }
+
+  /**
+   * The tenant for a request. A key bound to a tenant always gets that tenant;
+   * other keys get the default, or one of their allowedTenants named by
+   * x-tenant-id. A header naming any other tenant is refused, so anonymous
+   * callers cannot switch brands.
+   */
+  resolve(
+    client: ApiClientIdentity | undefined,
+    header?: string,
+  ): TenantConfig {
+    const requested = header?.trim() || undefined;
+    const own = client?.tenantId ?? this.defaultId;
+    if (!requested || requested === own) {
+      return client?.tenantId ? this.require(own) : this.defaultTenant();
+    }
+    if (client?.tenantId || !client?.allowedTenants?.includes(requested)) {
+      throw new ForbiddenException(
+        `This caller cannot be used for tenant "${requested}".`,
+      );
+    }
+    return this.require(requested);
+  }
+
+  private require(id: string): TenantConfig {
+    const tenant = this.findById(id);
+    if (!tenant) throw new BadRequestException(`Unknown tenant "${id}".`);
+    return tenant;
+  }
+}